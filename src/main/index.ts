@@ -5,6 +5,7 @@ import { logger } from './logger'
 import { registerAllHandlers } from './ipc'
 import { getSettings } from './services/settings'
 import * as obs from './services/obs'
+import * as obsAngles from './services/obsAngles'
 import * as recording from './services/recording'
 import * as overlay from './services/overlay'
 import * as wsHub from './services/wsHub'
@@ -20,6 +21,11 @@ import * as wpdBridge from './services/wpdBridge'
 import * as tether from './services/tether'
 import * as wifiDisplay from './services/wifiDisplay'
 import * as chatBridge from './services/chatBridge'
+import * as localMirror from './services/localMirror'
+import * as scheduleSync from './services/scheduleSync'
+import * as autoRecord from './services/autoRecord'
+import * as mediaProtocol from './services/mediaProtocol'
+import * as embeddingIndex from './services/embeddingIndex'
 import { checkAndRecover } from './services/crashRecovery'
 import { runStartupChecks } from './services/startup'
 
@@ -46,6 +52,9 @@ process.on('unhandledRejection', (reason) => {
 
 let mainWindow: BrowserWindow | null = null
 
+// Custom schemes have to be declared before the app is ready
+mediaProtocol.registerScheme()
+
 function createWindow(): void {
   logger.app.info('Creating main window')
 
@@ -155,6 +164,7 @@ app.whenReady().then(async () => {
 
   // Register IPC handlers before creating window
   registerAllHandlers()
+  mediaProtocol.registerHandler()
 
   // Wire OBS recording events to recording pipeline
   obs.onRecordStarted((data) => {
@@ -165,6 +175,13 @@ app.whenReady().then(async () => {
       recording.handleRecordingStopped(data.outputPath, data.timestamp)
     }
   })
+  obs.setOnAudioLevels((levels) => autoRecord.handleLevels(levels))
+  obsAngles.onAngleRecordStarted((data) => {
+    recording.handleAngleRecordingStarted(data.connectionId, data.timestamp)
+  })
+  obsAngles.onAngleRecordStopped((data) => {
+    recording.handleAngleRecordingStopped(data.connectionId, data.name, data.role, data.outputPath, data.timestamp)
+  })
 
   // Load persisted state BEFORE creating window (so renderer gets correct data on first IPC)
   state.loadState()
@@ -172,6 +189,9 @@ app.whenReady().then(async () => {
   // Create window
   createWindow()
 
+  // Connect additional OBS instances (camera angles)
+  obsAngles.syncConnections()
+
   // Start overlay + WebSocket hub
   overlay.startServer()
   wsHub.start()
@@ -220,6 +240,9 @@ app.whenReady().then(async () => {
     logger.app.warn('Crash recovery check failed:', err)
   })
 
+  // Two-way schedule sync — idles until a share-code competition is loaded
+  scheduleSync.start()
+
   // Resolve share code on startup (needed for upload credentials even if competition is persisted)
   const settings = getSettings()
   if (settings.compsync?.shareCode) {
@@ -234,7 +257,8 @@ app.whenReady().then(async () => {
         } else {
           logger.app.info(`Share code resolved — upload credentials ready`)
         }
-        // Fix orphaned 'uploading' routines (job queue is in-memory, lost on restart)
+        // Fix orphaned 'uploading' routines — their jobs are back to pending, and a waiting
+        // multipart upload keeps the routine's uploadRunId so it resumes where it stopped
         const comp = state.getCompetition()
         if (comp) {
           let resetCount = 0
@@ -253,6 +277,10 @@ app.whenReady().then(async () => {
         uploadService.retryOrphanedCompletions().then(count => {
           if (count > 0) logger.app.info(`Recovered ${count} orphaned upload completions`)
         }).catch(() => {})
+        // Re-check uploaded files against the server's copies (re-uploads overwrite R2 objects)
+        uploadService.verifyUploads().then(result => {
+          if (result.mismatched > 0) logger.app.warn(`Verify found ${result.mismatched} mismatched uploads`)
+        }).catch(() => {})
         // Retry encoded routines that were skipped due to missing connection at encode time
         const skippedRetried = uploadService.retrySkippedEncoded()
         if (skippedRetried > 0) logger.app.info(`Retried ${skippedRetried} encoded routines that were skipped earlier`)
@@ -285,6 +313,7 @@ app.on('before-quit', async (event) => {
   // Flush persistent state
   state.saveStateImmediate()
   jobQueue.cleanup()
+  embeddingIndex.flushSync()
 
   // Stop wifi display
   wifiDisplay.cleanup()
@@ -297,11 +326,13 @@ app.on('before-quit', async (event) => {
   // await wpdBridge.stop() // WPD disabled
   wsHub.stop()
   overlay.stopServer()
+  localMirror.stopServer()
+  scheduleSync.stop()
 
   // Disconnect OBS with timeout to avoid blocking shutdown
   try {
     await Promise.race([
-      obs.disconnect(),
+      Promise.all([obs.disconnect(), obsAngles.disconnectAll()]),
       new Promise(r => setTimeout(r, 3000)),
     ])
   } catch {}
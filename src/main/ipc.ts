@@ -1,14 +1,16 @@
 import { ipcMain, dialog, shell, clipboard, BrowserWindow } from 'electron'
-import { IPC_CHANNELS } from '../shared/types'
+import { IPC_CHANNELS, MarkerKind, NewRoutineInput, RoutineTrim, SceneRule, ScheduleImportOptions } from '../shared/types'
 import fs from 'fs'
 import path from 'path'
 import * as obs from './services/obs'
+import * as obsAngles from './services/obsAngles'
 import * as settings from './services/settings'
 import * as schedule from './services/schedule'
 import * as stateService from './services/state'
 import * as recording from './services/recording'
 import * as ffmpegService from './services/ffmpeg'
 import * as uploadService from './services/upload'
+import * as bandwidth from './services/bandwidth'
 import * as photoService from './services/photos'
 import * as overlay from './services/overlay'
 import * as wsHub from './services/wsHub'
@@ -22,6 +24,14 @@ import * as chatBridge from './services/chatBridge'
 import * as brandScraper from './services/brandScraper'
 import { checkAndRecover } from './services/crashRecovery'
 import * as recovery from './services/recovery'
+import * as scheduleSync from './services/scheduleSync'
+import * as scheduleDiff from './services/scheduleDiff'
+import * as scheduleImport from './services/scheduleImport'
+import * as takes from './services/takes'
+import * as markers from './services/markers'
+import * as autoRecord from './services/autoRecord'
+import * as sceneRules from './services/sceneRules'
+import * as clockSync from './services/clockSync'
 import { logger } from './logger'
 
 function logIPC(channel: string, args?: unknown): void {
@@ -94,6 +104,25 @@ export function registerAllHandlers(): void {
     return await obs.getInputList()
   })
 
+  safeHandle(IPC_CHANNELS.OBS_ANGLES_GET, async () => {
+    return obsAngles.getStates()
+  })
+
+  safeHandle(IPC_CHANNELS.OBS_SCENE_LIST, async () => {
+    logIPC(IPC_CHANNELS.OBS_SCENE_LIST)
+    return await obs.getSceneList()
+  })
+
+  safeHandle(IPC_CHANNELS.OBS_SCENE_SOURCES, async (sceneName: unknown) => {
+    logIPC(IPC_CHANNELS.OBS_SCENE_SOURCES, { sceneName })
+    return await obs.getSceneSources(sceneName as string)
+  })
+
+  safeHandle(IPC_CHANNELS.SCENE_RULE_TEST, async (rule: unknown) => {
+    logIPC(IPC_CHANNELS.SCENE_RULE_TEST, { name: (rule as SceneRule).name })
+    return { errors: await sceneRules.runRule(rule as SceneRule) }
+  })
+
   // --- Recording Pipeline ---
   safeHandle(IPC_CHANNELS.RECORDING_NEXT, async () => {
     logIPC(IPC_CHANNELS.RECORDING_NEXT)
@@ -122,6 +151,17 @@ export function registerAllHandlers(): void {
     await recording.nextFull()
   })
 
+  // Auto-record (audio-triggered start/stop)
+  safeHandle(IPC_CHANNELS.AUTO_RECORD_ACCEPT, async (id: unknown) => {
+    logIPC(IPC_CHANNELS.AUTO_RECORD_ACCEPT, { id })
+    await autoRecord.accept(id as string)
+  })
+
+  safeHandle(IPC_CHANNELS.AUTO_RECORD_UNDO, async (id: unknown) => {
+    logIPC(IPC_CHANNELS.AUTO_RECORD_UNDO, { id })
+    await autoRecord.undo(id as string)
+  })
+
   // --- FFmpeg ---
   safeHandle(IPC_CHANNELS.FFMPEG_ENCODE, async (routineId: unknown) => {
     logIPC(IPC_CHANNELS.FFMPEG_ENCODE, { routineId })
@@ -142,6 +182,13 @@ export function registerAllHandlers(): void {
     })
   })
 
+  safeHandle(IPC_CHANNELS.MEDIA_WAVEFORM, async (routineId: unknown) => {
+    logIPC(IPC_CHANNELS.MEDIA_WAVEFORM, { routineId })
+    const routine = stateService.getCompetition()?.routines.find((r) => r.id === routineId)
+    if (!routine?.outputPath) return { error: 'Routine not found or not recorded' }
+    return ffmpegService.getWaveform(routine.outputPath)
+  })
+
   safeHandle(IPC_CHANNELS.FFMPEG_PAUSE, () => {
     logIPC(IPC_CHANNELS.FFMPEG_PAUSE)
     ffmpegService.pauseEncoding()
@@ -174,9 +221,9 @@ export function registerAllHandlers(): void {
   })
 
   // --- Schedule ---
-  safeHandle(IPC_CHANNELS.SCHEDULE_LOAD_CSV, async (filePath: unknown) => {
+  safeHandle(IPC_CHANNELS.SCHEDULE_LOAD_CSV, async (filePath: unknown, options: unknown) => {
     logIPC(IPC_CHANNELS.SCHEDULE_LOAD_CSV, { filePath })
-    const comp = schedule.loadSchedule(filePath as string)
+    const comp = schedule.loadSchedule(filePath as string, options as ScheduleImportOptions | undefined)
     stateService.setCompetition(comp)
     recording.broadcastFullState()
     return comp
@@ -186,6 +233,7 @@ export function registerAllHandlers(): void {
     logIPC(IPC_CHANNELS.SCHEDULE_LOAD_SHARE_CODE, { shareCode })
     const comp = await schedule.loadFromShareCode(shareCode as string)
     stateService.setCompetition(comp)
+    scheduleSync.reset()
     recording.broadcastFullState()
     // Start chat bridge now that share code is resolved (competitionId available)
     chatBridge.stopChatBridge()
@@ -193,6 +241,52 @@ export function registerAllHandlers(): void {
     return comp
   })
 
+  // Reviewed reload: parse the incoming schedule, return a diff, apply only accepted changes
+  safeHandle(IPC_CHANNELS.SCHEDULE_PREVIEW_FILE, async (filePath: unknown, options: unknown) => {
+    logIPC(IPC_CHANNELS.SCHEDULE_PREVIEW_FILE, { filePath, mapped: !!options })
+    const incoming = schedule.loadSchedule(filePath as string, options as ScheduleImportOptions | undefined)
+    return scheduleDiff.preview(incoming, 'file', schedule.getResolvedConnection())
+  })
+
+  safeHandle(IPC_CHANNELS.SCHEDULE_PREVIEW_SHARE_CODE, async (shareCode: unknown) => {
+    logIPC(IPC_CHANNELS.SCHEDULE_PREVIEW_SHARE_CODE, { shareCode })
+    const previous = schedule.getResolvedConnection()
+    const incoming = await schedule.loadFromShareCode(shareCode as string)
+    return scheduleDiff.preview(incoming, 'share-code', previous)
+  })
+
+  safeHandle(IPC_CHANNELS.SCHEDULE_APPLY_RELOAD, async (acceptedIds: unknown) => {
+    logIPC(IPC_CHANNELS.SCHEDULE_APPLY_RELOAD, { accepted: (acceptedIds as string[]).length })
+    const { competition, source } = scheduleDiff.apply(acceptedIds as string[])
+    if (source === 'share-code') {
+      scheduleSync.reset()
+      chatBridge.stopChatBridge()
+      chatBridge.startChatBridge()
+    }
+    recording.broadcastFullState()
+    return competition
+  })
+
+  safeHandle(IPC_CHANNELS.SCHEDULE_DISCARD_RELOAD, async () => {
+    logIPC(IPC_CHANNELS.SCHEDULE_DISCARD_RELOAD)
+    scheduleDiff.discard()
+  })
+
+  // Column mapping for vendor CSV/XLSX exports
+  safeHandle(IPC_CHANNELS.SCHEDULE_INSPECT_FILE, async (filePath: unknown, sheet: unknown) => {
+    logIPC(IPC_CHANNELS.SCHEDULE_INSPECT_FILE, { filePath, sheet })
+    return schedule.inspectScheduleFile(filePath as string, sheet as string | undefined)
+  })
+
+  safeHandle(IPC_CHANNELS.SCHEDULE_PREVIEW_MAPPING, async (filePath: unknown, options: unknown) => {
+    return schedule.previewMapping(filePath as string, options as ScheduleImportOptions)
+  })
+
+  safeHandle(IPC_CHANNELS.SCHEDULE_SAVE_MAPPING_PROFILE, async (profile: unknown) => {
+    logIPC(IPC_CHANNELS.SCHEDULE_SAVE_MAPPING_PROFILE, { name: (profile as { name: string }).name })
+    return scheduleImport.saveProfile(profile as Parameters<typeof scheduleImport.saveProfile>[0])
+  })
+
   safeHandle(IPC_CHANNELS.SCHEDULE_GET, async () => {
     return stateService.getCompetition()
   })
@@ -227,6 +321,83 @@ export function registerAllHandlers(): void {
     recording.broadcastFullState()
   })
 
+  // Takes (re-dances): pick which recording is primary for encode/upload
+  safeHandle(IPC_CHANNELS.STATE_SET_PRIMARY_TAKE, async (routineId: unknown, takeNumber: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_SET_PRIMARY_TAKE, { routineId, takeNumber })
+    const routine = takes.setPrimaryTake(routineId as string, takeNumber as number)
+    // A take that needs (re-)uploading as primary goes out like a fresh encode would
+    if (routine.status === 'encoded' && settings.getSettings().behavior.autoUploadAfterEncoding) {
+      if (uploadService.enqueueRoutine(routine).queuedJobs > 0) uploadService.startUploads()
+    }
+    recording.broadcastFullState()
+    return routine
+  })
+
+  safeHandle(IPC_CHANNELS.STATE_SET_TAKE_NOTE, async (routineId: unknown, takeNumber: unknown, note: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_SET_TAKE_NOTE, { routineId, takeNumber })
+    takes.setTakeNote(routineId as string, takeNumber as number, note as string)
+    recording.broadcastFullState()
+  })
+
+  safeHandle(IPC_CHANNELS.MARKER_ADD, async (kind: unknown, label: unknown) => {
+    logIPC(IPC_CHANNELS.MARKER_ADD, { kind })
+    return markers.addMarker(kind as MarkerKind, 'app', label as string | undefined)
+  })
+
+  // Trim editor: in/out points the encoder applies
+  safeHandle(IPC_CHANNELS.STATE_SET_TRIM, async (routineId: unknown, trim: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_SET_TRIM, { routineId, trim })
+    stateService.setRoutineTrim(routineId as string, (trim as RoutineTrim | null) ?? null)
+    recording.broadcastRoutineUpdate(routineId as string)
+  })
+
+  safeHandle(IPC_CHANNELS.MARKER_REMOVE, async (routineId: unknown, markerId: unknown) => {
+    logIPC(IPC_CHANNELS.MARKER_REMOVE, { routineId, markerId })
+    markers.removeMarker(routineId as string, markerId as string)
+  })
+
+  safeHandle(IPC_CHANNELS.STATE_SET_UPLOAD_ALL_TAKES, async (routineId: unknown, enabled: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_SET_UPLOAD_ALL_TAKES, { routineId, enabled })
+    takes.setUploadAllTakes(routineId as string, !!enabled)
+    recording.broadcastFullState()
+  })
+
+  // Operator schedule edits (recorded in the competition's audit log)
+  safeHandle(IPC_CHANNELS.STATE_ADD_ROUTINE, async (input: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_ADD_ROUTINE, input)
+    const routine = stateService.addRoutine(input as NewRoutineInput)
+    recording.broadcastFullState()
+    return routine
+  })
+
+  safeHandle(IPC_CHANNELS.STATE_SCRATCH_ROUTINE, async (routineId: unknown, reason: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_SCRATCH_ROUTINE, { routineId, reason })
+    const routine = stateService.scratchRoutine(routineId as string, reason as string)
+    recording.broadcastFullState()
+    return routine
+  })
+
+  safeHandle(IPC_CHANNELS.STATE_DUPLICATE_ROUTINE, async (routineId: unknown, kind: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_DUPLICATE_ROUTINE, { routineId, kind })
+    const routine = stateService.duplicateRoutine(routineId as string, kind === 'split' ? 'split' : 'redance')
+    recording.broadcastFullState()
+    return routine
+  })
+
+  safeHandle(IPC_CHANNELS.STATE_RENUMBER_ROUTINE, async (routineId: unknown, entryNumber: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_RENUMBER_ROUTINE, { routineId, entryNumber })
+    const routine = stateService.renumberRoutine(routineId as string, entryNumber as string)
+    recording.broadcastFullState()
+    return routine
+  })
+
+  safeHandle(IPC_CHANNELS.STATE_MOVE_ROUTINE_DAY, async (routineId: unknown, day: unknown) => {
+    logIPC(IPC_CHANNELS.STATE_MOVE_ROUTINE_DAY, { routineId, day })
+    const routine = stateService.moveRoutineToDay(routineId as string, day as string)
+    recording.broadcastFullState()
+    return routine
+  })
+
   safeHandle(IPC_CHANNELS.STATE_EXPORT_REPORT, async () => {
     logIPC(IPC_CHANNELS.STATE_EXPORT_REPORT)
     const report = stateService.exportReport()
@@ -260,6 +431,9 @@ export function registerAllHandlers(): void {
 
     // Apply recording format to OBS if connected and format changed
     const p = partial as Record<string, unknown>
+    if (p.scheduleSync) scheduleSync.start()
+    if (p.upload) bandwidth.refreshSettings()
+    if (p.obsAngles) obsAngles.syncConnections()
     if (p.obs && (p.obs as Record<string, unknown>).recordingFormat) {
       if (obs.getState().connectionStatus === 'connected') {
         obs.setRecordingFormat((p.obs as Record<string, unknown>).recordingFormat as string).catch(() => {})
@@ -306,6 +480,11 @@ export function registerAllHandlers(): void {
     uploadService.cancelRoutineUpload(routineId as string)
   })
 
+  safeHandle(IPC_CHANNELS.UPLOAD_VERIFY, async () => {
+    logIPC(IPC_CHANNELS.UPLOAD_VERIFY)
+    return uploadService.verifyUploads()
+  })
+
   safeHandle(IPC_CHANNELS.UPLOAD_ALL, () => {
     logIPC(IPC_CHANNELS.UPLOAD_ALL)
     const comp = stateService.getCompetition()
@@ -356,6 +535,22 @@ export function registerAllHandlers(): void {
     return await photoService.importPhotos(folderPath as string, comp.routines, s.fileNaming.outputDirectory)
   })
 
+  safeHandle(IPC_CHANNELS.PHOTOS_MOVE, async (filePath: unknown, toRoutineId: unknown) => {
+    logIPC(IPC_CHANNELS.PHOTOS_MOVE, { filePath, toRoutineId })
+    await photoService.movePhoto(filePath as string, (toRoutineId as string | null) ?? null)
+  })
+
+  safeHandle(IPC_CHANNELS.PHOTOS_APPLY_OFFSET, async (cameraId: unknown, clockOffsetMs: unknown) => {
+    logIPC(IPC_CHANNELS.PHOTOS_APPLY_OFFSET, { cameraId, clockOffsetMs })
+    const result = await photoService.applyCameraOffset(cameraId as string, clockOffsetMs as number)
+    // The timeline offset is app minus camera; syncs and tether store camera minus app
+    if (cameraId) {
+      clockSync.setManualOffset(cameraId as string, -(clockOffsetMs as number))
+      tether.refreshClockSyncs()
+    }
+    return result
+  })
+
   // --- Drive Monitor ---
   safeHandle(IPC_CHANNELS.DRIVE_DISMISS, async (drivePath: unknown) => {
     logIPC(IPC_CHANNELS.DRIVE_DISMISS, { drivePath })
@@ -384,6 +579,16 @@ export function registerAllHandlers(): void {
 
   safeHandle(IPC_CHANNELS.CLIP_CANCEL, () => clipVerify.cancel())
 
+  safeHandle(IPC_CHANNELS.CLIP_CLUSTER, async () => {
+    logIPC(IPC_CHANNELS.CLIP_CLUSTER)
+    return await clipVerify.clusterPhotos()
+  })
+
+  safeHandle(IPC_CHANNELS.CLIP_ACCEPT_RESCUES, async (picks: unknown) => {
+    logIPC(IPC_CHANNELS.CLIP_ACCEPT_RESCUES, { count: (picks as unknown[]).length })
+    return await photoService.movePhotos(picks as { filePath: string; routineId: string }[])
+  })
+
   // --- Overlay ---
   safeHandle(IPC_CHANNELS.OVERLAY_TOGGLE, (element: unknown) => {
     logIPC(IPC_CHANNELS.OVERLAY_TOGGLE, { element })
@@ -852,6 +1057,32 @@ export function registerAllHandlers(): void {
     return await tether.listWPDDevices()
   })
 
+  // --- Camera clock sync ---
+  safeHandle(IPC_CHANNELS.CLOCK_SYNC_START, () => {
+    logIPC(IPC_CHANNELS.CLOCK_SYNC_START)
+    clockSync.setListening(true)
+    return clockSync.getSyncs()
+  })
+
+  safeHandle(IPC_CHANNELS.CLOCK_SYNC_STOP, () => {
+    logIPC(IPC_CHANNELS.CLOCK_SYNC_STOP)
+    clockSync.setListening(false)
+  })
+
+  safeHandle(IPC_CHANNELS.CLOCK_SYNC_FROM_FILES, async () => {
+    logIPC(IPC_CHANNELS.CLOCK_SYNC_FROM_FILES)
+    const result = await clockSync.syncFromFiles()
+    if (result?.synced.length) tether.refreshClockSyncs()
+    return result
+  })
+
+  safeHandle(IPC_CHANNELS.CLOCK_SYNC_CLEAR, (cameraId: unknown) => {
+    logIPC(IPC_CHANNELS.CLOCK_SYNC_CLEAR, { cameraId })
+    const syncs = clockSync.clearSync(cameraId as string)
+    tether.refreshClockSyncs()
+    return syncs
+  })
+
   // --- Wifi Display ---
   safeHandle(IPC_CHANNELS.WIFI_DISPLAY_GET_MONITORS, () => {
     return wifiDisplay.getMonitors()
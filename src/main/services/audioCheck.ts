@@ -0,0 +1,82 @@
+import { AudioCheckAlert, AudioCheckIssue, AudioCheckResult, IPC_CHANNELS, Routine } from '../../shared/types'
+import { sendToRenderer } from '../ipcUtil'
+import { logger } from '../logger'
+import { getSettings } from './settings'
+import * as state from './state'
+import * as ffmpegService from './ffmpeg'
+import * as wsHub from './wsHub'
+
+// Post-recording probe of every audio track: a judge mic pack that died shows
+// up as a silent track, an overdriven one as clipping, a wrong OBS track setup
+// as missing tracks. Problems raise an alert in the app and on tablets right
+// away instead of when the studio complains.
+
+const SILENT_MAX_DB = -45 // loudest sample below this = nothing was picked up
+const CLIPPED_SAMPLES = 200 // full-scale samples before a track counts as clipped
+
+function roleLabel(role: string): string {
+  return role === 'performance' ? 'Performance' : role.replace(/^judge(\d+)$/, 'Judge $1')
+}
+
+/** Probe the routine's recording, store the result on the routine, and alert on problems. */
+export async function checkRecording(routine: Routine, filePath: string): Promise<AudioCheckResult> {
+  const expectedTracks = getSettings().competition.judgeCount + 1
+  const foundTracks = await ffmpegService.countAudioTracks(filePath)
+  const levels = await ffmpegService.measureTrackLevels(filePath, Math.min(foundTracks, expectedTracks))
+
+  const issues: AudioCheckIssue[] = []
+  for (let t = foundTracks; t < expectedTracks; t++) {
+    const role = t === 0 ? 'performance' : `judge${t}`
+    issues.push({ role, kind: 'missing', detail: `${roleLabel(role)} track missing from the recording` })
+  }
+  for (const level of levels) {
+    if (!level) continue
+    if (level.maxDb === null || level.maxDb < SILENT_MAX_DB) {
+      issues.push({
+        role: level.role,
+        kind: 'silent',
+        detail: `${roleLabel(level.role)} is silent (peak ${level.maxDb ?? '-inf'} dB) — check the mic`,
+      })
+    } else if (level.clippedSamples >= CLIPPED_SAMPLES) {
+      issues.push({
+        role: level.role,
+        kind: 'clipped',
+        detail: `${roleLabel(level.role)} is clipping (${level.clippedSamples} samples at full scale)`,
+      })
+    }
+  }
+
+  const result: AudioCheckResult = {
+    checkedAt: new Date().toISOString(),
+    expectedTracks,
+    foundTracks,
+    tracks: levels.filter((l) => l !== null),
+    issues,
+  }
+  if (routine.outputPath === filePath) {
+    routine.audioCheck = result
+    state.saveState()
+  }
+
+  if (issues.length > 0) {
+    logger.app.warn(`Audio check #${routine.entryNumber}: ${issues.map((i) => i.detail).join('; ')}`)
+    const alert: AudioCheckAlert = {
+      routineId: routine.id,
+      entryNumber: routine.entryNumber,
+      routineTitle: routine.routineTitle,
+      issues,
+    }
+    sendToRenderer(IPC_CHANNELS.AUDIO_CHECK_ALERT, alert)
+    wsHub.broadcastAlert({
+      type: 'alert',
+      kind: 'audio-check',
+      entryNumber: routine.entryNumber,
+      routineTitle: routine.routineTitle,
+      message: `#${routine.entryNumber}: ${issues.map((i) => `${roleLabel(i.role)} ${i.kind}`).join(', ')}`,
+      issues,
+    })
+  } else {
+    logger.app.info(`Audio check #${routine.entryNumber}: ${foundTracks} tracks OK`)
+  }
+  return result
+}
@@ -0,0 +1,200 @@
+import crypto from 'crypto'
+import { AudioLevel, AutoRecordEvent, IPC_CHANNELS, Routine } from '../../shared/types'
+import { sendToRenderer } from '../ipcUtil'
+import { logger } from '../logger'
+import { getSettings } from './settings'
+import * as obs from './obs'
+import * as state from './state'
+import * as recording from './recording'
+
+// Audio-triggered recording. Watches the performance input's level for music
+// onset while idle and sustained silence while recording.
+//   suggest — each action waits for the operator to accept it
+//   auto    — a start runs at once (undo discards it as a false start); a stop
+//             waits out the undo window first, so undoing never splits a file
+// Onset detection is disarmed after every stop or undo until the input has been
+// quiet for onsetHoldSec, so applause or a manual stop mid-song can't re-trigger.
+
+const GAP_TOLERANCE_MS = 500 // brief dips in the music don't reset the onset hold
+
+let aboveSince: number | null = null
+let lastAboveAt = 0
+let quietSince: number | null = null
+let silenceSince: number | null = null
+let armed = false
+let wasRecording = false
+let acting = false
+
+let event: AutoRecordEvent | null = null
+let eventTimer: NodeJS.Timeout | null = null
+let advancedFrom: string | null = null // routine that was current before an auto start advanced
+
+function toDb(levels: number[]): number {
+  const peak = levels.length ? Math.max(...levels) : 0
+  return peak > 0 ? 20 * Math.log10(peak) : -Infinity
+}
+
+function resetTracking(): void {
+  aboveSince = null
+  quietSince = null
+  silenceSince = null
+}
+
+function setEvent(next: AutoRecordEvent | null): void {
+  if (eventTimer) {
+    clearTimeout(eventTimer)
+    eventTimer = null
+  }
+  event = next
+  sendToRenderer(IPC_CHANNELS.AUTO_RECORD_EVENT, event)
+}
+
+/** Routine a music onset should record: the current one if untouched, else the next. */
+function startTarget(): Routine | null {
+  const current = state.getCurrentRoutine()
+  if (current?.status === 'pending') return current
+  const next = state.getNextRoutine()
+  return next?.status === 'pending' ? next : null
+}
+
+/** Called with every OBS meter update (~15 Hz). */
+export function handleLevels(levels: AudioLevel[]): void {
+  const settings = getSettings()
+  const cfg = settings.autoRecord
+  if (cfg.mode === 'off') return
+  const obsState = obs.getState()
+  if (obsState.connectionStatus !== 'connected' || !state.getCurrentRoutine()) return
+  const src = levels.find(l => l.inputName === settings.audioInputMapping.performance)
+  if (!src) return
+
+  if (obsState.isRecording !== wasRecording) {
+    wasRecording = obsState.isRecording
+    resetTracking()
+    if (!wasRecording) {
+      armed = false
+      if (event?.action === 'stop') setEvent(null) // stopped by hand during the undo window
+    }
+  }
+  if (event || acting) return
+
+  const db = toDb(src.levels)
+  const now = Date.now()
+
+  if (obsState.isRecording) {
+    if (db >= cfg.silenceThresholdDb) {
+      silenceSince = null
+      return
+    }
+    silenceSince ??= now
+    if (obsState.recordTimeSec >= cfg.minRecordingSec && now - silenceSince >= cfg.silenceHoldSec * 1000) {
+      trigger('stop', db)
+    }
+    return
+  }
+
+  if (db >= cfg.onsetThresholdDb) {
+    lastAboveAt = now
+    quietSince = null
+    if (!armed) return
+    aboveSince ??= now
+    if (now - aboveSince >= cfg.onsetHoldSec * 1000) trigger('start', db)
+    return
+  }
+  if (aboveSince !== null && now - lastAboveAt > GAP_TOLERANCE_MS) aboveSince = null
+  quietSince ??= now
+  if (!armed && now - quietSince >= cfg.onsetHoldSec * 1000) armed = true
+}
+
+function trigger(action: AutoRecordEvent['action'], levelDb: number): void {
+  const cfg = getSettings().autoRecord
+  const routine = action === 'start' ? startTarget() : state.getCurrentRoutine()
+  resetTracking()
+  if (!routine) {
+    logger.app.info(`Auto-record: music detected but no pending routine to record`)
+    armed = false
+    return
+  }
+
+  const now = Date.now()
+  const created: AutoRecordEvent = {
+    id: crypto.randomUUID(),
+    action,
+    stage: cfg.mode === 'suggest' ? 'suggested' : action === 'start' ? 'done' : 'pending',
+    routineId: routine.id,
+    entryNumber: routine.entryNumber,
+    routineTitle: routine.routineTitle,
+    levelDb: Math.round(levelDb),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + cfg.undoWindowSec * 1000).toISOString(),
+  }
+  logger.app.info(`Auto-record: ${action} #${routine.entryNumber} (${created.stage}, ${created.levelDb} dB)`)
+
+  if (created.stage === 'done') {
+    run(created).then((ok) => {
+      if (!ok) return
+      setEvent(created)
+      eventTimer = setTimeout(() => setEvent(null), cfg.undoWindowSec * 1000)
+    })
+    return
+  }
+  setEvent(created)
+  eventTimer = setTimeout(() => {
+    if (created.stage === 'pending') run(created).finally(() => setEvent(null))
+    else setEvent(null)
+  }, cfg.undoWindowSec * 1000)
+}
+
+async function run(e: AutoRecordEvent): Promise<boolean> {
+  acting = true
+  try {
+    if (e.action === 'stop') {
+      if (obs.getState().isRecording) await obs.stopRecord()
+      return true
+    }
+    const current = state.getCurrentRoutine()
+    advancedFrom = null
+    if (current && current.id !== e.routineId) {
+      const recordsOnNext = getSettings().behavior.autoRecordOnNext
+      await recording.next()
+      if (state.getCurrentRoutine()?.id !== e.routineId) {
+        throw new Error(`expected to advance to #${e.entryNumber}`)
+      }
+      advancedFrom = current.id
+      if (recordsOnNext) return true
+    }
+    await obs.startRecord()
+    return true
+  } catch (err) {
+    logger.app.error(`Auto-record ${e.action} failed:`, err instanceof Error ? err.message : err)
+    return false
+  } finally {
+    acting = false
+  }
+}
+
+/** Operator confirmed a suggestion, or wants a pending auto stop to happen now. */
+export async function accept(id: string): Promise<void> {
+  if (!event || event.id !== id || event.stage === 'done') throw new Error('Auto-record action is no longer pending')
+  const e = event
+  setEvent(null)
+  await run(e)
+}
+
+/** Dismiss a suggestion, cancel a pending stop, or discard an auto start as a false start. */
+export async function undo(id: string): Promise<void> {
+  if (!event || event.id !== id) throw new Error('Auto-record action can no longer be undone')
+  const e = event
+  setEvent(null)
+  armed = false
+  if (e.stage !== 'done') {
+    logger.app.info(`Auto-record: ${e.action} #${e.entryNumber} ${e.stage === 'pending' ? 'cancelled' : 'dismissed'}`)
+    return
+  }
+  await recording.discardRecording()
+  if (advancedFrom) {
+    state.jumpToRoutine(advancedFrom)
+    advancedFrom = null
+  }
+  recording.broadcastFullStateImmediate()
+  logger.app.info(`Auto-record: start on #${e.entryNumber} undone`)
+}
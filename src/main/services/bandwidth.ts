@@ -0,0 +1,108 @@
+import { Transform, TransformCallback } from 'stream'
+import { AppSettings } from '../../shared/types'
+import { logger } from '../logger'
+import { getSettings } from './settings'
+import * as obs from './obs'
+
+// Upload bandwidth control. One token bucket is shared by every upload stream,
+// so the cap holds for the whole pipeline no matter how many files are in flight.
+
+type RateMode = 'unlimited' | 'normal' | 'streaming' | 'break'
+
+const BURST_SEC = 1 // bucket holds at most 1s worth of bytes
+const THROUGHPUT_WINDOW_MS = 5000
+const SETTINGS_REFRESH_MS = 5000 // re-read the caps at most this often; setSettings refreshes at once
+
+let tokens = 0
+let lastRefill = Date.now()
+let lastRecordingSeenAt = Date.now()
+let lastMode: RateMode | null = null
+let uploadCfg: AppSettings['upload'] | null = null
+let uploadCfgAt = 0
+
+// Sliding window of bytes sent, for the live MB/s readout
+const samples: Array<{ at: number; bytes: number }> = []
+
+function mbpsToBytesPerSec(mbps: number): number {
+  return (mbps * 1000 * 1000) / 8
+}
+
+/** Re-read the rate caps from settings. Called when upload settings change. */
+export function refreshSettings(): AppSettings['upload'] {
+  uploadCfg = getSettings().upload
+  uploadCfgAt = Date.now()
+  return uploadCfg
+}
+
+/** Current cap in bytes/s (0 = unlimited) and why. */
+export function getCurrentRate(): { bytesPerSec: number; mode: RateMode } {
+  const now = Date.now()
+  // Runs for every chunk of every upload — getSettings reads the store and decrypts, so cache it
+  const cfg = uploadCfg && now - uploadCfgAt <= SETTINGS_REFRESH_MS ? uploadCfg : refreshSettings()
+  const obsState = obs.getState()
+  if (obsState.isRecording) lastRecordingSeenAt = now
+
+  let mode: RateMode
+  let mbps: number
+  if (obsState.isStreaming) {
+    // Streaming but nothing recorded for a while = break between sessions
+    const idleMs = now - lastRecordingSeenAt
+    const onBreak = cfg.relaxAfterIdleMinutes > 0 && idleMs >= cfg.relaxAfterIdleMinutes * 60000
+    mode = onBreak ? 'break' : 'streaming'
+    mbps = onBreak ? cfg.maxRateMbps : cfg.streamingRateMbps
+  } else {
+    mode = 'normal'
+    mbps = cfg.maxRateMbps
+  }
+  if (!mbps || mbps <= 0) mode = 'unlimited'
+
+  if (mode !== lastMode) {
+    logger.upload.info(`Upload rate cap: ${mode === 'unlimited' ? 'unlimited' : `${mbps} Mbps`} (${mode})`)
+    lastMode = mode
+  }
+  return { bytesPerSec: mode === 'unlimited' ? 0 : mbpsToBytesPerSec(mbps), mode }
+}
+
+/** Take `bytes` from the shared bucket, waiting as long as the cap requires. */
+async function acquire(bytes: number): Promise<void> {
+  const { bytesPerSec } = getCurrentRate()
+  const now = Date.now()
+  if (bytesPerSec === 0) {
+    tokens = 0
+    lastRefill = now
+    return
+  }
+  tokens = Math.min(tokens + ((now - lastRefill) / 1000) * bytesPerSec, bytesPerSec * BURST_SEC)
+  lastRefill = now
+  tokens -= bytes
+  if (tokens < 0) {
+    await new Promise(resolve => setTimeout(resolve, (-tokens / bytesPerSec) * 1000))
+  }
+}
+
+function recordBytes(bytes: number): void {
+  const now = Date.now()
+  samples.push({ at: now, bytes })
+  while (samples.length > 0 && now - samples[0].at > THROUGHPUT_WINDOW_MS) samples.shift()
+}
+
+/** Bytes/s actually sent over the last few seconds, across all uploads. */
+export function getThroughput(): number {
+  const now = Date.now()
+  while (samples.length > 0 && now - samples[0].at > THROUGHPUT_WINDOW_MS) samples.shift()
+  if (samples.length === 0) return 0
+  const total = samples.reduce((sum, s) => sum + s.bytes, 0)
+  return Math.round(total / (THROUGHPUT_WINDOW_MS / 1000))
+}
+
+/** Pass-through stream that paces chunks against the shared cap. Pipe file → throttle → request. */
+export function createThrottle(): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+      acquire(chunk.length).then(() => {
+        recordBytes(chunk.length)
+        callback(null, chunk)
+      }, callback)
+    },
+  })
+}
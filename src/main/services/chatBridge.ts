@@ -35,6 +35,10 @@ export function startChatBridge(): void {
     logger.app.info('Chat bridge: no resolved connection, skipping')
     return
   }
+  if (conn.tenant === 'local') {
+    logger.app.info('Chat bridge: local mirror connection, skipping')
+    return
+  }
 
   if (channel) {
     logger.app.info('Chat bridge: already running')
@@ -10,17 +10,25 @@ import {
   ClipSortTransition,
   ExecuteSortParams,
   VerificationResult,
+  PhotoClusterResult,
+  PhotoRescue,
+  RoutineCandidate,
   IPC_CHANNELS,
 } from '../../shared/types'
 import { sendToRenderer } from '../ipcUtil'
 import { logger } from '../logger'
+import * as state from './state'
+import * as embeddingIndex from './embeddingIndex'
 
 // --- Module state ---
 let clipPipeline: ((inputs: unknown, options?: Record<string, unknown>) => Promise<unknown>) | null = null
 let idleTimer: ReturnType<typeof setTimeout> | null = null
 let cancelled = false
-const embeddingCache = new Map<string, Float32Array>()
+// Hot copy of embeddingIndex hits by path, checked against the file on each use —
+// moved photos free photo_NNN names that the next move reuses
+const embeddingCache = new Map<string, embeddingIndex.FileIdentity & { embedding: Float32Array }>()
 const IDLE_TIMEOUT_MS = 5 * 60 * 1000
+const CLIP_MODEL = 'Xenova/clip-vit-base-patch32'
 
 // --- Model lifecycle ---
 
@@ -30,12 +38,12 @@ async function ensureModel(): Promise<void> {
     return
   }
 
-  logger.photos.info('Loading CLIP model (Xenova/clip-vit-base-patch32)...')
+  logger.photos.info(`Loading CLIP model (${CLIP_MODEL})...`)
   sendToRenderer(IPC_CHANNELS.CLIP_MODEL_PROGRESS, { status: 'Loading model...', progress: 0 })
 
   const { pipeline } = await import('@huggingface/transformers')
 
-  clipPipeline = (await pipeline('image-feature-extraction', 'Xenova/clip-vit-base-patch32', {
+  clipPipeline = (await pipeline('image-feature-extraction', CLIP_MODEL, {
     progress_callback: (progress: { status: string; progress?: number }) => {
       sendToRenderer(IPC_CHANNELS.CLIP_MODEL_PROGRESS, {
         status: progress.status,
@@ -56,14 +64,25 @@ function resetIdleTimer(): void {
     clipPipeline = null
     embeddingCache.clear()
     idleTimer = null
+    embeddingIndex.prune()
+      .catch((err) => logger.photos.warn('Embedding index prune failed:', err))
+      .finally(() => embeddingIndex.unload())
   }, IDLE_TIMEOUT_MS)
 }
 
 // --- Embedding ---
 
 async function getEmbedding(imagePath: string): Promise<Float32Array> {
+  const stat = await fs.promises.stat(imagePath)
   const cached = embeddingCache.get(imagePath)
-  if (cached) return cached
+  if (cached && embeddingIndex.sameFile(cached, stat)) return cached.embedding
+
+  const stored = await embeddingIndex.lookup(imagePath, CLIP_MODEL)
+  if (stored) {
+    embeddingCache.set(imagePath, { ...embeddingIndex.fileIdentity(stat), embedding: stored })
+    resetIdleTimer()
+    return stored
+  }
 
   await ensureModel()
 
@@ -89,7 +108,8 @@ async function getEmbedding(imagePath: string): Promise<Float32Array> {
     normalized[i] = embedding[i] / norm
   }
 
-  embeddingCache.set(imagePath, normalized)
+  embeddingCache.set(imagePath, { ...embeddingIndex.fileIdentity(stat), embedding: normalized })
+  await embeddingIndex.store(imagePath, CLIP_MODEL, normalized)
   return normalized
 
   // Suppress unused variable warning — we needed `data` and `info` for the sharp call
@@ -134,6 +154,11 @@ async function groupFingerprint(photoPaths: string[]): Promise<Float32Array> {
   if (photoPaths.length === 0) throw new Error('No photos for fingerprint')
 
   const embeddings = await Promise.all(photoPaths.map((p) => getEmbedding(p)))
+  return meanEmbedding(embeddings)
+}
+
+/** Normalized mean of normalized embeddings. */
+function meanEmbedding(embeddings: Float32Array[]): Float32Array {
   const dim = embeddings[0].length
   const mean = new Float32Array(dim)
 
@@ -151,6 +176,78 @@ async function groupFingerprint(photoPaths: string[]): Promise<Float32Array> {
   return mean
 }
 
+// --- Clustering ---
+
+const CLUSTER_SIM = 0.85 // same costumes + same group size land above this
+const CANDIDATE_MIN_SIM = 0.7
+const MAX_CANDIDATES = 3
+const SIM_WEIGHT = 0.6 // score = sim * weight + cluster share * (1 - weight)
+
+const CLUSTER_BATCH = 100 // photos compared between yields to the event loop
+
+function normalizedCopy(sum: Float32Array): Float32Array {
+  const norm = Math.sqrt(sum.reduce((s, v) => s + v * v, 0))
+  return sum.map((v) => v / norm)
+}
+
+/**
+ * Leader clustering: each embedding joins the closest cluster above CLUSTER_SIM
+ * or starts its own, then one pass re-assigns everything to the final
+ * centroids so early joiners aren't stuck with a half-formed cluster.
+ * Centroids come from running sums; the loops yield every CLUSTER_BATCH photos
+ * so a full day doesn't stall the main process. Returns a label per embedding.
+ */
+async function clusterEmbeddings(embeddings: Float32Array[]): Promise<number[]> {
+  const sums: Float32Array[] = []
+  const centroids: Float32Array[] = []
+  const labels: number[] = []
+  const total = embeddings.length * 2
+
+  for (let i = 0; i < embeddings.length; i++) {
+    if (i % CLUSTER_BATCH === 0) {
+      if (cancelled) throw new Error('Cancelled')
+      sendToRenderer(IPC_CHANNELS.CLIP_PROGRESS, { phase: 'Clustering', current: i, total })
+      await new Promise<void>((resolve) => setImmediate(resolve))
+    }
+    const emb = embeddings[i]
+    let best = -1
+    let bestSim = CLUSTER_SIM
+    for (let c = 0; c < centroids.length; c++) {
+      const sim = cosineSim(emb, centroids[c])
+      if (sim >= bestSim) {
+        bestSim = sim
+        best = c
+      }
+    }
+    if (best === -1) {
+      best = centroids.length
+      sums.push(new Float32Array(emb.length))
+      centroids.push(emb)
+    }
+    const sum = sums[best]
+    for (let d = 0; d < sum.length; d++) sum[d] += emb[d]
+    centroids[best] = normalizedCopy(sum)
+    labels.push(best)
+  }
+
+  for (let i = 0; i < embeddings.length; i++) {
+    if (i % CLUSTER_BATCH === 0) {
+      if (cancelled) throw new Error('Cancelled')
+      sendToRenderer(IPC_CHANNELS.CLIP_PROGRESS, { phase: 'Clustering', current: embeddings.length + i, total })
+      await new Promise<void>((resolve) => setImmediate(resolve))
+    }
+    let bestSim = cosineSim(embeddings[i], centroids[labels[i]])
+    for (let c = 0; c < centroids.length; c++) {
+      const sim = cosineSim(embeddings[i], centroids[c])
+      if (sim > bestSim) {
+        bestSim = sim
+        labels[i] = c
+      }
+    }
+  }
+  return labels
+}
+
 // --- EXIF timestamp (reused from photos.ts pattern) ---
 
 async function getPhotoCaptureTime(filePath: string): Promise<Date | null> {
@@ -182,7 +279,6 @@ export async function verifyImport(
   options?: { skipExact?: boolean },
 ): Promise<VerificationResult> {
   cancelled = false
-  await ensureModel()
 
   const result: VerificationResult = {
     verified: 0,
@@ -329,6 +425,7 @@ export async function verifyImport(
     }
   }
 
+  embeddingIndex.flushSync()
   logger.photos.info(
     `CLIP verification: ${result.verified} verified, ${result.reassigned} reassigned, ${result.rescued} rescued, ${result.stillUnmatched} still unmatched`,
   )
@@ -336,12 +433,109 @@ export async function verifyImport(
   return result
 }
 
+/**
+ * Cluster every photo of the competition by embedding and rank candidate
+ * routines for each unmatched, gap or ambiguous photo. Routine fingerprints
+ * come from all exact and operator-placed photos; a candidate scores on its
+ * fingerprint similarity and on how much of the photo's cluster it already
+ * holds. The top candidate is stored as the photo's clipSuggestion.
+ */
+export async function clusterPhotos(): Promise<PhotoClusterResult> {
+  const comp = state.getCompetition()
+  if (!comp) throw new Error('No competition loaded')
+  cancelled = false
+
+  const all: { photo: PhotoMatch; routineId?: string }[] = []
+  for (const routine of comp.routines) {
+    for (const photo of routine.photos ?? []) all.push({ photo, routineId: routine.id })
+  }
+  for (const photo of comp.unmatchedPhotos ?? []) all.push({ photo })
+
+  // Embeddings — ones in the embedding index from earlier runs cost nothing
+  const embedded: { photo: PhotoMatch; routineId?: string; embedding: Float32Array }[] = []
+  let failed = 0
+  for (let i = 0; i < all.length; i++) {
+    if (cancelled) throw new Error('Cancelled')
+    if (i % 10 === 0) {
+      sendToRenderer(IPC_CHANNELS.CLIP_PROGRESS, { phase: 'Embedding photos', current: i, total: all.length })
+    }
+    try {
+      embedded.push({ ...all[i], embedding: await getEmbedding(all[i].photo.filePath) })
+    } catch {
+      failed++
+    }
+  }
+
+  const labels = await clusterEmbeddings(embedded.map((e) => e.embedding))
+
+  // Anchors: photos whose routine we trust
+  const anchorEmbeddings = new Map<string, Float32Array[]>()
+  const clusterVotes = new Map<number, Map<string, number>>()
+  const clusterAnchors = new Map<number, number>()
+  embedded.forEach((e, i) => {
+    if (!e.routineId || (e.photo.confidence !== 'exact' && e.photo.confidence !== 'manual')) return
+    anchorEmbeddings.set(e.routineId, [...(anchorEmbeddings.get(e.routineId) ?? []), e.embedding])
+    const votes = clusterVotes.get(labels[i]) ?? new Map<string, number>()
+    votes.set(e.routineId, (votes.get(e.routineId) ?? 0) + 1)
+    clusterVotes.set(labels[i], votes)
+    clusterAnchors.set(labels[i], (clusterAnchors.get(labels[i]) ?? 0) + 1)
+  })
+  const fingerprints = new Map<string, Float32Array>()
+  for (const [routineId, embeddings] of anchorEmbeddings) fingerprints.set(routineId, meanEmbedding(embeddings))
+
+  const rescues: PhotoRescue[] = []
+  embedded.forEach((e, i) => {
+    if (e.photo.confidence !== 'unmatched' && e.photo.confidence !== 'gap' && e.photo.confidence !== 'ambiguous') return
+    const votes = clusterVotes.get(labels[i])
+    const anchors = clusterAnchors.get(labels[i]) ?? 0
+
+    const candidates: RoutineCandidate[] = []
+    for (const [routineId, fp] of fingerprints) {
+      const similarity = cosineSim(e.embedding, fp)
+      const clusterShare = anchors > 0 ? (votes?.get(routineId) ?? 0) / anchors : 0
+      if (similarity < CANDIDATE_MIN_SIM && clusterShare === 0) continue
+      candidates.push({
+        routineId,
+        score: similarity * SIM_WEIGHT + clusterShare * (1 - SIM_WEIGHT),
+        similarity,
+        clusterShare,
+      })
+    }
+    if (candidates.length === 0) return
+    candidates.sort((a, b) => b.score - a.score)
+    candidates.length = Math.min(candidates.length, MAX_CANDIDATES)
+
+    const top = candidates[0]
+    e.photo.clipSuggestion =
+      top.routineId !== e.routineId ? { routineId: top.routineId, similarity: top.similarity } : undefined
+    rescues.push({
+      filePath: e.photo.filePath,
+      currentRoutineId: e.routineId,
+      confidence: e.photo.confidence,
+      candidates,
+    })
+  })
+  state.saveState()
+
+  const result: PhotoClusterResult = {
+    embedded: embedded.length,
+    failed,
+    clusters: new Set(labels).size,
+    rescues,
+  }
+  embeddingIndex.flushSync()
+  logger.photos.info(
+    `CLIP clustering: ${result.embedded} photos in ${result.clusters} clusters, ${rescues.length} with candidates` +
+      (failed ? `, ${failed} unreadable` : ''),
+  )
+  return result
+}
+
 export async function analyzeFolder(
   folderPath: string,
   params: ClipSortParams,
 ): Promise<ClipSortResult> {
   cancelled = false
-  await ensureModel()
 
   const { sampleRate = 5, threshold = 0.8, expectedGroups } = params
 
@@ -517,6 +711,7 @@ export async function analyzeFolder(
     embeddingsComputed,
   }
 
+  embeddingIndex.flushSync()
   logger.photos.info(
     `CLIP analysis: ${transitions.length} transitions, ${groups.length} groups, ${totalPhotos} photos, ${embeddingsComputed} embeddings`,
   )
@@ -0,0 +1,161 @@
+import path from 'path'
+import { BrowserWindow, dialog, nativeImage } from 'electron'
+import jsQR from 'jsqr'
+import { CameraClockSync, ClockSyncFilesResult, CLOCK_SYNC_QR_PREFIX, IPC_CHANNELS } from '../../shared/types'
+import { sendToRenderer } from '../ipcUtil'
+import { logger } from '../logger'
+import * as state from './state'
+import { CameraIdentity, fallbackCamera, readPhotoExif } from './photos'
+
+// "Sync camera": the wizard shows a QR code carrying the app clock, the
+// photographer shoots it, and reading the code back out of the photo gives
+// that body's exact offset. Measured offsets replace the statistical guess in
+// tether matching and importPhotos, and are stored on the competition.
+
+const DECODE_MAX_WIDTH = 1600 // plenty for a screen-filling code, and keeps jsQR fast
+const DISPLAY_LAG_MS = 50 // the code on screen is on average half a 100 ms refresh old
+
+let listening = false
+
+/** While the wizard is open, tethered photos are checked for a sync code. */
+export function setListening(on: boolean): void {
+  listening = on
+  logger.photos.info(`Clock sync: ${on ? 'listening for sync photos' : 'stopped'}`)
+}
+
+export function isListening(): boolean {
+  return listening
+}
+
+export function getSyncs(): CameraClockSync[] {
+  return state.getCompetition()?.clockSyncs ?? []
+}
+
+export function getSync(cameraId: string): CameraClockSync | undefined {
+  return getSyncs().find((s) => s.cameraId === cameraId)
+}
+
+/** App-clock epoch ms from the photo's sync code, or null when it has none. */
+function decodeClockCode(filePath: string): number | null {
+  const image = nativeImage.createFromPath(filePath)
+  if (image.isEmpty()) return null
+  const scaled = image.getSize().width > DECODE_MAX_WIDTH
+    ? image.resize({ width: DECODE_MAX_WIDTH, quality: 'good' })
+    : image
+  const { width, height } = scaled.getSize()
+
+  // toBitmap() is BGRA, jsQR wants RGBA
+  const pixels = scaled.toBitmap()
+  for (let i = 0; i < pixels.length; i += 4) {
+    const b = pixels[i]
+    pixels[i] = pixels[i + 2]
+    pixels[i + 2] = b
+  }
+  const code = jsQR(new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.length), width, height)
+  if (!code?.data.startsWith(CLOCK_SYNC_QR_PREFIX)) return null
+  const shownAt = Number(code.data.slice(CLOCK_SYNC_QR_PREFIX.length))
+  return Number.isFinite(shownAt) ? shownAt : null
+}
+
+/**
+ * Read a sync code from a photo and store the camera's offset. Returns null when
+ * the photo holds no code. `fallback` names the camera when EXIF doesn't.
+ */
+export async function syncFromPhoto(filePath: string, fallback?: CameraIdentity): Promise<CameraClockSync | null> {
+  const shownAt = decodeClockCode(filePath)
+  if (shownAt === null) return null
+
+  const comp = state.getCompetition()
+  if (!comp) throw new Error('No competition loaded')
+  const exif = await readPhotoExif(filePath)
+  if (!exif?.captureTime) throw new Error('sync code found but the photo has no EXIF capture time')
+
+  // Without sub-seconds EXIF truncates to the second — assume mid-second
+  const takenAt = exif.captureTime.getTime() + (exif.subSecond ? 0 : 500)
+  const camera = exif.camera ?? fallback ?? fallbackCamera()
+  const sync: CameraClockSync = {
+    cameraId: camera.id,
+    label: camera.label,
+    photographer: camera.photographer,
+    offsetMs: Math.round(takenAt - (shownAt + DISPLAY_LAG_MS)),
+    syncedAt: new Date().toISOString(),
+    subSecond: exif.subSecond,
+  }
+  comp.clockSyncs = [...(comp.clockSyncs ?? []).filter((s) => s.cameraId !== sync.cameraId), sync]
+  state.saveState()
+
+  logger.photos.info(
+    `Clock sync: ${camera.label} (${camera.photographer}) offset ${sync.offsetMs}ms from ${path.basename(filePath)}` +
+      (exif.subSecond ? '' : ' — no sub-second EXIF, ±0.5s'),
+  )
+  sendToRenderer(IPC_CHANNELS.CLOCK_SYNC_RESULT, sync)
+  return sync
+}
+
+/** Pick photos of the sync code (e.g. from an SD card) and sync each camera in them. */
+export async function syncFromFiles(): Promise<ClockSyncFilesResult | null> {
+  const win = BrowserWindow.getAllWindows()[0]
+  if (!win) return null
+
+  const result = await dialog.showOpenDialog(win, {
+    title: 'Select photos of the clock-sync code',
+    filters: [{ name: 'JPEG', extensions: ['jpg', 'jpeg'] }],
+    properties: ['openFile', 'multiSelections'],
+  })
+  if (result.canceled || result.filePaths.length === 0) return null
+
+  const synced: CameraClockSync[] = []
+  const failed: string[] = []
+  for (const filePath of result.filePaths) {
+    try {
+      const sync = await syncFromPhoto(filePath)
+      if (sync) synced.push(sync)
+      else failed.push(`${path.basename(filePath)}: no sync code found`)
+    } catch (err) {
+      failed.push(`${path.basename(filePath)}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  return { synced, failed }
+}
+
+/**
+ * Store an offset the operator set by hand on the photo timeline, so tethered
+ * shots from that body match at it too. `offsetMs` is camera minus app, like a
+ * QR sync; the timeline works in app minus camera, so callers negate it.
+ */
+export function setManualOffset(cameraId: string, offsetMs: number): CameraClockSync {
+  const comp = state.getCompetition()
+  if (!comp) throw new Error('No competition loaded')
+
+  // Keep the names a QR sync or a tethered photo already gave this body
+  const existing = getSync(cameraId)
+  const photo = [...comp.routines.flatMap((r) => r.photos ?? []), ...(comp.unmatchedPhotos ?? [])]
+    .find((p) => p.cameraId === cameraId && p.photographer)
+  const [name, serial] = cameraId.split('#')
+  const label = existing?.label ?? (serial ? `${name} …${serial.slice(-4)}` : cameraId)
+  const sync: CameraClockSync = {
+    cameraId,
+    label,
+    photographer: existing?.photographer ?? photo?.photographer ?? label,
+    offsetMs: Math.round(offsetMs),
+    syncedAt: new Date().toISOString(),
+    subSecond: true,
+    source: 'timeline',
+  }
+  comp.clockSyncs = [...(comp.clockSyncs ?? []).filter((s) => s.cameraId !== cameraId), sync]
+  state.saveState()
+
+  logger.photos.info(`Clock sync: ${label} (${sync.photographer}) offset ${sync.offsetMs}ms set on the timeline`)
+  sendToRenderer(IPC_CHANNELS.CLOCK_SYNC_RESULT, sync)
+  return sync
+}
+
+export function clearSync(cameraId: string): CameraClockSync[] {
+  const comp = state.getCompetition()
+  if (!comp) throw new Error('No competition loaded')
+  const remaining = (comp.clockSyncs ?? []).filter((s) => s.cameraId !== cameraId)
+  comp.clockSyncs = remaining.length > 0 ? remaining : undefined
+  state.saveState()
+  logger.photos.info(`Clock sync: cleared ${cameraId}`)
+  return getSyncs()
+}
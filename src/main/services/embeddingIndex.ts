@@ -0,0 +1,361 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { app } from 'electron'
+import { logger } from '../logger'
+
+// On-disk CLIP embedding store, so re-running an analysis after a restart (or
+// after the model idled out) doesn't recompute thousands of embeddings.
+// Vectors are keyed by a content hash, so photos moved into routine folders
+// still hit; a path → (inode, size, mtime, hash) table skips re-hashing unchanged
+// files and notices a different file that took over a path.
+//
+// The file is an append-only log of JSON lines: new entries are appended in the
+// background while an analysis runs, and the log is only rewritten (compacted)
+// when idle, after eviction or after a prune.
+
+const INDEX_VERSION = 2
+const MAX_VECTORS = 25_000 // ~2.7 KB each on disk — about five full competition days
+const EVICT_TO = Math.floor(MAX_VECTORS * 0.9) // evict in batches, not on every insert
+const HASH_CHUNK = 64 * 1024 // head + tail of the file: EXIF and scan data differ per shot
+const APPEND_DEBOUNCE_MS = 1000
+const COMPACT_BATCH = 500 // records per write while compacting
+const PRUNE_GRACE_MS = 7 * 24 * 60 * 60 * 1000 // unreferenced vectors used this recently survive a prune
+
+/** What tells two files at one path apart without reading them (photo_NNN names get reused). */
+export interface FileIdentity {
+  ino: number
+  size: number
+  mtimeMs: number
+}
+
+interface PathEntry extends FileIdentity {
+  hash: string
+}
+
+interface VectorEntry {
+  vector: Float32Array
+  usedAt: number
+}
+
+interface LogHeader {
+  version: number
+  model: string
+}
+
+// One line of the log; later lines win
+type LogRecord =
+  | ({ p: string } & PathEntry)
+  | { rm: string }
+  | { v: string; d: string; u: number } // d = base64 Float32 bytes
+
+// --- State ---
+
+let model = ''
+let loading: Promise<void> | null = null
+let indexFilePath = ''
+let pendingLines: string[] = []
+let appendTimer: NodeJS.Timeout | null = null
+let writeChain: Promise<void> = Promise.resolve() // appends and compactions, in order
+let fileRecords = 0 // records in the log, superseded ones included
+let usageChanged = false
+const paths = new Map<string, PathEntry>()
+const vectors = new Map<string, VectorEntry>()
+
+// --- Persistence ---
+
+function getIndexPath(): string {
+  if (!indexFilePath) {
+    indexFilePath = path.join(app.getPath('userData'), 'clip-embeddings.jsonl')
+  }
+  return indexFilePath
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64')
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const buf = Buffer.from(encoded, 'base64')
+  return new Float32Array(buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength))
+}
+
+function applyRecord(rec: LogRecord): void {
+  if ('v' in rec) {
+    vectors.set(rec.v, { vector: decodeVector(rec.d), usedAt: rec.u })
+  } else if ('rm' in rec) {
+    paths.delete(rec.rm)
+  } else {
+    paths.set(rec.p, { ino: rec.ino, size: rec.size, mtimeMs: rec.mtimeMs, hash: rec.hash })
+  }
+}
+
+async function readLog(forModel: string): Promise<void> {
+  await writeChain // a compaction from the last unload may still be writing
+  let lines: string[]
+  try {
+    lines = (await fs.promises.readFile(getIndexPath(), 'utf-8')).split('\n')
+  } catch {
+    void compact() // no index yet: start the log with its header
+    return
+  }
+
+  let header: LogHeader | null = null
+  try {
+    header = JSON.parse(lines[0]) as LogHeader
+  } catch {
+    // unreadable header — rebuilt below
+  }
+  if (header?.version !== INDEX_VERSION || header.model !== forModel) {
+    logger.photos.info(`Embedding index: built for ${header?.model ?? 'unknown'} v${header?.version ?? '?'}, starting fresh`)
+    void compact()
+    return
+  }
+
+  let torn = 0
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i]) continue
+    try {
+      applyRecord(JSON.parse(lines[i]) as LogRecord)
+      fileRecords++
+    } catch {
+      torn++ // a line cut short by a crash mid-append
+    }
+  }
+  logger.photos.info(
+    `Embedding index: loaded ${vectors.size} embeddings for ${paths.size} files` + (torn ? `, ${torn} torn lines skipped` : ''),
+  )
+  if (torn > 0) void compact()
+}
+
+/** Load the index for `forModel` on first use; an index built by another model is discarded. */
+function ensureLoaded(forModel: string): Promise<void> {
+  if (loading && model === forModel) return loading
+  if (loading) unload()
+  model = forModel
+  loading = readLog(forModel).catch((err) => {
+    logger.photos.error('Embedding index: failed to load from disk, starting fresh', err)
+    paths.clear()
+    vectors.clear()
+  })
+  return loading
+}
+
+function append(rec: LogRecord): void {
+  pendingLines.push(JSON.stringify(rec))
+  fileRecords++
+  if (appendTimer) return
+  appendTimer = setTimeout(() => {
+    appendTimer = null
+    writePending()
+  }, APPEND_DEBOUNCE_MS)
+}
+
+function writePending(): void {
+  if (pendingLines.length === 0) return
+  const data = pendingLines.join('\n') + '\n'
+  pendingLines = []
+  const filePath = getIndexPath()
+  writeChain = writeChain
+    .then(() => fs.promises.appendFile(filePath, data, 'utf-8'))
+    .catch((err) => logger.photos.error('Embedding index: failed to append to disk', err))
+}
+
+/** Rewrite the log as one record per live entry. Snapshots now, writes in the background. */
+function compact(): Promise<void> {
+  if (appendTimer) {
+    clearTimeout(appendTimer)
+    appendTimer = null
+  }
+  pendingLines = [] // already in the snapshot
+  const header: LogHeader = { version: INDEX_VERSION, model }
+  const pathSnapshot = [...paths.entries()]
+  const vectorSnapshot = [...vectors.entries()].map(([hash, e]) => [hash, e.vector, e.usedAt] as const)
+  fileRecords = pathSnapshot.length + vectorSnapshot.length
+  usageChanged = false
+
+  const filePath = getIndexPath()
+  const tmpPath = filePath + '.tmp'
+  writeChain = writeChain
+    .then(async () => {
+      const fh = await fs.promises.open(tmpPath, 'w')
+      try {
+        await fh.write(JSON.stringify(header) + '\n')
+        let batch: string[] = []
+        const flush = async (): Promise<void> => {
+          if (batch.length === 0) return
+          await fh.write(batch.join('\n') + '\n')
+          batch = []
+        }
+        for (const [p, entry] of pathSnapshot) {
+          batch.push(JSON.stringify({ p, ...entry }))
+          if (batch.length >= COMPACT_BATCH) await flush()
+        }
+        for (const [v, vector, u] of vectorSnapshot) {
+          batch.push(JSON.stringify({ v, d: encodeVector(vector), u }))
+          if (batch.length >= COMPACT_BATCH) await flush()
+        }
+        await flush()
+      } finally {
+        await fh.close()
+      }
+      await fs.promises.rename(tmpPath, filePath)
+    })
+    .catch((err) => logger.photos.error('Embedding index: failed to compact', err))
+  return writeChain
+}
+
+/** Write pending appends now (shutdown). */
+export function flushSync(): void {
+  if (appendTimer) {
+    clearTimeout(appendTimer)
+    appendTimer = null
+  }
+  if (pendingLines.length === 0) return
+  try {
+    fs.appendFileSync(getIndexPath(), pendingLines.join('\n') + '\n', 'utf-8')
+    pendingLines = []
+  } catch (err) {
+    logger.photos.error('Embedding index: failed to save to disk', err)
+  }
+}
+
+/** Drop the in-memory copy, compacting first if the log has grown or usage changed; the next lookup reloads it. */
+export function unload(): void {
+  if (!loading) return
+  if (usageChanged || fileRecords > (paths.size + vectors.size) * 1.5) void compact()
+  else writePending()
+  paths.clear()
+  vectors.clear()
+  fileRecords = 0
+  loading = null
+}
+
+// --- Keys ---
+
+export function fileIdentity(stat: fs.Stats): FileIdentity {
+  return { ino: stat.ino, size: stat.size, mtimeMs: stat.mtimeMs }
+}
+
+export function sameFile(known: FileIdentity, stat: fs.Stats): boolean {
+  return known.ino === stat.ino && known.size === stat.size && known.mtimeMs === stat.mtimeMs
+}
+
+/** Hash of size + first and last HASH_CHUNK bytes — reading whole 20 MB RAWs would cost more than embedding. */
+async function contentHash(filePath: string, size: number): Promise<string> {
+  const hash = crypto.createHash('sha256')
+  hash.update(String(size))
+  const fh = await fs.promises.open(filePath, 'r')
+  try {
+    const head = Buffer.alloc(Math.min(HASH_CHUNK, size))
+    await fh.read(head, 0, head.length, 0)
+    hash.update(head)
+    if (size > HASH_CHUNK) {
+      const tail = Buffer.alloc(Math.min(HASH_CHUNK, size - HASH_CHUNK))
+      await fh.read(tail, 0, tail.length, size - tail.length)
+      hash.update(tail)
+    }
+  } finally {
+    await fh.close()
+  }
+  return hash.digest('hex')
+}
+
+/** Content hash for the file, re-hashing only when it isn't the same file as last time. Null if unreadable. */
+async function keyFor(filePath: string): Promise<string | null> {
+  let stat: fs.Stats
+  try {
+    stat = await fs.promises.stat(filePath)
+  } catch {
+    return null
+  }
+  const known = paths.get(filePath)
+  if (known && sameFile(known, stat)) return known.hash
+
+  const entry: PathEntry = { ...fileIdentity(stat), hash: await contentHash(filePath, stat.size) }
+  paths.set(filePath, entry)
+  append({ p: filePath, ...entry })
+  return entry.hash
+}
+
+// --- Public API ---
+
+/** Stored embedding for the file's current contents, or null. */
+export async function lookup(filePath: string, forModel: string): Promise<Float32Array | null> {
+  await ensureLoaded(forModel)
+  const hash = await keyFor(filePath)
+  const entry = hash ? vectors.get(hash) : undefined
+  if (!entry) return null
+  entry.usedAt = Date.now()
+  usageChanged = true
+  return entry.vector
+}
+
+export async function store(filePath: string, forModel: string, vector: Float32Array): Promise<void> {
+  await ensureLoaded(forModel)
+  const hash = await keyFor(filePath)
+  if (!hash) return
+  const usedAt = Date.now()
+  vectors.set(hash, { vector, usedAt })
+  append({ v: hash, d: encodeVector(vector), u: usedAt })
+  if (vectors.size > MAX_VECTORS) evict()
+}
+
+/** The app moved a photo (timeline fix, accepted suggestion): its entry follows it, so prune keeps the vector. */
+export function renamePath(from: string, to: string): void {
+  if (!loading) return // not loaded: the moved file is re-hashed on next use and still hits by content
+  const entry = paths.get(from)
+  paths.delete(from)
+  paths.delete(to)
+  append({ rm: from })
+  if (entry) {
+    paths.set(to, entry)
+    append({ p: to, ...entry })
+  } else {
+    append({ rm: to })
+  }
+}
+
+/** Size cap: drop the least recently used embeddings and the paths that pointed at them. */
+function evict(): void {
+  const byAge = [...vectors.entries()].sort((a, b) => a[1].usedAt - b[1].usedAt)
+  const drop = byAge.slice(0, vectors.size - EVICT_TO)
+  for (const [hash] of drop) vectors.delete(hash)
+  for (const [p, entry] of paths) {
+    if (!vectors.has(entry.hash)) paths.delete(p)
+  }
+  logger.photos.info(`Embedding index: evicted ${drop.length} least recently used embeddings`)
+  void compact()
+}
+
+/**
+ * Forget files that no longer exist, then embeddings no remaining file points
+ * at — unless used within PRUNE_GRACE_MS, which covers files moved outside the
+ * app and cards that just aren't inserted right now.
+ */
+export async function prune(): Promise<{ removed: number }> {
+  if (!loading) return { removed: 0 }
+  await loading
+  let missing = 0
+  let checked = 0
+  for (const p of [...paths.keys()]) {
+    try {
+      await fs.promises.access(p)
+    } catch {
+      paths.delete(p)
+      missing++
+    }
+    if (++checked % 200 === 0) await new Promise<void>((resolve) => setImmediate(resolve))
+  }
+  const referenced = new Set([...paths.values()].map((e) => e.hash))
+  const cutoff = Date.now() - PRUNE_GRACE_MS
+  let removed = 0
+  for (const [hash, entry] of [...vectors.entries()]) {
+    if (referenced.has(hash) || entry.usedAt > cutoff) continue
+    vectors.delete(hash)
+    removed++
+  }
+  if (removed > 0) logger.photos.info(`Embedding index: pruned ${removed} embeddings of deleted files`)
+  if (missing > 0 || removed > 0) void compact()
+  return { removed }
+}
@@ -2,7 +2,10 @@ import { spawn, ChildProcess, SpawnOptions } from 'child_process'
 import path from 'path'
 import fs from 'fs'
 import { app } from 'electron'
-import { FFmpegJob, FFmpegProgress, IPC_CHANNELS, EncodedFile } from '../../shared/types'
+import {
+  FFmpegJob, FFmpegProgress, IPC_CHANNELS, EncodedFile, CameraAngle, MultiAngleOutputs, PipPosition, Routine,
+  RoutineTrim, TrackLoudness, TrimSuggestion, WaveformData, AudioTrackLevel,
+} from '../../shared/types'
 import { sendToRenderer } from '../ipcUtil'
 import { logger } from '../logger'
 import { getSettings } from './settings'
@@ -10,6 +13,7 @@ import * as state from './state'
 import * as uploadService from './upload'
 import * as jobQueue from './jobQueue'
 import { broadcastFullState, broadcastRoutineUpdate } from './recording'
+import { markerTitle } from './markers'
 
 let ffmpegProcess: ChildProcess | null = null
 let isProcessing = false
@@ -20,6 +24,12 @@ const DEFAULT_TIMEOUT_MS = 600000 // 10 minutes
 
 function perfFileName(prefix: string): string { return prefix ? `${prefix}_P_performance.mp4` : 'P_performance.mp4' }
 function judgeFileName(prefix: string, i: number): string { return prefix ? `${prefix}_J${i}_commentary.mp4` : `J${i}_commentary.mp4` }
+function multiAngleFileName(prefix: string, role: string): string {
+  const name = role === 'pip' ? 'PIP_performance'
+    : role === 'side-by-side' ? 'SBS_performance'
+    : `A${role.replace('angle', '')}_angle`
+  return prefix ? `${prefix}_${name}.mp4` : `${name}.mp4`
+}
 
 function getPidFilePath(): string {
   return path.join(app.getPath('userData'), PID_FILE)
@@ -183,6 +193,210 @@ function probeAudioTrackCount(ffmpegPath: string, inputPath: string): Promise<nu
   })
 }
 
+/** Audio stream count of a recording (0 when it can't be probed). */
+export function countAudioTracks(filePath: string): Promise<number> {
+  return probeAudioTrackCount(getFFmpegPath(), filePath)
+}
+
+/**
+ * Mean/max level and full-scale sample count of each of the first trackCount
+ * audio tracks, in one decode (a volumedetect per track, tagged by index in
+ * stderr). Null for a track that reported nothing.
+ */
+export function measureTrackLevels(filePath: string, trackCount: number): Promise<(AudioTrackLevel | null)[]> {
+  const graph: string[] = []
+  const outputs: string[] = []
+  for (let t = 0; t < trackCount; t++) {
+    graph.push(`[0:a:${t}]volumedetect[v${t}]`)
+    outputs.push('-map', `[v${t}]`, '-f', 'null', '-')
+  }
+
+  return new Promise((resolve) => {
+    const results: (AudioTrackLevel | null)[] = Array(trackCount).fill(null)
+    if (trackCount === 0) {
+      resolve(results)
+      return
+    }
+    const proc = spawn(getFFmpegPath(), [
+      '-hide_banner', '-nostats', '-i', filePath, '-filter_complex', graph.join(';'), ...outputs,
+    ], { stdio: ['ignore', 'ignore', 'pipe'], windowsHide: true })
+    let stderr = ''
+    proc.stderr?.on('data', (d: Buffer) => { stderr += d.toString() })
+    const timer = setTimeout(() => proc.kill(), 120000)
+
+    proc.on('close', () => {
+      clearTimeout(timer)
+      const level = (t: number): AudioTrackLevel => {
+        results[t] ??= { role: t === 0 ? 'performance' : `judge${t}`, meanDb: null, maxDb: null, clippedSamples: 0 }
+        return results[t]!
+      }
+      for (const m of stderr.matchAll(/\[Parsed_volumedetect_(\d+) @ [^\]]+\] (mean_volume|max_volume|histogram_0db): (-?[\d.]+|-inf)/g)) {
+        const t = parseInt(m[1], 10)
+        if (t >= trackCount) continue
+        const value = parseFloat(m[3])
+        if (m[2] === 'mean_volume') level(t).meanDb = Number.isFinite(value) ? value : null
+        else if (m[2] === 'max_volume') level(t).maxDb = Number.isFinite(value) ? value : null
+        else level(t).clippedSamples = value
+      }
+      resolve(results)
+    })
+    proc.on('error', () => {
+      clearTimeout(timer)
+      resolve(results)
+    })
+  })
+}
+
+const WAVEFORM_SAMPLE_RATE = 8000
+const WAVEFORM_PEAKS_PER_SEC = 20
+
+/**
+ * Peak levels of a recording's performance track (first audio stream) for the
+ * trim editor. Decodes to 8kHz mono PCM on stdout and keeps one peak per bucket.
+ */
+export function getWaveform(filePath: string): Promise<WaveformData> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(getFFmpegPath(), [
+      '-hide_banner', '-i', filePath,
+      '-map', '0:a:0', '-ac', '1', '-ar', String(WAVEFORM_SAMPLE_RATE), '-f', 's16le', '-',
+    ], { stdio: ['ignore', 'pipe', 'pipe'], windowsHide: true })
+
+    const bucketSize = WAVEFORM_SAMPLE_RATE / WAVEFORM_PEAKS_PER_SEC
+    const peaks: number[] = []
+    let bucketPeak = 0
+    let bucketCount = 0
+    let totalSamples = 0
+    let leftover: Buffer | null = null
+    let stderr = ''
+
+    proc.stdout?.on('data', (chunk: Buffer) => {
+      const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk
+      const usable = data.length - (data.length % 2)
+      leftover = usable < data.length ? data.subarray(usable) : null
+      for (let i = 0; i < usable; i += 2) {
+        const v = Math.abs(data.readInt16LE(i))
+        if (v > bucketPeak) bucketPeak = v
+        if (++bucketCount === bucketSize) {
+          peaks.push(bucketPeak / 32768)
+          bucketPeak = 0
+          bucketCount = 0
+        }
+      }
+      totalSamples += usable / 2
+    })
+    proc.stderr?.on('data', (d: Buffer) => { stderr = (stderr + d.toString()).slice(-2000) })
+
+    const timer = setTimeout(() => {
+      proc.kill()
+      reject(new Error('Waveform extraction timed out'))
+    }, 120000)
+
+    proc.on('close', (code) => {
+      clearTimeout(timer)
+      if (code !== 0 && totalSamples === 0) {
+        reject(new Error(`FFmpeg exited with code ${code}: ${stderr.trim().split('\n').pop() ?? ''}`))
+        return
+      }
+      if (bucketCount > 0) peaks.push(bucketPeak / 32768)
+      resolve({ durationSec: totalSamples / WAVEFORM_SAMPLE_RATE, peaksPerSec: WAVEFORM_PEAKS_PER_SEC, peaks })
+    })
+    proc.on('error', (err) => {
+      clearTimeout(timer)
+      reject(err)
+    })
+  })
+}
+
+const SILENCE_NOISE_DB = -35
+const SILENCE_MIN_SEC = 1.5
+const MAX_PAUSE_SEC = 6 // silences this short inside the music are choreographed pauses, not the end
+const TRIM_HEAD_PAD_SEC = 0.5
+const TRIM_TAIL_PAD_SEC = 1
+
+interface Span {
+  start: number
+  end: number
+}
+
+/**
+ * Suggest in/out points where the performance music starts and ends, from a
+ * silencedetect pass over the performance track. The music is the longest
+ * stretch of sound, merged with neighbours across short pauses. Confidence
+ * combines how clearly it is bounded by silence with how well its length fits
+ * the scheduled duration (expectedSec). Null when the track can't be analyzed.
+ */
+export function detectTrim(filePath: string, expectedSec?: number): Promise<TrimSuggestion | null> {
+  return new Promise((resolve) => {
+    const proc = spawn(getFFmpegPath(), [
+      '-hide_banner', '-nostats', '-i', filePath, '-vn', '-map', '0:a:0',
+      '-af', `silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${SILENCE_MIN_SEC}`, '-f', 'null', '-',
+    ], { stdio: ['ignore', 'ignore', 'pipe'], windowsHide: true })
+
+    let stderr = ''
+    proc.stderr?.on('data', (d: Buffer) => { stderr += d.toString() })
+    const timer = setTimeout(() => proc.kill(), 120000)
+
+    proc.on('close', (code) => {
+      clearTimeout(timer)
+      const duration = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(stderr)
+      if (code !== 0 || !duration) {
+        logger.ffmpeg.warn(`Silence analysis failed for ${path.basename(filePath)} (exit ${code})`)
+        resolve(null)
+        return
+      }
+      const durationSec = parseInt(duration[1], 10) * 3600 + parseInt(duration[2], 10) * 60 + parseFloat(duration[3])
+      const silences: Span[] = []
+      for (const m of stderr.matchAll(/silence_(start|end): (-?\d+(?:\.\d+)?)/g)) {
+        const t = Math.max(0, parseFloat(m[2]))
+        if (m[1] === 'start') silences.push({ start: t, end: durationSec })
+        else if (silences.length > 0) silences[silences.length - 1].end = t
+      }
+      resolve(trimFromSilences(silences, durationSec, expectedSec))
+    })
+    proc.on('error', () => {
+      clearTimeout(timer)
+      resolve(null)
+    })
+  })
+}
+
+function trimFromSilences(silences: Span[], durationSec: number, expectedSec?: number): TrimSuggestion | null {
+  // Sound = everything between the silences
+  const sounds: Span[] = []
+  let cursor = 0
+  for (const s of silences) {
+    if (s.start - cursor > 0.2) sounds.push({ start: cursor, end: s.start })
+    cursor = Math.max(cursor, s.end)
+  }
+  if (durationSec - cursor > 0.2) sounds.push({ start: cursor, end: durationSec })
+  if (sounds.length === 0) return null
+
+  let first = sounds.reduce((best, s, i) => (s.end - s.start > sounds[best].end - sounds[best].start ? i : best), 0)
+  let last = first
+  while (first > 0 && sounds[first].start - sounds[first - 1].end <= MAX_PAUSE_SEC) first--
+  while (last < sounds.length - 1 && sounds[last + 1].start - sounds[last].end <= MAX_PAUSE_SEC) last++
+  const music = { start: sounds[first].start, end: sounds[last].end }
+
+  // Edge clarity: a long silence before/after the music is a clean cut; music
+  // running into the file boundary means there was nothing to trim on that side
+  const gapBefore = first > 0 ? music.start - sounds[first - 1].end : music.start
+  const gapAfter = last < sounds.length - 1 ? sounds[last + 1].start - music.end : durationSec - music.end
+  const edge = (gap: number, atBoundary: boolean): number => (atBoundary && gap < 0.5 ? 0.7 : Math.min(1, gap / 3))
+  const edgeScore = (edge(gapBefore, first === 0) + edge(gapAfter, last === sounds.length - 1)) / 2
+
+  let lengthScore = 0.5
+  if (expectedSec && expectedSec > 0) {
+    const ratio = (music.end - music.start) / expectedSec
+    lengthScore = ratio >= 0.6 && ratio <= 1.15 ? 1
+      : ratio < 0.6 ? Math.max(0, (ratio - 0.3) / 0.3)
+      : Math.max(0, (1.6 - ratio) / 0.45)
+  }
+
+  const inSec = music.start - TRIM_HEAD_PAD_SEC > 0.5 ? Math.round((music.start - TRIM_HEAD_PAD_SEC) * 10) / 10 : 0
+  const outSec = music.end + TRIM_TAIL_PAD_SEC < durationSec - 0.5 ? Math.round((music.end + TRIM_TAIL_PAD_SEC) * 10) / 10 : undefined
+  return { inSec, outSec, confidence: Math.round((edgeScore * 0.5 + lengthScore * 0.5) * 100) / 100 }
+}
+
 function setPriority(pid: number): void {
   const settings = getSettings()
   if (process.platform !== 'win32' || settings.ffmpeg.cpuPriority === 'normal') return
@@ -250,7 +464,7 @@ async function processNext(): Promise<void> {
     })
 
     try {
-      await runFFmpeg(job)
+      const audio = await runFFmpeg(job)
       logger.ffmpeg.info(`Encoding complete for routine ${job.routineId}`)
 
       const encodedFiles: EncodedFile[] = []
@@ -269,11 +483,14 @@ async function processNext(): Promise<void> {
         }
       }
 
+      encodedFiles.push(...await encodeMultiAngle(job, audio))
+      if (getSettings().ffmpeg.embedMetadata) await tagOutputs(job, encodedFiles)
+
       if (encodedFiles.length === 0) {
         logger.ffmpeg.error(`No output files found after encoding routine ${job.routineId}`)
       }
 
-      state.updateRoutineStatus(job.routineId, 'encoded', { encodedFiles })
+      state.updateRoutineStatus(job.routineId, 'encoded', { encodedFiles, uploadRunId: undefined }) // new files, new upload run
       jobQueue.updateStatus(jobRecord.id, 'done')
       broadcastRoutineUpdate(job.routineId)
 
@@ -295,6 +512,7 @@ async function processNext(): Promise<void> {
         state: 'done',
         tracksCompleted: job.judgeCount + 1,
         tracksTotal: job.judgeCount + 1,
+        loudness: audio.loudness,
       })
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err)
@@ -326,7 +544,7 @@ async function processNext(): Promise<void> {
   }
 }
 
-async function runFFmpeg(job: FFmpegJob): Promise<void> {
+async function runFFmpeg(job: FFmpegJob): Promise<AudioPlan> {
   const ffmpegPath = getFFmpegPath()
 
   if (!fs.existsSync(job.outputDir)) {
@@ -361,30 +579,44 @@ async function runFFmpeg(job: FFmpegJob): Promise<void> {
     job.judgeCount = Math.max(0, audioTrackCount - 1)
   }
 
+  const audio = await planAudio(job, ffmpegPath)
+  sendProgress({
+    routineId: job.routineId,
+    state: 'encoding',
+    tracksCompleted: 0,
+    tracksTotal: job.judgeCount + 1,
+    loudness: audio.loudness,
+  })
+
   if (job.processingMode === 'smart') {
-    await runSmartEncode(job, ffmpegPath)
-    return
+    await runSmartEncode(job, ffmpegPath, audio)
+    return audio
   }
 
-  const args: string[] = ['-y', '-i', job.inputPath]
+  const args: string[] = ['-y', ...inputArgs(job)]
 
   if (job.processingMode === '720p') {
-    args.push(...buildReencodeArgs(job, '1280:720').slice(3))
+    args.push(...buildReencodeArgs(job, '1280:720', audio))
   } else if (job.processingMode === '1080p') {
-    args.push(...buildReencodeArgs(job, '1920:1080').slice(3))
+    args.push(...buildReencodeArgs(job, '1920:1080', audio))
   } else {
+    // Stream copy — unless the track is normalized/gained, which needs an audio re-encode
+    const copyArgs = (track: number): string[] => audio.filters[track]
+      ? ['-c:v', 'copy', ...audioCodecArgs(audio, track)]
+      : ['-c', 'copy']
     const perfOutput = path.join(job.outputDir, perfFileName(job.filePrefix))
-    args.push('-map', '0:v:0', '-map', '0:a:0', '-c', 'copy', perfOutput)
+    args.push('-map', '0:v:0', '-map', '0:a:0', ...copyArgs(0), perfOutput)
     for (let i = 1; i <= job.judgeCount; i++) {
       const judgeOutput = path.join(job.outputDir, judgeFileName(job.filePrefix, i))
-      args.push('-map', '0:v:0', '-map', `0:a:${i}`, '-c', 'copy', judgeOutput)
+      args.push('-map', '0:v:0', '-map', `0:a:${i}`, ...copyArgs(i), judgeOutput)
     }
   }
 
   await spawnFFmpegWithTimeout(ffmpegPath, args)
+  return audio
 }
 
-async function runSmartEncode(job: FFmpegJob, ffmpegPath: string): Promise<void> {
+async function runSmartEncode(job: FFmpegJob, ffmpegPath: string, audio: AudioPlan): Promise<void> {
   const settings = getSettings()
   const useNvenc = settings.ffmpeg.useHardwareEncoding ?? false
   const judgeRes = settings.ffmpeg.judgeResolution ?? 'same'
@@ -406,7 +638,7 @@ async function runSmartEncode(job: FFmpegJob, ffmpegPath: string): Promise<void>
     try {
       logger.ffmpeg.info(`Smart encode step 1: encoding video (${encoder})...`)
       await spawnFFmpegWithTimeout(ffmpegPath, [
-        '-y', '-i', job.inputPath,
+        '-y', ...inputArgs(job),
         '-map', '0:v:0',
         '-an',
         ...encoderArgs,
@@ -418,7 +650,7 @@ async function runSmartEncode(job: FFmpegJob, ffmpegPath: string): Promise<void>
         actualEncoder = 'libx264'
         actualEncoderArgs = ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23']
         await spawnFFmpegWithTimeout(ffmpegPath, [
-          '-y', '-i', job.inputPath,
+          '-y', ...inputArgs(job),
           '-map', '0:v:0',
           '-an',
           ...actualEncoderArgs,
@@ -434,7 +666,7 @@ async function runSmartEncode(job: FFmpegJob, ffmpegPath: string): Promise<void>
       const scale = judgeRes === '480p' ? '854:480' : '1280:720'
       logger.ffmpeg.info(`Smart encode step 1b: encoding judge video at ${judgeRes} (${actualEncoder})...`)
       await spawnFFmpegWithTimeout(ffmpegPath, [
-        '-y', '-i', job.inputPath,
+        '-y', ...inputArgs(job),
         '-map', '0:v:0',
         '-an',
         ...actualEncoderArgs,
@@ -448,9 +680,9 @@ async function runSmartEncode(job: FFmpegJob, ffmpegPath: string): Promise<void>
 
     const perfOutput = path.join(job.outputDir, perfFileName(job.filePrefix))
     await spawnFFmpegWithTimeout(ffmpegPath, [
-      '-y', '-i', tempVideo, '-i', job.inputPath,
+      '-y', '-i', tempVideo, ...inputArgs(job),
       '-map', '0:v:0', '-map', '1:a:0',
-      '-c:v', 'copy', '-c:a', 'aac', '-b:a', '128k',
+      '-c:v', 'copy', ...audioCodecArgs(audio, 0),
       perfOutput,
     ])
 
@@ -458,9 +690,9 @@ async function runSmartEncode(job: FFmpegJob, ffmpegPath: string): Promise<void>
     for (let i = 1; i <= job.judgeCount; i++) {
       const judgeOutput = path.join(job.outputDir, judgeFileName(job.filePrefix, i))
       await spawnFFmpegWithTimeout(ffmpegPath, [
-        '-y', '-i', judgeVideoSource, '-i', job.inputPath,
+        '-y', '-i', judgeVideoSource, ...inputArgs(job),
         '-map', '0:v:0', '-map', `1:a:${i}`,
-        '-c:v', 'copy', '-c:a', 'aac', '-b:a', '128k',
+        '-c:v', 'copy', ...audioCodecArgs(audio, i),
         judgeOutput,
       ])
     }
@@ -529,15 +761,16 @@ function spawnFFmpegWithTimeout(ffmpegPath: string, args: string[], timeoutMs =
   })
 }
 
-function buildReencodeArgs(job: FFmpegJob, scale: string): string[] {
-  const args: string[] = ['-y', '-i', job.inputPath]
+/** Output args for a scaled re-encode of every track (inputs are added by the caller). */
+function buildReencodeArgs(job: FFmpegJob, scale: string, audio: AudioPlan): string[] {
+  const args: string[] = []
 
   const perfOutput = path.join(job.outputDir, perfFileName(job.filePrefix))
   args.push(
     '-map', '0:v:0', '-map', '0:a:0',
     '-vf', `scale=${scale}`,
     '-c:v', 'libx264', '-preset', 'fast', '-crf', '23',
-    '-c:a', 'aac', '-b:a', '128k',
+    ...audioCodecArgs(audio, 0),
     perfOutput,
   )
 
@@ -547,7 +780,7 @@ function buildReencodeArgs(job: FFmpegJob, scale: string): string[] {
       '-map', '0:v:0', '-map', `0:a:${i}`,
       '-vf', `scale=${scale}`,
       '-c:v', 'libx264', '-preset', 'fast', '-crf', '23',
-      '-c:a', 'aac', '-b:a', '128k',
+      ...audioCodecArgs(audio, i),
       judgeOutput,
     )
   }
@@ -555,9 +788,394 @@ function buildReencodeArgs(job: FFmpegJob, scale: string): string[] {
   return args
 }
 
+// --- Loudness ---
+
+const LOUDNORM_TRUE_PEAK = -1.5
+const LOUDNORM_LRA = 11
+const SILENT_LUFS = -60 // quieter than this is a dead or muted mic — never boost it
+
+/** Per audio track (0 = performance, n = judge n): the -af chain, and what was measured. */
+interface AudioPlan {
+  filters: (string | undefined)[]
+  loudness: TrackLoudness[]
+}
+
+interface LoudnormMeasurement {
+  input_i: string
+  input_tp: string
+  input_lra: string
+  input_thresh: string
+  target_offset: string
+}
+
+function trackRole(track: number): string {
+  return track === 0 ? 'performance' : `judge${track}`
+}
+
+function audioCodecArgs(audio: AudioPlan, track: number): string[] {
+  const filter = audio.filters[track]
+  return [...(filter ? ['-af', filter] : []), '-c:a', 'aac', '-b:a', '128k']
+}
+
+function parseDb(value: string | undefined): number | null {
+  const n = parseFloat(value ?? '')
+  return Number.isFinite(n) ? Math.round(n * 10) / 10 : null
+}
+
+/**
+ * First loudnorm pass: measure every audio track of the (trimmed) recording in
+ * one decode. Each track gets its own loudnorm instance, so the JSON blocks in
+ * stderr come back tagged Parsed_loudnorm_<track>.
+ */
+function measureLoudness(job: FFmpegJob, ffmpegPath: string, trackCount: number): Promise<(LoudnormMeasurement | null)[]> {
+  const { loudness } = getSettings().ffmpeg
+  const graph: string[] = []
+  const outputs: string[] = []
+  for (let t = 0; t < trackCount; t++) {
+    const target = t === 0 ? loudness.performanceTargetLufs : loudness.judgeTargetLufs
+    graph.push(`[0:a:${t}]loudnorm=I=${target}:TP=${LOUDNORM_TRUE_PEAK}:LRA=${LOUDNORM_LRA}:print_format=json[m${t}]`)
+    outputs.push('-map', `[m${t}]`, '-f', 'null', '-')
+  }
+
+  return new Promise((resolve) => {
+    const proc = spawn(ffmpegPath, [
+      '-hide_banner', '-nostats', ...inputArgs(job), '-filter_complex', graph.join(';'), ...outputs,
+    ], { stdio: ['ignore', 'ignore', 'pipe'], windowsHide: true })
+    let stderr = ''
+    proc.stderr?.on('data', (d: Buffer) => { stderr += d.toString() })
+    const timer = setTimeout(() => proc.kill(), DEFAULT_TIMEOUT_MS)
+
+    proc.on('close', (code) => {
+      clearTimeout(timer)
+      const results: (LoudnormMeasurement | null)[] = Array(trackCount).fill(null)
+      for (const m of stderr.matchAll(/\[Parsed_loudnorm_(\d+) @ [^\]]+\]\s*(\{[^}]*\})/g)) {
+        try {
+          const track = parseInt(m[1], 10)
+          if (track < trackCount) results[track] = JSON.parse(m[2]) as LoudnormMeasurement
+        } catch {}
+      }
+      if (code !== 0) logger.ffmpeg.warn(`Loudness measurement exited with code ${code}`)
+      resolve(results)
+    })
+    proc.on('error', () => {
+      clearTimeout(timer)
+      resolve(Array(trackCount).fill(null))
+    })
+  })
+}
+
+/**
+ * Measure every track, then build each one's audio filter: EBU R128
+ * normalization to its role's target (second, linear loudnorm pass using the
+ * measurement) and the judge's gain offset. Silent tracks are left alone.
+ */
+async function planAudio(job: FFmpegJob, ffmpegPath: string): Promise<AudioPlan> {
+  const cfg = getSettings().ffmpeg.loudness
+  const trackCount = job.judgeCount + 1
+  const measured = await measureLoudness(job, ffmpegPath, trackCount)
+  const plan: AudioPlan = { filters: [], loudness: [] }
+
+  for (let t = 0; t < trackCount; t++) {
+    const m = measured[t]
+    const integrated = m ? parseDb(m.input_i) : undefined
+    if (m) plan.loudness.push({ role: trackRole(t), integratedLufs: integrated ?? null, truePeakDb: parseDb(m.input_tp) })
+
+    const parts: string[] = []
+    const normalize = t === 0 ? cfg.normalizePerformance : cfg.normalizeJudges
+    const target = t === 0 ? cfg.performanceTargetLufs : cfg.judgeTargetLufs
+    if (normalize && integrated !== null && (integrated === undefined || integrated > SILENT_LUFS)) {
+      const base = `loudnorm=I=${target}:TP=${LOUDNORM_TRUE_PEAK}:LRA=${LOUDNORM_LRA}`
+      // Unmeasured (measure pass failed): fall back to single-pass dynamic normalization
+      parts.push(m
+        ? `${base}:measured_I=${m.input_i}:measured_TP=${m.input_tp}:measured_LRA=${m.input_lra}` +
+          `:measured_thresh=${m.input_thresh}:offset=${m.target_offset}:linear=true`
+        : base)
+      parts.push('aresample=48000') // loudnorm upsamples to 192kHz
+    }
+    const gain = t > 0 ? cfg.judgeGainDb[t - 1] ?? 0 : 0
+    if (gain) parts.push(`volume=${gain}dB`)
+    plan.filters[t] = parts.length > 0 ? parts.join(',') : undefined
+  }
+
+  if (plan.loudness.length > 0) {
+    logger.ffmpeg.info(`Loudness ${job.routineId}: ${plan.loudness
+      .map((l) => `${l.role} ${l.integratedLufs ?? '-inf'} LUFS`).join(', ')}`)
+  }
+  return plan
+}
+
+function videoEncoderArgs(): string[] {
+  return getSettings().ffmpeg.useHardwareEncoding
+    ? ['-c:v', 'h264_nvenc', '-preset', 'p4', '-rc', 'vbr', '-cq', '23']
+    : ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23']
+}
+
+/** In/out points set in the trim editor, read at encode time so a re-encode picks up edits. */
+function getTrim(routineId: string): RoutineTrim | undefined {
+  return state.getCompetition()?.routines.find((r) => r.id === routineId)?.trim
+}
+
+/**
+ * Input args for the routine's recording, trimmed to its in/out points. Input
+ * seeking: with stream copy the cut lands on the keyframe at or before the in point.
+ */
+function inputArgs(job: FFmpegJob): string[] {
+  const trim = getTrim(job.routineId)
+  if (!trim) return ['-i', job.inputPath]
+  return [
+    ...(trim.inSec > 0 ? ['-ss', trim.inSec.toFixed(3)] : []),
+    ...(trim.outSec != null ? ['-t', (trim.outSec - trim.inSec).toFixed(3)] : []),
+    '-i', job.inputPath,
+  ]
+}
+
+/** Multi-angle outputs for a competition: its own config if set, else the defaults. */
+function getMultiAngleOutputs(competitionId?: string): MultiAngleOutputs {
+  const cfg = getSettings().multiAngle
+  return (competitionId && cfg.events[competitionId]) || cfg.defaults
+}
+
+/**
+ * Seconds an angle started after the main recording's (trimmed) start; negative
+ * = before. Each OBS reports its own record start, so this is what lines the angle up.
+ */
+function angleOffsetSec(routine: Routine, angle: CameraAngle): number {
+  if (!routine.recordingStartedAt || !angle.recordingStartedAt) return 0
+  const offset = (new Date(angle.recordingStartedAt).getTime() - new Date(routine.recordingStartedAt).getTime()) / 1000
+    - (routine.trim?.inSec ?? 0)
+  return Math.abs(offset) < 0.05 ? 0 : offset
+}
+
+const PIP_OVERLAY: Record<PipPosition, string> = {
+  'top-left': '24:24',
+  'top-right': 'W-w-24:24',
+  'bottom-left': '24:H-h-24',
+  'bottom-right': 'W-w-24:H-h-24',
+}
+
+/**
+ * Outputs built from side angles (routine.angles), per the event's multi-angle
+ * config. All of them carry the main recording's performance audio:
+ *   per-angle    — each angle's video
+ *   pip          — main video with the inset angle in a corner
+ *   side-by-side — main and inset angle next to each other
+ * A failed output is logged and skipped — it never fails the routine's main encode.
+ */
+async function encodeMultiAngle(job: FFmpegJob, audio: AudioPlan): Promise<EncodedFile[]> {
+  const routine = state.getCompetition()?.routines.find((r) => r.id === job.routineId)
+  if (!routine) return []
+  const angles = (routine.angles ?? []).filter((a): a is CameraAngle & { outputPath: string } =>
+    !!a.outputPath && fs.existsSync(a.outputPath))
+  if (angles.length === 0) return []
+
+  const cfg = getMultiAngleOutputs(state.getCompetition()?.competitionId)
+  const ffmpegPath = getFFmpegPath()
+  const height = job.processingMode === '720p' ? 720 : 1080
+  const files: EncodedFile[] = []
+
+  async function encode(role: EncodedFile['role'], label: string, args: string[]): Promise<void> {
+    const output = path.join(job.outputDir, multiAngleFileName(job.filePrefix, role))
+    try {
+      logger.ffmpeg.info(`Encoding ${label} → ${output}`)
+      await spawnFFmpegWithTimeout(ffmpegPath, ['-y', ...args, output])
+      files.push({ role, filePath: output, uploaded: false })
+    } catch (err) {
+      logger.ffmpeg.warn(`${label} encode failed: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  if (cfg.perAngle) {
+    for (const angle of angles) {
+      const scale = job.processingMode === '720p' ? '1280:720' : job.processingMode === '1080p' ? '1920:1080' : null
+      const codec = job.processingMode === 'copy'
+        ? (audio.filters[0] ? ['-c:v', 'copy', ...audioCodecArgs(audio, 0)] : ['-c', 'copy'])
+        : [...videoEncoderArgs(), ...(scale ? ['-vf', `scale=${scale}`] : []), ...audioCodecArgs(audio, 0)]
+      const offset = angleOffsetSec(routine, angle)
+      const sync = offset > 0 ? ['-itsoffset', offset.toFixed(3)] : offset < 0 ? ['-ss', (-offset).toFixed(3)] : []
+      await encode(angle.role, `angle "${angle.name}"`, [
+        ...inputArgs(job), ...sync, '-i', angle.outputPath,
+        '-map', '1:v:0', '-map', '0:a:0',
+        ...codec,
+        '-shortest',
+      ])
+    }
+  }
+
+  // Composites: a late inset is held on its first frame (filters see no -itsoffset gap)
+  const inset = angles.find((a) => a.role === `angle${cfg.insetAngle}`) ?? angles[0]
+  const insetOffset = angleOffsetSec(routine, inset)
+  const compositeInputs = [
+    ...inputArgs(job),
+    ...(insetOffset < 0 ? ['-ss', (-insetOffset).toFixed(3)] : []), '-i', inset.outputPath,
+  ]
+  const insetSync = insetOffset > 0 ? `tpad=start_duration=${insetOffset.toFixed(3)}:start_mode=clone,` : ''
+  const compositeCodec = [...videoEncoderArgs(), ...audioCodecArgs(audio, 0)]
+
+  if (cfg.pip) {
+    const insetHeight = Math.round(height * cfg.pipSizePercent / 100 / 2) * 2
+    await encode('pip', `picture-in-picture ("${inset.name}" inset)`, [
+      ...compositeInputs,
+      '-filter_complex',
+      `[0:v]scale=-2:${height}[main];[1:v]${insetSync}scale=-2:${insetHeight}[inset];` +
+      `[main][inset]overlay=${PIP_OVERLAY[cfg.pipPosition]}:eof_action=pass[v]`,
+      '-map', '[v]', '-map', '0:a:0',
+      ...compositeCodec,
+    ])
+  }
+
+  if (cfg.sideBySide) {
+    const tile = height === 720 ? '640:360' : '960:540'
+    const fit = `scale=${tile}:force_original_aspect_ratio=decrease,pad=${tile}:(ow-iw)/2:(oh-ih)/2`
+    await encode('side-by-side', `side-by-side (main + "${inset.name}")`, [
+      ...compositeInputs,
+      '-filter_complex',
+      `[0:v]${fit}[left];[1:v]${insetSync}${fit},tpad=stop=-1:stop_mode=clone[right];[left][right]hstack=inputs=2:shortest=1[v]`,
+      '-map', '[v]', '-map', '0:a:0',
+      ...compositeCodec,
+    ])
+  }
+
+  return files
+}
+
+// --- Metadata, chapters and cover art ---
+
+interface Chapter {
+  startMs: number
+  title: string
+}
+
+/** Escape a value for an FFMETADATA1 file. */
+function escapeMeta(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (c) => `\\${c}`)
+}
+
+const NOTE_TIME = /^\s*(?:(\d+):)?(\d{1,2}):(\d{2})\s*[-–:]?\s*(.*)$/ // "2:10 fall", "1:02:30 - music skip"
+
+/**
+ * Chapters for judge files: one per operator marker, plus one per note line. A
+ * note line that starts with a time ("2:10 music skipped") is placed at that
+ * offset into the recording; anything else goes at the start. Offsets follow
+ * the trim: marks cut off by it are dropped.
+ */
+function routineChapters(routine: Routine): Chapter[] {
+  const chapters: Chapter[] = (routine.markers ?? []).map((m) => ({
+    startMs: Math.round(m.offsetSec * 1000),
+    title: markerTitle(m),
+  }))
+  for (const line of (routine.notes ?? '').split(/\r?\n/).map((l) => l.trim()).filter(Boolean)) {
+    const m = NOTE_TIME.exec(line)
+    if (m && m[4]) {
+      const sec = (parseInt(m[1] || '0', 10) * 3600) + parseInt(m[2], 10) * 60 + parseInt(m[3], 10)
+      chapters.push({ startMs: sec * 1000, title: m[4] })
+    } else {
+      chapters.push({ startMs: 0, title: line })
+    }
+  }
+  const inMs = Math.round((routine.trim?.inSec ?? 0) * 1000)
+  const outMs = routine.trim?.outSec != null ? Math.round(routine.trim.outSec * 1000) : Infinity
+  return chapters
+    .filter((ch) => ch.startMs === 0 || (ch.startMs >= inMs && ch.startMs < outMs))
+    .map((ch) => ({ ...ch, startMs: Math.max(0, ch.startMs - inMs) }))
+    .sort((a, b) => a.startMs - b.startMs)
+}
+
+function buildFFMetadata(routine: Routine, competitionName: string, chapters: Chapter[], durationMs: number): string {
+  const tags: Record<string, string | undefined> = {
+    title: routine.routineTitle,
+    artist: routine.studioName,
+    album: competitionName,
+    genre: [routine.ageGroup, routine.category, routine.sizeCategory].filter(Boolean).join(' '),
+    track: routine.entryNumber,
+    date: routine.recordingStartedAt?.slice(0, 10),
+    creation_time: routine.recordingStartedAt,
+    comment: `Entry #${routine.entryNumber} — ${routine.studioName}${routine.studioCode ? ` (${routine.studioCode})` : ''}`,
+    entry_number: routine.entryNumber,
+    studio_code: routine.studioCode,
+    category: routine.category,
+  }
+  const lines = [';FFMETADATA1']
+  for (const [key, value] of Object.entries(tags)) {
+    if (value) lines.push(`${key}=${escapeMeta(value)}`)
+  }
+  // Chapters start at the recording start so the gap before the first mark is navigable too
+  const marks = chapters.length > 0 && chapters[0].startMs > 0 ? [{ startMs: 0, title: 'Start' }, ...chapters] : chapters
+  marks.forEach((ch, i) => {
+    const end = i + 1 < marks.length ? marks[i + 1].startMs : Math.max(durationMs, ch.startMs + 1000)
+    lines.push('[CHAPTER]', 'TIMEBASE=1/1000', `START=${ch.startMs}`, `END=${end}`, `title=${escapeMeta(ch.title)}`)
+  })
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Embed routine metadata and a poster-frame cover in every encoded file (judge
+ * files also get chapters from the operator notes). A stream-copy remux per
+ * file; a failure leaves that file untagged and is never fatal.
+ */
+async function tagOutputs(job: FFmpegJob, files: EncodedFile[]): Promise<void> {
+  const comp = state.getCompetition()
+  const routine = comp?.routines.find((r) => r.id === job.routineId)
+  if (!routine || files.length === 0) return
+  const ffmpegPath = getFFmpegPath()
+  const recordedMs = routine.recordingStartedAt && routine.recordingStoppedAt
+    ? new Date(routine.recordingStoppedAt).getTime() - new Date(routine.recordingStartedAt).getTime()
+    : 0
+  const endMs = Math.min(recordedMs || Infinity, (routine.trim?.outSec ?? Infinity) * 1000)
+  const durationMs = Number.isFinite(endMs) ? Math.max(0, endMs - (routine.trim?.inSec ?? 0) * 1000) : 0
+
+  const perf = files.find((f) => f.role === 'performance') ?? files[0]
+  const coverPath = path.join(job.outputDir, '_cover.jpg')
+  let hasCover = false
+  try {
+    const posterSec = durationMs > 0 ? Math.min(durationMs / 1000 * 0.25, 30) : 5
+    await spawnFFmpegWithTimeout(ffmpegPath, [
+      '-y', '-ss', posterSec.toFixed(1), '-i', perf.filePath,
+      '-frames:v', '1', '-vf', 'scale=640:-2', coverPath,
+    ], 60000)
+    hasCover = fs.existsSync(coverPath)
+  } catch (err) {
+    logger.ffmpeg.warn(`Poster frame failed: ${err instanceof Error ? err.message : err}`)
+  }
+
+  const plainMeta = path.join(job.outputDir, '_metadata.txt')
+  const chapterMeta = path.join(job.outputDir, '_metadata_chapters.txt')
+  const chapters = routineChapters(routine)
+  try {
+    await fs.promises.writeFile(plainMeta, buildFFMetadata(routine, comp?.name ?? '', [], durationMs), 'utf-8')
+    await fs.promises.writeFile(chapterMeta, buildFFMetadata(routine, comp?.name ?? '', chapters, durationMs), 'utf-8')
+
+    for (const file of files) {
+      const meta = file.role.startsWith('judge') && chapters.length > 0 ? chapterMeta : plainMeta
+      const tagged = path.join(job.outputDir, `_tagged${path.extname(file.filePath)}`)
+      try {
+        await spawnFFmpegWithTimeout(ffmpegPath, [
+          '-y', '-i', file.filePath, '-i', meta,
+          ...(hasCover ? ['-i', coverPath] : []),
+          '-map', '0:v:0', '-map', '0:a?',
+          ...(hasCover ? ['-map', '2:v:0'] : []),
+          '-map_metadata', '1', '-map_chapters', '1',
+          '-c', 'copy',
+          ...(hasCover ? ['-disposition:v:1', 'attached_pic'] : []),
+          '-movflags', '+use_metadata_tags',
+          tagged,
+        ])
+        await fs.promises.rename(tagged, file.filePath)
+      } catch (err) {
+        logger.ffmpeg.warn(`Tagging ${path.basename(file.filePath)} failed: ${err instanceof Error ? err.message : err}`)
+        try { await fs.promises.unlink(tagged) } catch {}
+      }
+    }
+    logger.ffmpeg.info(`Tagged ${files.length} file(s) for #${routine.entryNumber}${chapters.length ? ` (${chapters.length} chapters on judge files)` : ''}`)
+  } finally {
+    for (const tmp of [coverPath, plainMeta, chapterMeta]) {
+      try { await fs.promises.unlink(tmp) } catch {}
+    }
+  }
+}
+
 /** Clean up temp files from failed smart encode */
 function cleanupTempFiles(outputDir: string): void {
-  const tempFiles = ['_temp_video.mp4', '_temp_judge_video.mp4']
+  const tempFiles = ['_temp_video.mp4', '_temp_judge_video.mp4', '_tagged.mp4', '_cover.jpg']
   for (const tempName of tempFiles) {
     try {
       const tempPath = path.join(outputDir, tempName)
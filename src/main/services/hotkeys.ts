@@ -2,8 +2,10 @@ import { globalShortcut } from 'electron'
 import * as obs from './obs'
 import * as recording from './recording'
 import * as overlay from './overlay'
+import * as markers from './markers'
 import { getSettings } from './settings'
 import { logger } from '../logger'
+import { MarkerKind } from '../../shared/types'
 
 let registeredKeys: string[] = []
 
@@ -40,6 +42,18 @@ export function register(): void {
     await obs.saveReplay()
   })
 
+  const markerKeys: Array<[string, MarkerKind]> = [
+    [settings.hotkeys.markerMusicFailure, 'music-failure'],
+    [settings.hotkeys.markerFall, 'fall'],
+    [settings.hotkeys.markerCostume, 'costume'],
+    [settings.hotkeys.markerJudgeRequest, 'judge-request'],
+  ]
+  for (const [accelerator, kind] of markerKeys) {
+    registerKey(accelerator, `Marker: ${kind}`, async () => {
+      markers.addMarker(kind, 'hotkey')
+    })
+  }
+
   logger.app.info(`Global hotkeys registered: ${registeredKeys.join(', ')}`)
 }
 
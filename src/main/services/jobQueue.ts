@@ -187,6 +187,21 @@ export function updateStatus(
   }
 }
 
+/**
+ * Merge fields into a job's payload and flush immediately. Used for resumable
+ * progress (e.g. multipart parts) that must survive a crash mid-job.
+ * Keys set to undefined are dropped on the next save.
+ */
+export function updatePayload(jobId: string, patch: Record<string, unknown>): void {
+  const job = jobs.find(j => j.id === jobId)
+  if (!job) {
+    logger.app.warn(`Job queue: job ${jobId} not found for payload update`)
+    return
+  }
+  Object.assign(job.payload, patch)
+  flushSync()
+}
+
 /** Get the next pending job of a given type, respecting backoff. */
 export function getNext(type: JobType): JobRecord | null {
   const now = Date.now()
@@ -242,6 +257,17 @@ export function remove(jobId: string): boolean {
   return true
 }
 
+/** Put an interrupted running job back to pending without spending an attempt (user pause). */
+export function requeue(jobId: string): void {
+  const job = jobs.find(j => j.id === jobId)
+  if (!job || job.status !== 'running') return
+  job.status = 'pending'
+  job.attempts = Math.max(0, job.attempts - 1)
+  job.updatedAt = new Date().toISOString()
+  logger.app.info(`Job queue: job ${jobId} running → pending (interrupted)`)
+  flushSync()
+}
+
 /** Reset a failed job for manual retry. */
 export function retry(jobId: string): boolean {
   const job = jobs.find(j => j.id === jobId)
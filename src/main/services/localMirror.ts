@@ -0,0 +1,322 @@
+import express from 'express'
+import http from 'http'
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { pipeline } from 'stream/promises'
+import { app } from 'electron'
+import { Competition } from '../../shared/types'
+import { getSettings } from './settings'
+import { loadSchedule } from './schedule'
+import { logger } from '../logger'
+
+// Local stand-in for the CompSync plugin API, backed by a folder on disk.
+// Share codes starting with LOCAL- resolve here instead of compsync.net, so a
+// full day can be rehearsed (and upload tests run) with no live service.
+//
+// Layout under <rootDir>/<CODE>/ (e.g. LOCAL-REHEARSAL → <rootDir>/REHEARSAL/):
+//   schedule.json | *.csv | *.xlsx   competition served by /schedule
+//   objects/<storagePath>            files received via signed PUT
+//   completions/<entryId>.json       last /complete body per routine
+//   live-status.json                 latest pushed start/stop times + running-late
+//   .multipart/<uploadId>/<part>     in-progress multipart parts
+// Storage paths are local/<competitionId>/<entryId>/<type>/<file>, so routes that
+// only get a storagePath (multipart, signed PUTs) can find the competition folder.
+
+const PORT = 9878
+const LOCAL_PREFIX = 'LOCAL-'
+const LOCAL_API_KEY = 'local-mirror'
+
+let server: http.Server | null = null
+let listening: Promise<void> | null = null
+
+export function isLocalShareCode(shareCode: string): boolean {
+  return shareCode.trim().toUpperCase().startsWith(LOCAL_PREFIX)
+}
+
+export function getRootDir(): string {
+  return getSettings().localMirror.rootDir || path.join(app.getPath('userData'), 'local-mirror')
+}
+
+function getBaseUrl(): string {
+  return `http://127.0.0.1:${PORT}`
+}
+
+/**
+ * Competition folder for a share code or competitionId (the part after LOCAL-).
+ * Codes are case-insensitive, so an existing folder matches whatever its case
+ * (rehearsal/ on Linux); a new one is created upper-case.
+ */
+function competitionDir(idOrCode: string): string {
+  const id = idOrCode.toUpperCase().replace(LOCAL_PREFIX, '').replace(/[^A-Z0-9_-]/g, '')
+  if (!id) throw new Error('Local share code needs a name, e.g. LOCAL-REHEARSAL')
+  const root = getRootDir()
+  if (fs.existsSync(path.join(root, id))) return path.join(root, id)
+  const existing = fs.existsSync(root)
+    ? fs.readdirSync(root, { withFileTypes: true }).find(d => d.isDirectory() && d.name.toUpperCase() === id)
+    : undefined
+  return path.join(root, existing?.name ?? id)
+}
+
+/** Resolve a LOCAL- share code the way /api/plugin/resolve would. Starts the server if needed. */
+export async function resolve(shareCode: string): Promise<{
+  tenant: string
+  competitionId: string
+  apiBase: string
+  name: string
+  apiKey: string
+}> {
+  const code = shareCode.trim().toUpperCase()
+  const dir = competitionDir(code)
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Local mirror folder not found: ${dir}`)
+  }
+  await start()
+  const competitionId = code.slice(LOCAL_PREFIX.length)
+  return {
+    tenant: 'local',
+    competitionId,
+    apiBase: getBaseUrl(),
+    name: competitionId,
+    apiKey: LOCAL_API_KEY,
+  }
+}
+
+function readCompetition(dir: string): Competition {
+  const jsonPath = path.join(dir, 'schedule.json')
+  if (fs.existsSync(jsonPath)) {
+    return JSON.parse(fs.readFileSync(jsonPath, 'utf-8')) as Competition
+  }
+  const sheet = fs.readdirSync(dir).find(f => /\.(csv|xlsx?)$/i.test(f))
+  if (!sheet) throw new Error(`No schedule.json or CSV/XLSX in ${dir}`)
+  return loadSchedule(path.join(dir, sheet))
+}
+
+/** Map a storagePath to a file under objects/, refusing anything that escapes the folder. */
+function objectFile(dir: string, storagePath: string): string {
+  const root = path.join(dir, 'objects')
+  const file = path.resolve(root, storagePath)
+  if (!file.startsWith(root + path.sep)) throw new Error(`Bad storage path: ${storagePath}`)
+  return file
+}
+
+function hashFile(filePath: string, algo: 'sha256' | 'md5'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash(algo)
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+}
+
+/** Stream a request body to disk. Resolves with the byte count. */
+function receiveTo(req: express.Request, filePath: string): Promise<number> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const tmpPath = filePath + '.part'
+  return new Promise((resolve, reject) => {
+    let bytes = 0
+    const out = fs.createWriteStream(tmpPath)
+    req.on('data', (chunk: Buffer) => { bytes += chunk.length })
+    req.on('aborted', () => {
+      out.destroy()
+      fs.rm(tmpPath, { force: true }, () => reject(new Error('Client aborted')))
+    })
+    out.on('error', reject)
+    out.on('finish', () => {
+      fs.renameSync(tmpPath, filePath)
+      resolve(bytes)
+    })
+    req.pipe(out)
+  })
+}
+
+/** Competition folder from a storagePath we issued (local/<competitionId>/...). */
+function dirForStoragePath(storagePath: string): string {
+  return competitionDir(String(storagePath).split('/')[1] || '')
+}
+
+function multipartDir(storagePath: string, uploadId: string): string {
+  return path.join(dirForStoragePath(storagePath), '.multipart', path.basename(uploadId))
+}
+
+function storagePathFor(body: Record<string, unknown>): string {
+  const type = body.type === 'photos' ? 'photos' : 'videos'
+  const filename = path.basename(String(body.filename || 'file'))
+  return `local/${body.competitionId}/${body.entryId}/${type}/${filename}`
+}
+
+function start(): Promise<void> {
+  if (listening) return listening
+  const api = express()
+  const auth: express.RequestHandler = (req, res, next) => {
+    if (req.headers.authorization !== `Bearer ${LOCAL_API_KEY}`) {
+      res.status(401).json({ error: 'Bad API key' })
+      return
+    }
+    next()
+  }
+  const wrap = (fn: (req: express.Request, res: express.Response) => Promise<void> | void): express.RequestHandler =>
+    (req, res) => {
+      Promise.resolve(fn(req, res)).catch((err) => {
+        const msg = err instanceof Error ? err.message : String(err)
+        logger.upload.warn(`Local mirror ${req.method} ${req.path}: ${msg}`)
+        if (!res.headersSent) res.status(500).json({ error: msg })
+      })
+    }
+
+  api.get('/api/plugin/resolve/:code', wrap(async (req, res) => {
+    res.json(await resolve(req.params.code))
+  }))
+
+  api.get('/api/plugin/schedule/:competitionId', auth, wrap((req, res) => {
+    res.json(readCompetition(competitionDir(req.params.competitionId)))
+  }))
+
+  api.post('/api/plugin/upload-url', auth, express.json(), wrap((req, res) => {
+    const storagePath = storagePathFor(req.body)
+    const signedUrl = `${getBaseUrl()}/put?path=${encodeURIComponent(storagePath)}`
+    res.json({ signedUrl, storagePath })
+  }))
+
+  // Signed PUT — no bearer, same as a presigned R2 URL
+  api.put('/put', wrap(async (req, res) => {
+    const storagePath = String(req.query.path)
+    const file = objectFile(dirForStoragePath(storagePath), storagePath)
+    const bytes = await receiveTo(req, file)
+    res.setHeader('ETag', `"${await hashFile(file, 'md5')}"`)
+    res.status(200).end()
+    logger.upload.info(`Local mirror stored ${req.query.path} (${bytes} bytes)`)
+  }))
+
+  api.post('/api/plugin/multipart/create', auth, express.json(), wrap((req, res) => {
+    const uploadId = crypto.randomUUID()
+    const storagePath = storagePathFor(req.body)
+    fs.mkdirSync(multipartDir(storagePath, uploadId), { recursive: true })
+    res.json({ uploadId, storagePath })
+  }))
+
+  api.post('/api/plugin/multipart/part-url', auth, express.json(), wrap((req, res) => {
+    const { storagePath, uploadId, partNumber } = req.body
+    if (!fs.existsSync(multipartDir(String(storagePath), String(uploadId)))) {
+      res.status(404).json({ error: 'Unknown uploadId' })
+      return
+    }
+    const query = `path=${encodeURIComponent(String(storagePath))}&uploadId=${encodeURIComponent(String(uploadId))}&part=${Number(partNumber)}`
+    res.json({ signedUrl: `${getBaseUrl()}/put-part?${query}` })
+  }))
+
+  api.put('/put-part', wrap(async (req, res) => {
+    const partDir = multipartDir(String(req.query.path), String(req.query.uploadId))
+    if (!fs.existsSync(partDir)) {
+      res.status(404).end()
+      return
+    }
+    const file = path.join(partDir, String(Number(req.query.part)))
+    await receiveTo(req, file)
+    res.setHeader('ETag', `"${await hashFile(file, 'md5')}"`)
+    res.status(200).end()
+  }))
+
+  api.post('/api/plugin/multipart/complete', auth, express.json(), wrap(async (req, res) => {
+    const { uploadId, storagePath, parts } = req.body as {
+      uploadId: string
+      storagePath: string
+      parts: Array<{ partNumber: number; etag: string }>
+    }
+    const partDir = multipartDir(storagePath, uploadId)
+    if (!fs.existsSync(partDir)) {
+      res.status(404).json({ error: 'Unknown uploadId' })
+      return
+    }
+    const file = objectFile(dirForStoragePath(storagePath), storagePath)
+    await fs.promises.mkdir(path.dirname(file), { recursive: true })
+    // Stream the parts one after another — a multi-GB file must not block the main process or sit in memory
+    const tmpPath = file + '.part'
+    await fs.promises.writeFile(tmpPath, '')
+    try {
+      for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+        await pipeline(fs.createReadStream(path.join(partDir, String(part.partNumber))), fs.createWriteStream(tmpPath, { flags: 'a' }))
+      }
+      await fs.promises.rename(tmpPath, file)
+    } catch (err) {
+      await fs.promises.rm(tmpPath, { force: true })
+      throw err
+    }
+    await fs.promises.rm(partDir, { recursive: true, force: true })
+    res.json({ storagePath })
+    logger.upload.info(`Local mirror assembled ${storagePath} from ${parts.length} parts`)
+  }))
+
+  api.post('/api/plugin/multipart/abort', auth, express.json(), wrap((req, res) => {
+    const partDir = multipartDir(String(req.body.storagePath), String(req.body.uploadId))
+    fs.rmSync(partDir, { recursive: true, force: true })
+    res.json({ ok: true })
+  }))
+
+  api.post('/api/plugin/complete', auth, express.json(), wrap((req, res) => {
+    const dir = competitionDir(String(req.body.competitionId))
+    const outDir = path.join(dir, 'completions')
+    fs.mkdirSync(outDir, { recursive: true })
+    const record = { ...req.body, completedAt: new Date().toISOString() }
+    fs.writeFileSync(path.join(outDir, `${path.basename(String(req.body.entryId))}.json`), JSON.stringify(record, null, 2))
+    res.json({ ok: true })
+    logger.upload.info(`Local mirror complete for entry ${req.body.entryId}`)
+  }))
+
+  api.post('/api/plugin/live-status', auth, express.json(), wrap((req, res) => {
+    const file = path.join(competitionDir(String(req.body.competitionId)), 'live-status.json')
+    let live: { routines: Record<string, unknown> } = { routines: {} }
+    try { live = JSON.parse(fs.readFileSync(file, 'utf-8')) } catch { /* first push */ }
+    for (const r of req.body.routines || []) live.routines[r.entryId] = r
+    Object.assign(live, {
+      currentEntryId: req.body.currentEntryId,
+      runningLateMinutes: req.body.runningLateMinutes,
+      updatedAt: new Date().toISOString(),
+    })
+    fs.writeFileSync(file, JSON.stringify(live, null, 2))
+    res.json({ ok: true })
+  }))
+
+  api.post('/api/plugin/verify', auth, express.json(), wrap(async (req, res) => {
+    const dir = competitionDir(String(req.body.competitionId))
+    const objects = []
+    for (const o of (req.body.objects || []) as Array<{ storagePath: string }>) {
+      const file = objectFile(dir, o.storagePath)
+      if (!fs.existsSync(file)) {
+        objects.push({ storagePath: o.storagePath, exists: false })
+        continue
+      }
+      objects.push({
+        storagePath: o.storagePath,
+        exists: true,
+        size: fs.statSync(file).size,
+        sha256: await hashFile(file, 'sha256'),
+      })
+    }
+    res.json({ objects })
+  }))
+
+  listening = new Promise((resolve, reject) => {
+    server = api.listen(PORT, '127.0.0.1', () => {
+      logger.app.info(`Local mirror API running on ${getBaseUrl()} (root ${getRootDir()})`)
+      resolve()
+    })
+    server.on('error', (err: NodeJS.ErrnoException) => {
+      logger.app.error(`Local mirror server error: ${err.message}`)
+      server = null
+      listening = null
+      reject(err)
+    })
+  })
+  return listening
+}
+
+export function stopServer(): void {
+  if (server) {
+    server.close()
+    server = null
+    listening = null
+    logger.app.info('Local mirror server stopped')
+  }
+}
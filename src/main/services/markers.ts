@@ -0,0 +1,44 @@
+import crypto from 'crypto'
+import { formatOffset, MARKER_LABELS, MarkerKind, RoutineMarker } from '../../shared/types'
+import { logger } from '../logger'
+import * as state from './state'
+import * as recording from './recording'
+
+// Operator marks (music failure, fall, ...) taken while a routine records.
+// Stored on the routine with their offset into the recording, so the encoder
+// can turn them into chapters and the report can list them.
+
+/** Mark the routine that is recording now. Throws when nothing is recording. */
+export function addMarker(kind: MarkerKind, source: RoutineMarker['source'], label?: string): RoutineMarker {
+  const routineId = recording.getActiveRecordingRoutineId()
+  const routine = routineId ? state.getCompetition()?.routines.find(r => r.id === routineId) : undefined
+  if (!routine?.recordingStartedAt) throw new Error('Not recording — markers can only be added during a recording')
+
+  const now = new Date()
+  const marker: RoutineMarker = {
+    id: crypto.randomUUID(),
+    kind,
+    offsetSec: Math.max(0, Math.round((now.getTime() - new Date(routine.recordingStartedAt).getTime()) / 100) / 10),
+    at: now.toISOString(),
+    label: label?.trim() || undefined,
+    source,
+  }
+  routine.markers = [...(routine.markers ?? []), marker]
+  state.saveState()
+  recording.broadcastRoutineUpdate(routine.id)
+  logger.app.info(`Marker on #${routine.entryNumber} at ${formatOffset(marker.offsetSec)}: ${markerTitle(marker)} (${source})`)
+  return marker
+}
+
+export function removeMarker(routineId: string, markerId: string): void {
+  const routine = state.getCompetition()?.routines.find(r => r.id === routineId)
+  if (!routine) throw new Error(`Routine not found: ${routineId}`)
+  const remaining = (routine.markers ?? []).filter(m => m.id !== markerId)
+  routine.markers = remaining.length > 0 ? remaining : undefined
+  state.saveState()
+  recording.broadcastRoutineUpdate(routineId)
+}
+
+export function markerTitle(marker: RoutineMarker): string {
+  return marker.label || MARKER_LABELS[marker.kind]
+}
@@ -0,0 +1,95 @@
+import { nativeImage, protocol } from 'electron'
+import fs from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+import { logger } from '../logger'
+import * as state from './state'
+
+// compsync-media://routine/<routineId> streams a routine's recording to the
+// renderer (the trim editor's <video>); compsync-media://photo/<filePath> serves
+// a photo thumbnail (the photo timeline). Only files the state points at are
+// served — the renderer can't ask for arbitrary paths.
+
+export const MEDIA_SCHEME = 'compsync-media'
+
+const MIME_TYPES: Record<string, string> = {
+  '.mkv': 'video/x-matroska',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+}
+
+const THUMB_WIDTH = 160
+const THUMB_CACHE_MAX = 500
+const thumbCache = new Map<string, Buffer>()
+
+/** Thumbnail for a photo in state: the import's thumbnail file, else a scaled copy made here. */
+function photoThumbnail(filePath: string): Buffer | null {
+  const comp = state.getCompetition()
+  const photo = [...(comp?.routines.flatMap((r) => r.photos ?? []) ?? []), ...(comp?.unmatchedPhotos ?? [])]
+    .find((p) => p.filePath === filePath)
+  if (!photo) return null
+  if (photo.thumbnailPath && fs.existsSync(photo.thumbnailPath)) return fs.readFileSync(photo.thumbnailPath)
+
+  const cached = thumbCache.get(filePath)
+  if (cached) return cached
+  const image = nativeImage.createFromPath(filePath)
+  if (image.isEmpty()) return null
+  const jpeg = image.resize({ width: THUMB_WIDTH, quality: 'good' }).toJPEG(75)
+  if (thumbCache.size >= THUMB_CACHE_MAX) thumbCache.delete(thumbCache.keys().next().value!)
+  thumbCache.set(filePath, jpeg)
+  return jpeg
+}
+
+/** Must run before the app is ready. */
+export function registerScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: MEDIA_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true } },
+  ])
+}
+
+export function registerHandler(): void {
+  protocol.handle(MEDIA_SCHEME, async (request) => {
+    const url = new URL(request.url)
+    if (url.hostname === 'photo') {
+      const thumb = photoThumbnail(decodeURIComponent(url.pathname.replace(/^\/+/, '')))
+      if (!thumb) return new Response('Not found', { status: 404 })
+      return new Response(new Uint8Array(thumb), { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+    }
+
+    const routineId = decodeURIComponent(url.pathname.replace(/^\/+/, ''))
+    const routine = url.hostname === 'routine'
+      ? state.getCompetition()?.routines.find((r) => r.id === routineId)
+      : undefined
+    const filePath = routine?.outputPath
+    if (!filePath || !fs.existsSync(filePath)) return new Response('Not found', { status: 404 })
+
+    const size = (await fs.promises.stat(filePath)).size
+    const headers: Record<string, string> = {
+      'Content-Type': MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+      'Accept-Ranges': 'bytes',
+    }
+
+    // <video> seeks with Range requests — answer them, or scrubbing won't work
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') ?? '')
+    if (range && (range[1] || range[2])) {
+      const start = range[1] ? parseInt(range[1], 10) : Math.max(0, size - parseInt(range[2], 10))
+      const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), size - 1) : size - 1
+      if (start >= size || start > end) {
+        return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } })
+      }
+      const stream = fs.createReadStream(filePath, { start, end })
+      return new Response(Readable.toWeb(stream) as ReadableStream, {
+        status: 206,
+        headers: { ...headers, 'Content-Range': `bytes ${start}-${end}/${size}`, 'Content-Length': String(end - start + 1) },
+      })
+    }
+
+    const stream = fs.createReadStream(filePath)
+    return new Response(Readable.toWeb(stream) as ReadableStream, {
+      status: 200,
+      headers: { ...headers, 'Content-Length': String(size) },
+    })
+  })
+  logger.app.info(`Registered ${MEDIA_SCHEME}:// protocol`)
+}
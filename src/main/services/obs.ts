@@ -3,6 +3,7 @@ import { OBSState, AudioLevel, IPC_CHANNELS } from '../../shared/types'
 import { sendToRenderer } from '../ipcUtil'
 import { logger } from '../logger'
 import { getSettings } from './settings'
+import * as obsAngles from './obsAngles'
 
 // Handle CJS←ESM interop: externalized ESM package wraps default export
 const OBSWebSocket = (OBSWebSocketDefault as any).default || OBSWebSocketDefault
@@ -21,9 +22,10 @@ export function onRecordStopped(cb: RecordingCallback): void {
   onRecordStoppedCb = cb
 }
 
-let onAudioLevelsCb: ((levels: AudioLevel[]) => void) | null = null
+// Several consumers (wsHub meters, auto-record) — each call adds one
+const audioLevelsCbs: Array<(levels: AudioLevel[]) => void> = []
 export function setOnAudioLevels(cb: (levels: AudioLevel[]) => void): void {
-  onAudioLevelsCb = cb
+  audioLevelsCbs.push(cb)
 }
 
 let reconnectTimer: NodeJS.Timeout | null = null
@@ -172,23 +174,29 @@ async function syncState(): Promise<void> {
 
 // --- Recording ---
 
+// Start/stop fan out to the additional angle connections (obsAngles.ts)
+
 export async function startRecord(): Promise<void> {
   logger.obs.info('StartRecord')
   const start = Date.now()
-  await obs.call('StartRecord')
+  await Promise.all([obs.call('StartRecord'), obsAngles.startRecordAll()])
   logger.obs.info(`StartRecord completed in ${Date.now() - start}ms`)
 }
 
 export async function stopRecord(): Promise<string | undefined> {
   logger.obs.info('StopRecord')
   const start = Date.now()
-  const result = await obs.call('StopRecord')
+  const [result] = await Promise.all([obs.call('StopRecord'), obsAngles.stopRecordAll()])
   logger.obs.info(`StopRecord completed in ${Date.now() - start}ms, path: ${result.outputPath}`)
   return result.outputPath
 }
 
-/** Returns a promise that resolves when OBS fires RecordStateChanged → STOPPED, with a max timeout. */
+/** Resolves when OBS — and every angle that is recording — fires RecordStateChanged → STOPPED, with a max timeout. */
 export function waitForRecordStop(timeoutMs = 15000): Promise<void> {
+  return Promise.all([waitForMainRecordStop(timeoutMs), obsAngles.waitForRecordStopAll(timeoutMs)]).then(() => {})
+}
+
+function waitForMainRecordStop(timeoutMs: number): Promise<void> {
   return new Promise((resolve) => {
     let resolved = false
     const handler = (event: any): void => {
@@ -283,6 +291,49 @@ export async function getInputList(): Promise<string[]> {
   }
 }
 
+// --- Scenes, sources and inputs (scene rules) ---
+
+export async function getSceneList(): Promise<string[]> {
+  try {
+    const result = await obs.call('GetSceneList')
+    return result.scenes.map((s: any) => s.sceneName as string).reverse() // OBS lists bottom-up
+  } catch (err) {
+    logger.obs.error('Failed to get scene list:', err)
+    return []
+  }
+}
+
+export async function getSceneSources(sceneName: string): Promise<string[]> {
+  try {
+    const result = await obs.call('GetSceneItemList', { sceneName })
+    return result.sceneItems.map((i: any) => i.sourceName as string)
+  } catch (err) {
+    logger.obs.error(`Failed to get sources of scene "${sceneName}":`, err)
+    return []
+  }
+}
+
+export async function setCurrentScene(sceneName: string): Promise<void> {
+  await obs.call('SetCurrentProgramScene', { sceneName })
+  logger.obs.info(`Scene → ${sceneName}`)
+}
+
+export async function setSourceVisible(sceneName: string, sourceName: string, visible: boolean): Promise<void> {
+  const { sceneItemId } = await obs.call('GetSceneItemId', { sceneName, sourceName })
+  await obs.call('SetSceneItemEnabled', { sceneName, sceneItemId, sceneItemEnabled: visible })
+  logger.obs.info(`${sceneName} / ${sourceName} → ${visible ? 'visible' : 'hidden'}`)
+}
+
+export async function setInputMute(inputName: string, muted: boolean): Promise<void> {
+  await obs.call('SetInputMute', { inputName, inputMuted: muted })
+  logger.obs.info(`${inputName} → ${muted ? 'muted' : 'unmuted'}`)
+}
+
+export async function setInputVolume(inputName: string, volumeDb: number): Promise<void> {
+  await obs.call('SetInputVolume', { inputName, inputVolumeDb: volumeDb })
+  logger.obs.info(`${inputName} → ${volumeDb} dB`)
+}
+
 // --- Events ---
 
 function registerOBSEvents(): void {
@@ -329,7 +380,7 @@ function registerOBSEvents(): void {
         levels: (input.inputLevelsMul as number[][]).map((ch) => ch[0] || 0),
       }))
       sendToRenderer(IPC_CHANNELS.OBS_AUDIO_LEVELS, levels)
-      onAudioLevelsCb?.(levels)
+      for (const cb of audioLevelsCbs) cb(levels)
     }],
     ['ConnectionClosed', () => {
       if (state.connectionStatus === 'connected') {
@@ -0,0 +1,224 @@
+import OBSWebSocketDefault, { EventSubscription } from 'obs-websocket-js'
+import path from 'path'
+import { AngleRole, IPC_CHANNELS, OBSAngleConnection, OBSAngleState } from '../../shared/types'
+import { sendToRenderer } from '../ipcUtil'
+import { logger } from '../logger'
+import { getSettings } from './settings'
+
+// Additional OBS instances (side-angle camera PCs) driven alongside the main
+// connection in obs.ts. They only record: obs.startRecord/stopRecord and
+// waitForRecordStop fan out here, and each one's start/stop events are handed
+// to the recording pipeline (wired in index.ts) to file the angle's recording.
+
+const OBSWebSocket = (OBSWebSocketDefault as any).default || OBSWebSocketDefault
+
+type AngleCallback = (data: { connectionId: string; name: string; role: AngleRole; outputPath?: string; timestamp: string }) => void
+let onStartedCb: AngleCallback | null = null
+let onStoppedCb: AngleCallback | null = null
+
+export function onAngleRecordStarted(cb: AngleCallback): void {
+  onStartedCb = cb
+}
+
+export function onAngleRecordStopped(cb: AngleCallback): void {
+  onStoppedCb = cb
+}
+
+interface AngleConnection {
+  config: OBSAngleConnection
+  ws: any
+  state: OBSAngleState
+  reconnectTimer: NodeJS.Timeout | null
+  reconnectAttempts: number
+  closed: boolean // removed or disabled — don't reconnect
+  stopWaiters: Array<() => void>
+}
+
+const connections = new Map<string, AngleConnection>()
+
+function broadcastStates(): void {
+  sendToRenderer(IPC_CHANNELS.OBS_ANGLES_STATE, getStates())
+}
+
+export function getStates(): OBSAngleState[] {
+  return [...connections.values()].map(c => ({ ...c.state }))
+}
+
+/** Who an event came from. The role is the connection's own angle number, so it survives edits to the list. */
+function source(conn: AngleConnection): { connectionId: string; name: string; role: AngleRole } {
+  return { connectionId: conn.config.id, name: conn.config.name, role: `angle${conn.config.angle}` }
+}
+
+/** Translate a path as the remote OBS reports it into one readable from this PC. */
+export function toLocalPath(config: OBSAngleConnection, remotePath: string): string {
+  const from = config.remotePathPrefix.replace(/[\\/]+$/, '')
+  if (!from || !remotePath.toLowerCase().startsWith(from.toLowerCase())) return remotePath
+  const rest = remotePath.slice(from.length).split(/[\\/]+/).filter(Boolean)
+  return path.join(config.localPathPrefix, ...rest)
+}
+
+function sameEndpoint(a: OBSAngleConnection, b: OBSAngleConnection): boolean {
+  return a.url === b.url && a.password === b.password
+}
+
+/** Bring connections in line with settings.obsAngles: connect new/changed ones, drop removed/disabled ones. */
+export function syncConnections(): void {
+  const wanted = getSettings().obsAngles.filter(a => a.enabled && a.url)
+  for (const [id, conn] of connections) {
+    const config = wanted.find(a => a.id === id)
+    if (!config || !sameEndpoint(config, conn.config)) {
+      close(conn)
+      connections.delete(id)
+    } else {
+      conn.config = config
+      conn.state.name = config.name
+    }
+  }
+  for (const config of wanted) {
+    if (connections.has(config.id)) continue
+    const conn: AngleConnection = {
+      config,
+      ws: new OBSWebSocket(),
+      state: { id: config.id, name: config.name, connectionStatus: 'disconnected', isRecording: false },
+      reconnectTimer: null,
+      reconnectAttempts: 0,
+      closed: false,
+      stopWaiters: [],
+    }
+    connections.set(config.id, conn)
+    registerEvents(conn)
+    connect(conn)
+  }
+  broadcastStates()
+}
+
+function registerEvents(conn: AngleConnection): void {
+  conn.ws.on('RecordStateChanged', (event: any) => {
+    const timestamp = new Date().toISOString()
+    if (event.outputState === 'OBS_WEBSOCKET_OUTPUT_STARTED') {
+      conn.state.isRecording = true
+      broadcastStates()
+      onStartedCb?.({ ...source(conn), timestamp })
+    } else if (event.outputState === 'OBS_WEBSOCKET_OUTPUT_STOPPED') {
+      conn.state.isRecording = false
+      broadcastStates()
+      const outputPath = event.outputPath ? toLocalPath(conn.config, event.outputPath) : undefined
+      onStoppedCb?.({ ...source(conn), outputPath, timestamp })
+      resolveStopWaiters(conn)
+    }
+  })
+  conn.ws.on('ConnectionClosed', () => {
+    const wasRecording = conn.state.isRecording
+    conn.state.connectionStatus = 'disconnected'
+    conn.state.isRecording = false
+    broadcastStates()
+    if (wasRecording) {
+      logger.obs.warn(`[${conn.config.name}] Connection lost while recording — angle file not collected`)
+      onStoppedCb?.({ ...source(conn), timestamp: new Date().toISOString() })
+      resolveStopWaiters(conn)
+    }
+    if (!conn.closed) scheduleReconnect(conn)
+  })
+}
+
+function resolveStopWaiters(conn: AngleConnection): void {
+  const waiters = conn.stopWaiters
+  conn.stopWaiters = []
+  for (const resolve of waiters) resolve()
+}
+
+async function connect(conn: AngleConnection): Promise<void> {
+  conn.state.connectionStatus = 'connecting'
+  broadcastStates()
+  try {
+    await conn.ws.connect(conn.config.url, conn.config.password, { eventSubscriptions: EventSubscription.Outputs })
+    if (conn.closed) {
+      await conn.ws.disconnect().catch(() => {})
+      return
+    }
+    const status = await conn.ws.call('GetRecordStatus').catch(() => ({ outputActive: false }))
+    conn.state = { ...conn.state, connectionStatus: 'connected', isRecording: status.outputActive, error: undefined }
+    conn.reconnectAttempts = 0
+    logger.obs.info(`[${conn.config.name}] Connected to ${conn.config.url}`)
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err)
+    if (conn.reconnectAttempts === 0) logger.obs.warn(`[${conn.config.name}] Connection failed: ${msg}`)
+    conn.state = { ...conn.state, connectionStatus: 'error', error: msg }
+    scheduleReconnect(conn)
+  }
+  broadcastStates()
+}
+
+function scheduleReconnect(conn: AngleConnection): void {
+  if (conn.reconnectTimer || conn.closed) return
+  // Same backoff as the main connection: 5s, 10s, 15s, max 30s
+  const delay = Math.min(5000 + conn.reconnectAttempts * 5000, 30000)
+  conn.reconnectAttempts++
+  conn.reconnectTimer = setTimeout(() => {
+    conn.reconnectTimer = null
+    if (!conn.closed && conn.state.connectionStatus !== 'connected') connect(conn)
+  }, delay)
+}
+
+function close(conn: AngleConnection): void {
+  conn.closed = true
+  if (conn.reconnectTimer) {
+    clearTimeout(conn.reconnectTimer)
+    conn.reconnectTimer = null
+  }
+  resolveStopWaiters(conn)
+  conn.ws.disconnect().catch(() => {})
+  logger.obs.info(`[${conn.config.name}] Disconnected`)
+}
+
+export async function disconnectAll(): Promise<void> {
+  for (const conn of connections.values()) close(conn)
+  connections.clear()
+  broadcastStates()
+}
+
+function connected(): AngleConnection[] {
+  return [...connections.values()].filter(c => c.state.connectionStatus === 'connected')
+}
+
+/** Start recording on every connected angle. Failures are logged, never thrown — the main recording matters most. */
+export async function startRecordAll(): Promise<void> {
+  await Promise.all(connected().filter(c => !c.state.isRecording).map(async (c) => {
+    try {
+      await c.ws.call('StartRecord')
+    } catch (err) {
+      logger.obs.warn(`[${c.config.name}] StartRecord failed: ${err instanceof Error ? err.message : err}`)
+    }
+  }))
+}
+
+export async function stopRecordAll(): Promise<void> {
+  await Promise.all(connected().filter(c => c.state.isRecording).map(async (c) => {
+    try {
+      await c.ws.call('StopRecord')
+    } catch (err) {
+      logger.obs.warn(`[${c.config.name}] StopRecord failed: ${err instanceof Error ? err.message : err}`)
+    }
+  }))
+}
+
+/** Resolves once every angle that is recording now has reported STOPPED (or the timeout passes). */
+export function waitForRecordStopAll(timeoutMs = 15000): Promise<void> {
+  const recording = connected().filter(c => c.state.isRecording)
+  if (recording.length === 0) return Promise.resolve()
+  return new Promise((resolve) => {
+    let remaining = recording.length
+    const timer = setTimeout(() => {
+      logger.obs.warn(`waitForRecordStopAll: ${remaining} angle(s) still recording after ${timeoutMs}ms`)
+      resolve()
+    }, timeoutMs)
+    for (const c of recording) {
+      c.stopWaiters.push(() => {
+        if (--remaining === 0) {
+          clearTimeout(timer)
+          resolve()
+        }
+      })
+    }
+  })
+}
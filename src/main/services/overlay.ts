@@ -6,6 +6,7 @@ import { app } from 'electron'
 import { OverlayState, OverlayLayout, DEFAULT_LAYOUT, TickerState, StartingSoonState, AnimationConfig, StartingSoonConfig, StartingSoonPreset, StartingSoonLayout, GradientConfig, SSElementPosition, TimeDateConfig, CountdownStyleConfig, VideoPlaylistConfig, PhotoSlideshowConfig, SocialBarConfig, SponsorCarouselConfig, VisualizerConfig, EventInfoConfig } from '../../shared/types'
 import { getSettings } from './settings'
 import { logger } from '../logger'
+import * as sceneRules from './sceneRules'
 import { setupMediaRoutes, setVideoFolder, setPhotoFolder, setSponsorFolder } from './startingSoonMedia'
 
 const PORT = 9876
@@ -539,6 +540,7 @@ export function fireLowerThird(): void {
   overlayState.lowerThird.showStudioName = settings.overlay?.showStudioName ?? true
   overlayState.lowerThird.showCategory = settings.overlay?.showCategory ?? true
   logger.app.info('Overlay lower third fired')
+  sceneRules.emit('lower-third-fired')
   if (autoHideTimer) clearTimeout(autoHideTimer)
   if (seconds > 0) {
     autoHideTimer = setTimeout(() => {
@@ -636,9 +638,11 @@ export function setTicker(updates: Partial<TickerState>): void {
 // --- Starting Soon ---
 
 export function setStartingSoon(updates: Partial<StartingSoonState>): void {
+  const wasVisible = overlayState.startingSoon.visible
   overlayState.startingSoon = { ...overlayState.startingSoon, ...updates }
   saveOverlayConfig()
   logger.app.info(`Starting soon updated: visible=${overlayState.startingSoon.visible}`)
+  if (!wasVisible && overlayState.startingSoon.visible) sceneRules.emit('break-started')
   notifyChange()
 }
 
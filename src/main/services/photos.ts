@@ -3,13 +3,14 @@ import path from 'path'
 import { dialog, BrowserWindow } from 'electron'
 import ExifReader from 'exifreader'
 import sharp from 'sharp'
-import { Routine, PhotoMatch, IPC_CHANNELS } from '../../shared/types'
+import { Routine, PhotoMatch, PhotoCamera, ClockSyncStatus, IPC_CHANNELS } from '../../shared/types'
 import { sendToRenderer } from '../ipcUtil'
 import { logger } from '../logger'
 import * as state from './state'
-import { broadcastFullState } from './recording'
+import { broadcastFullState, moveFile } from './recording'
 import { getSettings } from './settings'
 import * as uploadService from './upload'
+import * as embeddingIndex from './embeddingIndex'
 
 interface RecordingWindow {
   routineId: string
@@ -22,10 +23,32 @@ interface ImportResult {
   totalPhotos: number
   matched: number
   unmatched: number
-  clockOffsetMs: number
+  cameras: PhotoCamera[]
   matches: PhotoMatch[]
 }
 
+/** Who took a photo, as read from EXIF — before any clock offset is known. */
+export interface CameraIdentity {
+  id: string
+  label: string
+  photographer: string
+}
+
+interface PhotoExif {
+  captureTime: Date | null
+  subSecond: boolean // captureTime includes SubSecTimeOriginal
+  camera: CameraIdentity | null
+}
+
+interface ImportPhoto {
+  path: string
+  captureTime: Date
+  camera: CameraIdentity
+}
+
+const CLOCK_OK_THRESHOLD = 5_000
+const CLOCK_WARN_THRESHOLD = 30_000
+
 async function yieldToEventLoop(): Promise<void> {
   await new Promise<void>((resolve) => setTimeout(resolve, 0))
 }
@@ -44,7 +67,38 @@ export async function browseForFolder(): Promise<string | null> {
   return result.filePaths[0]
 }
 
-async function getPhotoCaptureTime(filePath: string): Promise<Date | null> {
+export function clockSyncStatusFor(offsetMs: number): ClockSyncStatus {
+  const abs = Math.abs(offsetMs)
+  if (abs < CLOCK_OK_THRESHOLD) return 'ok'
+  if (abs < CLOCK_WARN_THRESHOLD) return 'warning'
+  return 'error'
+}
+
+/** Stand-in identity for photos whose EXIF names no camera (e.g. the MTP device name). */
+export function fallbackCamera(name?: string | null): CameraIdentity {
+  const label = name?.trim() || 'Unknown camera'
+  return { id: label, label, photographer: label }
+}
+
+function cameraFromTags(tags: ExifReader.Tags): CameraIdentity | null {
+  const make = tags['Make']?.description?.trim() ?? ''
+  const model = tags['Model']?.description?.trim() ?? ''
+  const serial = (tags['BodySerialNumber'] ?? tags['CameraSerialNumber'] ?? tags['SerialNumber'])?.description?.trim() ?? ''
+  if (!model && !serial) return null
+
+  // Canon/Nikon models already start with the make ("Canon EOS R6"), Sony's don't ("ILCE-7M3")
+  const makeWord = make.split(' ')[0].toLowerCase()
+  const name = !make || model.toLowerCase().startsWith(makeWord) ? model : `${make} ${model}`.trim()
+  const label = serial ? `${name} …${serial.slice(-4)}` : name
+  return {
+    id: serial ? `${name}#${serial}` : name,
+    label,
+    photographer: tags['Artist']?.description?.trim() || label,
+  }
+}
+
+/** Capture time and camera body from a photo's EXIF header. Null when it can't be read. */
+export async function readPhotoExif(filePath: string): Promise<PhotoExif | null> {
   try {
     // Read only first 128KB — EXIF data is always in the file header
     const EXIF_HEADER_SIZE = 128 * 1024
@@ -54,24 +108,33 @@ async function getPhotoCaptureTime(filePath: string): Promise<Date | null> {
     await fh.close()
     const buffer = buf.subarray(0, bytesRead)
     const tags = ExifReader.load(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer)
-    const dateTime = tags['DateTimeOriginal']?.description
-    if (!dateTime) return null
-
-    // Parse EXIF date format "YYYY:MM:DD HH:MM:SS"
-    // EXIF DateTimeOriginal is LOCAL time (no timezone) — cameras don't store UTC.
-    // Treat as local by NOT appending 'Z'. new Date("2026-03-24T14:30:00") parses as local.
-    const [datePart, timePart] = dateTime.split(' ')
-    if (!datePart || !timePart) return null
-    const isoString = datePart.replace(/:/g, '-') + 'T' + timePart
-    const d = new Date(isoString)
-    if (isNaN(d.getTime())) return null
-    return d
+    const captureTime = parseExifDate(tags['DateTimeOriginal']?.description)
+    const subSec = tags['SubSecTimeOriginal']?.description?.trim()
+    const subSecond = !!captureTime && !!subSec && /^\d+$/.test(subSec)
+    if (captureTime && subSecond) {
+      captureTime.setTime(captureTime.getTime() + Math.round(Number(`0.${subSec}`) * 1000))
+    }
+    return { captureTime, subSecond, camera: cameraFromTags(tags) }
   } catch (err) {
     logger.photos.warn(`Failed to read EXIF from ${path.basename(filePath)}:`, err)
     return null
   }
 }
 
+function parseExifDate(dateTime?: string): Date | null {
+  if (!dateTime) return null
+
+  // Parse EXIF date format "YYYY:MM:DD HH:MM:SS"
+  // EXIF DateTimeOriginal is LOCAL time (no timezone) — cameras don't store UTC.
+  // Treat as local by NOT appending 'Z'. new Date("2026-03-24T14:30:00") parses as local.
+  const [datePart, timePart] = dateTime.split(' ')
+  if (!datePart || !timePart) return null
+  const isoString = datePart.replace(/:/g, '-') + 'T' + timePart
+  const d = new Date(isoString)
+  if (isNaN(d.getTime())) return null
+  return d
+}
+
 function detectClockOffset(
   photos: { path: string; captureTime: Date }[],
   windows: RecordingWindow[],
@@ -262,12 +325,12 @@ export async function importPhotos(
     current: 0,
   })
 
-  // Read EXIF timestamps
-  const photos: { path: string; captureTime: Date }[] = []
+  // Read EXIF timestamps and camera bodies
+  const photos: ImportPhoto[] = []
   for (let i = 0; i < filePaths.length; i++) {
-    const captureTime = await getPhotoCaptureTime(filePaths[i])
-    if (captureTime) {
-      photos.push({ path: filePaths[i], captureTime })
+    const exif = await readPhotoExif(filePaths[i])
+    if (exif?.captureTime) {
+      photos.push({ path: filePaths[i], captureTime: exif.captureTime, camera: exif.camera ?? fallbackCamera() })
     }
 
     if (i % 10 === 0) {
@@ -292,28 +355,52 @@ export async function importPhotos(
       recordingStopped: new Date(r.recordingStoppedAt!),
     }))
 
-  // Detect clock offset
-  const clockOffsetMs = detectClockOffset(photos, windows)
+  // Each body's clock drifts on its own — detect an offset and match per camera
+  const byCamera = new Map<string, ImportPhoto[]>()
+  for (const photo of photos) {
+    const list = byCamera.get(photo.camera.id) || []
+    list.push(photo)
+    byCamera.set(photo.camera.id, list)
+  }
 
-  // Match photos to routines
-  const matches = matchPhotosToRoutines(photos, windows, clockOffsetMs)
+  const cameras: PhotoCamera[] = []
+  const offsetByCamera = new Map<string, number>()
+  const matches: PhotoMatch[] = []
+  const clockSyncs = state.getCompetition()?.clockSyncs ?? []
+  for (const [cameraId, cameraPhotos] of byCamera) {
+    const camera = cameraPhotos[0].camera
+    logger.photos.info(`Camera ${camera.label} (${camera.photographer}): ${cameraPhotos.length} photos`)
+    // A body synced with the QR wizard or set on the timeline has a known offset — don't guess
+    const sync = clockSyncs.find((s) => s.cameraId === cameraId)
+    if (sync) logger.photos.info(`Using synced clock offset for ${camera.label}: ${sync.offsetMs}ms`)
+    const clockOffsetMs = sync ? -sync.offsetMs : detectClockOffset(cameraPhotos, windows)
+    for (const match of matchPhotosToRoutines(cameraPhotos, windows, clockOffsetMs)) {
+      match.cameraId = cameraId
+      match.photographer = camera.photographer
+      match.clockOffsetMs = clockOffsetMs
+      matches.push(match)
+    }
+    offsetByCamera.set(cameraId, clockOffsetMs)
+    cameras.push({
+      ...camera,
+      clockOffsetMs,
+      clockSyncStatus: sync ? 'ok' : clockSyncStatusFor(clockOffsetMs),
+      clockSource: sync ? (sync.source === 'timeline' ? 'manual' : 'qr') : 'estimated',
+      photos: cameraPhotos.length,
+    })
+  }
+
+  // Interleave the photographers' shots in corrected time order
+  const adjustedTime = (m: PhotoMatch): number =>
+    new Date(m.captureTime).getTime() + (offsetByCamera.get(m.cameraId!) ?? 0)
+  matches.sort((a, b) => adjustedTime(a) - adjustedTime(b))
 
   // Copy matched photos to routine folders and generate thumbnails
   let copiedCount = 0
   for (const match of matches) {
     if (match.confidence === 'unmatched') continue
 
-    // Find which routine this photo matched
-    const adjustedTime = new Date(match.captureTime).getTime() + clockOffsetMs
-    const matchedWindow = windows.find(
-      (w) =>
-        adjustedTime >= w.recordingStarted.getTime() - 30000 &&
-        adjustedTime <= w.recordingStopped.getTime() + 30000,
-    )
-
-    if (!matchedWindow) continue
-
-    const routine = routines.find((r) => r.id === matchedWindow.routineId)
+    const routine = routines.find((r) => r.id === match.matchedRoutineId)
     if (!routine) continue
 
     // Use existing routine output dir if available, otherwise construct from settings
@@ -331,6 +418,7 @@ export async function importPhotos(
 
     const destFile = path.join(routineDir, `photo_${String(copiedCount + 1).padStart(3, '0')}.jpg`)
     await fs.promises.copyFile(match.filePath, destFile)
+    match.originalPath = match.filePath
     match.filePath = destFile
 
     // Generate thumbnail
@@ -354,7 +442,7 @@ export async function importPhotos(
     totalPhotos: photos.length,
     matched: matches.filter((m) => m.confidence !== 'unmatched').length,
     unmatched: matches.filter((m) => m.confidence === 'unmatched').length,
-    clockOffsetMs,
+    cameras,
     matches,
   }
 
@@ -372,6 +460,15 @@ export async function importPhotos(
       state.updateRoutineStatus(routineId, routine.status, { photos: routinePhotos })
     }
   }
+
+  // Keep the leftovers for the timeline, replacing entries from earlier imports of the same files
+  const comp = state.getCompetition()
+  if (comp) {
+    const unmatched = matches.filter((m) => m.confidence === 'unmatched')
+    const seen = new Set(matches.map((m) => m.originalPath ?? m.filePath))
+    comp.unmatchedPhotos = [...(comp.unmatchedPhotos ?? []).filter((p) => !seen.has(p.filePath)), ...unmatched]
+    state.saveState()
+  }
   broadcastFullState()
 
   // Auto-upload photos if enabled
@@ -389,9 +486,214 @@ export async function importPhotos(
   }
 
   logger.photos.info(
-    `Import complete: ${result.matched} matched, ${result.unmatched} unmatched, offset: ${Math.round(clockOffsetMs / 1000)}s`,
+    `Import complete: ${result.matched} matched, ${result.unmatched} unmatched, offsets: ${
+      cameras.map((c) => `${c.label} ${Math.round(c.clockOffsetMs / 1000)}s`).join(', ') || 'none'
+    }`,
   )
 
   sendToRenderer(IPC_CHANNELS.PHOTOS_MATCH_RESULT, result)
   return result
 }
+
+// --- Timeline fixes ---
+//
+// The photo timeline lets the operator see why a photo landed where it did and
+// correct it: drag it to another routine (or off every routine), or re-match
+// one camera's photos at a different clock offset. Moved photos are re-uploaded
+// to their new routine.
+
+/** Where a routine's photos are copied; same layout as importPhotos and tether. */
+function routinePhotosDir(routine: Routine): string {
+  const baseDir = routine.outputDir
+    ? routine.outputDir
+    : path.join(
+        getSettings().fileNaming.outputDirectory,
+        `${routine.entryNumber}_${routine.routineTitle.replace(/\s+/g, '_')}_${routine.studioCode}`,
+      )
+  return path.join(baseDir, 'photos')
+}
+
+/** First photo_NNN name not taken in the folder (upload object names come from it). */
+async function nextPhotoPath(dir: string, ext: string): Promise<string> {
+  const taken = new Set((await fs.promises.readdir(dir)).map((f) => f.toLowerCase()))
+  for (let n = 1; ; n++) {
+    const name = `photo_${String(n).padStart(3, '0')}${ext}`
+    if (!taken.has(name.toLowerCase())) return path.join(dir, name)
+  }
+}
+
+function findPhoto(filePath: string): { photo: PhotoMatch; routine?: Routine } | null {
+  const comp = state.getCompetition()
+  if (!comp) return null
+  for (const routine of comp.routines) {
+    const photo = routine.photos?.find((p) => p.filePath === filePath)
+    if (photo) return { photo, routine }
+  }
+  const photo = comp.unmatchedPhotos?.find((p) => p.filePath === filePath)
+  return photo ? { photo } : null
+}
+
+/** Move one photo (file and state) from its routine or the unmatched list to `to`, or back to unmatched. */
+async function relocatePhoto(
+  photo: PhotoMatch,
+  from: Routine | undefined,
+  to: Routine | null,
+  confidence: PhotoMatch['confidence'],
+): Promise<void> {
+  const comp = state.getCompetition()
+  if (!comp) throw new Error('No competition loaded')
+
+  if (photo.uploaded && from) {
+    logger.photos.warn(`Photo ${path.basename(photo.filePath)} was already uploaded to #${from.entryNumber} — it stays there until removed online`)
+  }
+
+  if (to) {
+    const dir = routinePhotosDir(to)
+    await fs.promises.mkdir(dir, { recursive: true })
+    const dest = await nextPhotoPath(dir, path.extname(photo.filePath).toLowerCase())
+    if (from) {
+      await moveFile(photo.filePath, dest)
+      embeddingIndex.renamePath(photo.filePath, dest)
+    } else {
+      await fs.promises.copyFile(photo.filePath, dest)
+      photo.originalPath = photo.originalPath ?? photo.filePath
+    }
+    photo.filePath = dest
+  } else if (from && photo.originalPath && fs.existsSync(photo.originalPath)) {
+    // Back to the card copy; ours would just be an orphan in the routine folder
+    await fs.promises.unlink(photo.filePath).catch(() => {})
+    photo.filePath = photo.originalPath
+  }
+
+  if (from) from.photos = (from.photos ?? []).filter((p) => p !== photo)
+  else comp.unmatchedPhotos = (comp.unmatchedPhotos ?? []).filter((p) => p !== photo)
+
+  photo.confidence = to ? confidence : 'unmatched'
+  photo.matchedRoutineId = to?.id
+  photo.uploaded = false
+  photo.storagePath = undefined
+  photo.sha256 = undefined
+  photo.size = undefined
+
+  if (to) to.photos = [...(to.photos ?? []), photo]
+  else comp.unmatchedPhotos = [...(comp.unmatchedPhotos ?? []), photo]
+}
+
+/** Re-queue a routine whose photos changed, if its files go up (auto-upload, or uploaded before). */
+function requeueUploads(routine: Routine): void {
+  const uploadedBefore =
+    routine.encodedFiles?.some((f) => f.uploaded) || routine.photos?.some((p) => p.uploaded)
+  if (!getSettings().behavior.autoUploadAfterEncoding && !uploadedBefore) return
+  const result = uploadService.enqueueRoutine(routine)
+  if (result.queuedJobs > 0) uploadService.startUploads()
+}
+
+/** Operator fix: put a photo in `toRoutineId`, or take it off every routine with null. */
+export async function movePhoto(filePath: string, toRoutineId: string | null): Promise<void> {
+  const found = findPhoto(filePath)
+  if (!found) throw new Error(`Photo not found: ${path.basename(filePath)}`)
+  const to = toRoutineId ? state.getCompetition()?.routines.find((r) => r.id === toRoutineId) : null
+  if (to === undefined) throw new Error(`Routine not found: ${toRoutineId}`)
+  if ((found.routine?.id ?? null) === (to?.id ?? null)) return
+
+  await relocatePhoto(found.photo, found.routine, to, 'manual')
+  logger.photos.info(
+    `Photo ${path.basename(filePath)} moved ${found.routine ? `from #${found.routine.entryNumber}` : 'from unmatched'} ` +
+      `to ${to ? `#${to.entryNumber}` : 'unmatched'}`,
+  )
+  state.saveState()
+  broadcastFullState()
+  if (to) requeueUploads(to)
+}
+
+/** Bulk operator fix (accepted clustering suggestions): like movePhoto, but saves and re-queues once. */
+export async function movePhotos(picks: { filePath: string; routineId: string }[]): Promise<{ moved: number; failed: string[] }> {
+  const comp = state.getCompetition()
+  if (!comp) throw new Error('No competition loaded')
+
+  let moved = 0
+  const failed: string[] = []
+  const changed = new Set<Routine>()
+  for (const pick of picks) {
+    const found = findPhoto(pick.filePath)
+    const to = comp.routines.find((r) => r.id === pick.routineId)
+    if (!found || !to) {
+      failed.push(`${path.basename(pick.filePath)}: ${found ? 'routine not found' : 'photo not found'}`)
+      continue
+    }
+    found.photo.clipSuggestion = undefined
+    if (found.routine?.id === to.id) continue
+    try {
+      await relocatePhoto(found.photo, found.routine, to, 'manual')
+      changed.add(to)
+      moved++
+    } catch (err) {
+      failed.push(`${path.basename(pick.filePath)}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    if (moved % 10 === 0) await yieldToEventLoop()
+  }
+
+  logger.photos.info(`Accepted ${moved}/${picks.length} suggested photo moves${failed.length ? `, ${failed.length} failed` : ''}`)
+  state.saveState()
+  broadcastFullState()
+  for (const routine of changed) requeueUploads(routine)
+  return { moved, failed }
+}
+
+/**
+ * Re-match every photo from one camera at a new clock offset (app − camera, ms).
+ * Photos the operator placed by hand stay put. Returns how many changed routine.
+ */
+export async function applyCameraOffset(cameraId: string, clockOffsetMs: number): Promise<{ moved: number }> {
+  const comp = state.getCompetition()
+  if (!comp) throw new Error('No competition loaded')
+
+  const owned: { photo: PhotoMatch; routine?: Routine }[] = []
+  for (const routine of comp.routines) {
+    for (const photo of routine.photos ?? []) {
+      if ((photo.cameraId ?? '') === cameraId && photo.confidence !== 'manual') owned.push({ photo, routine })
+    }
+  }
+  for (const photo of comp.unmatchedPhotos ?? []) {
+    if ((photo.cameraId ?? '') === cameraId) owned.push({ photo })
+  }
+  if (owned.length === 0) return { moved: 0 }
+
+  const windows: RecordingWindow[] = comp.routines
+    .filter((r) => r.recordingStartedAt && r.recordingStoppedAt)
+    .map((r) => ({
+      routineId: r.id,
+      entryNumber: r.entryNumber,
+      recordingStarted: new Date(r.recordingStartedAt!),
+      recordingStopped: new Date(r.recordingStoppedAt!),
+    }))
+  logger.photos.info(`Re-matching ${owned.length} photos from ${cameraId || 'unknown camera'} at offset ${Math.round(clockOffsetMs / 1000)}s`)
+  const rematched = matchPhotosToRoutines(
+    owned.map(({ photo }) => ({ path: photo.filePath, captureTime: new Date(photo.captureTime) })),
+    windows,
+    clockOffsetMs,
+  )
+
+  let moved = 0
+  const changed = new Set<Routine>()
+  for (let i = 0; i < owned.length; i++) {
+    const { photo, routine: from } = owned[i]
+    const match = rematched[i]
+    photo.clockOffsetMs = clockOffsetMs
+    if ((match.matchedRoutineId ?? null) === (from?.id ?? null)) {
+      photo.confidence = match.confidence
+      continue
+    }
+    const to = match.matchedRoutineId ? comp.routines.find((r) => r.id === match.matchedRoutineId) ?? null : null
+    await relocatePhoto(photo, from, to, match.confidence)
+    if (to) changed.add(to)
+    moved++
+    if (moved % 10 === 0) await yieldToEventLoop()
+  }
+
+  logger.photos.info(`Offset applied: ${moved}/${owned.length} photos changed routine`)
+  state.saveState()
+  broadcastFullState()
+  for (const routine of changed) requeueUploads(routine)
+  return { moved }
+}
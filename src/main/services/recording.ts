@@ -9,16 +9,29 @@ import * as wsHub from './wsHub'
 import * as uploadService from './upload'
 import * as tether from './tether'
 import * as jobQueue from './jobQueue'
+import * as takes from './takes'
+import * as sceneRules from './sceneRules'
+import * as audioCheck from './audioCheck'
 import { getSettings } from './settings'
 import * as schedule from './schedule'
 import { dialog, BrowserWindow } from 'electron'
-import { IPC_CHANNELS, Routine } from '../../shared/types'
+import { AngleRole, CameraAngle, IPC_CHANNELS, Routine } from '../../shared/types'
 import { sendToRenderer } from '../ipcUtil'
 import { logger } from '../logger'
 
 // --- Active recording tracking ---
 let activeRecordingRoutineId: string | null = null
 let pendingStopProcessing: { promise: Promise<void>; resolve: () => void } | null = null
+let discardRoutineId: string | null = null // next stop is a false start — don't file it
+
+// --- Camera angles (additional OBS connections, see obsAngles.ts) ---
+// connectionId → routine its current recording belongs to
+const angleRecordings = new Map<string, { routineId: string; startedAt: string; discard?: boolean }>()
+// routineId → angle files still being moved into the routine dir
+const angleFilings = new Map<string, Promise<void>[]>()
+
+// Days whose day-ended scene rules already ran (competitionId:day)
+const endedDays = new Set<string>()
 
 // --- Navigation busy guard (prevents rapid double-advance) ---
 let navBusy = false
@@ -63,7 +76,7 @@ export async function confirmReRecordIfNeeded(): Promise<boolean> {
     type: 'warning',
     title: 'Re-record Routine?',
     message: `Routine #${routine.entryNumber} "${routine.routineTitle}" already has a recording (status: ${routine.status}).`,
-    detail: 'Starting a new recording will archive the existing files. Continue?',
+    detail: `The existing recording is kept as take ${routine.takeNumber ?? 1} and can be made primary again from the takes menu. Continue?`,
     buttons: ['Cancel', 'Re-record'],
     defaultId: 0,
     cancelId: 0,
@@ -108,15 +121,50 @@ async function stopRecordingAndWait(reason: string): Promise<boolean> {
   }
 }
 
-/** Calculate human-readable offset between scheduled time (HH:MM) and actual time */
-function calcOffset(scheduledTime: string, actual: Date): string {
+/**
+ * Stop the current recording as a false start: the raw file stays where OBS
+ * wrote it and the routine goes back to how it was before recording began.
+ */
+export async function discardRecording(): Promise<void> {
+  discardRoutineId = activeRecordingRoutineId
+  for (const rec of angleRecordings.values()) {
+    if (rec.routineId === discardRoutineId) rec.discard = true
+  }
+  const stopped = await stopRecordingAndWait('discard')
+  if (!stopped) discardRoutineId = null
+}
+
+export function getActiveRecordingRoutineId(): string | null {
+  return activeRecordingRoutineId
+}
+
+/** True the first time nothing is left to record on the routine's day. */
+function isDayFinished(routine: Routine): boolean {
+  const comp = state.getCompetition()
+  if (!comp) return false
+  const key = `${comp.competitionId}:${routine.scheduledDay}`
+  if (endedDays.has(key)) return false
+  const sameDay = comp.routines.filter(r => r.scheduledDay === routine.scheduledDay)
+  if (sameDay.some(r => r.status === 'pending' || r.status === 'recording')) return false
+  endedDays.add(key)
+  return true
+}
+
+/** Minutes between scheduled time (HH:MM) and actual time, positive = running late. Null if unparseable. */
+export function calcOffsetMinutes(scheduledTime: string, actual: Date): number | null {
   const [h, m] = scheduledTime.split(':').map(Number)
-  if (isNaN(h) || isNaN(m)) return 'invalid schedule time'
+  if (isNaN(h) || isNaN(m)) return null
   const scheduled = new Date(actual)
   scheduled.setHours(h, m, 0, 0)
-  const diffMs = actual.getTime() - scheduled.getTime()
-  const absDiffMin = Math.abs(Math.round(diffMs / 60000))
-  const sign = diffMs >= 0 ? '+' : '-'
+  return Math.round((actual.getTime() - scheduled.getTime()) / 60000)
+}
+
+/** Calculate human-readable offset between scheduled time (HH:MM) and actual time */
+export function calcOffset(scheduledTime: string, actual: Date): string {
+  const diffMin = calcOffsetMinutes(scheduledTime, actual)
+  if (diffMin === null) return 'invalid schedule time'
+  const absDiffMin = Math.abs(diffMin)
+  const sign = diffMin >= 0 ? '+' : '-'
   if (absDiffMin < 1) return 'on time'
   const hours = Math.floor(absDiffMin / 60)
   const mins = absDiffMin % 60
@@ -180,8 +228,24 @@ async function waitForFileLock(filePath: string, maxWaitMs = 30000): Promise<voi
   logger.app.warn(`File may still be locked after ${maxWaitMs / 1000}s: ${filePath}`)
 }
 
-async function archiveExistingFiles(routineDir: string): Promise<void> {
-  if (!fs.existsSync(routineDir)) return
+/** Rename, falling back to copy+delete across drives (EXDEV). */
+export async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.promises.rename(from, to)
+  } catch (renameErr: unknown) {
+    const code = (renameErr as NodeJS.ErrnoException).code
+    if (code === 'EXDEV') {
+      logger.app.info(`Cross-drive detected, copying: ${from} → ${to}`)
+      await fs.promises.copyFile(from, to)
+      await fs.promises.unlink(from)
+    } else {
+      throw renameErr
+    }
+  }
+}
+
+async function archiveExistingFiles(routineDir: string): Promise<string | null> {
+  if (!fs.existsSync(routineDir)) return null
 
   const archiveDir = path.join(routineDir, '_archive')
   let version = 1
@@ -203,6 +267,7 @@ async function archiveExistingFiles(routineDir: string): Promise<void> {
   }
 
   logger.app.info(`Archived existing files to ${versionDir}`)
+  return versionDir
 }
 
 export async function handleRecordingStopped(
@@ -228,11 +293,20 @@ export async function handleRecordingStopped(
       return
     }
 
+    if (routine.id === discardRoutineId) {
+      discardRoutineId = null
+      takes.discardPrimaryTake(routine.id)
+      logger.app.info(`Discarded false start on #${routine.entryNumber} — raw file left at: ${outputPath}`)
+      return
+    }
+
     // Update routine state
     state.updateRoutineStatus(routine.id, 'recorded', {
       recordingStoppedAt: timestamp,
       outputPath,
     })
+    sceneRules.emit('recording-stopped')
+    if (isDayFinished(routine)) sceneRules.emit('day-ended')
 
     const stopTime = new Date(timestamp)
     const stopStr = stopTime.toLocaleTimeString('en-US', { hour12: true, hour: '2-digit', minute: '2-digit', second: '2-digit' })
@@ -266,9 +340,12 @@ export async function handleRecordingStopped(
 
     logger.app.info(`Routine dir: ${routineDir}`)
 
-    // Check if we need to archive existing files (re-recording)
-    if (fs.existsSync(routineDir) && settings.behavior.confirmBeforeOverwrite) {
-      await archiveExistingFiles(routineDir)
+    // Check if we need to archive existing files (re-recording). Parked takes always
+    // get archived — their files would otherwise be overwritten by this take's.
+    const hasParkedTakes = (routine.takes?.length ?? 0) > 0
+    if (fs.existsSync(routineDir) && (settings.behavior.confirmBeforeOverwrite || hasParkedTakes)) {
+      const versionDir = await archiveExistingFiles(routineDir)
+      if (versionDir) takes.remapArchivedPaths(routine.id, routineDir, versionDir)
 
       // Clear stale upload jobs and photo state from previous recording
       const oldJobs = jobQueue.getByRoutine(routine.id).filter(j => j.type === 'upload')
@@ -278,6 +355,10 @@ export async function handleRecordingStopped(
       state.updateRoutineStatus(routine.id, routine.status, {
         photos: undefined,
         encodedFiles: undefined,
+        angles: undefined,
+        trim: undefined,
+        trimSuggestion: undefined,
+        audioCheck: undefined,
         uploadProgress: undefined,
         error: undefined,
       })
@@ -297,41 +378,23 @@ export async function handleRecordingStopped(
     // Wait for file lock release (OBS may still be writing) — retry loop instead of fixed 2s wait
     await waitForFileLock(outputPath)
 
-    // Try rename first (fast, same-drive). Fall back to copy+delete for cross-drive (EXDEV).
-    try {
-      await fs.promises.rename(outputPath, newPath)
-    } catch (renameErr: unknown) {
-      const code = (renameErr as NodeJS.ErrnoException).code
-      if (code === 'EXDEV') {
-        logger.app.info(`Cross-drive detected, copying: ${outputPath} → ${newPath}`)
-        await fs.promises.copyFile(outputPath, newPath)
-        await fs.promises.unlink(outputPath)
-      } else {
-        throw renameErr
-      }
-    }
+    await moveFile(outputPath, newPath)
 
     const stat = await fs.promises.stat(newPath)
     const fileSizeMB = (stat.size / (1024 * 1024)).toFixed(1)
     logger.app.info(`Moved: ${outputPath} → ${newPath} (${fileSizeMB} MB)`)
 
-    state.updateRoutineStatus(routine.id, 'recorded', { outputPath: newPath, outputDir: routineDir })
+    state.updateRoutineStatus(routine.id, 'recorded', {
+      outputPath: newPath,
+      outputDir: routineDir,
+      trimSuggestion: undefined,
+      audioCheck: undefined,
+    })
 
-    // Auto-encode if enabled
-    if (settings.behavior.autoEncodeRecordings) {
-      const queueBusy = ffmpegService.getQueueLength() > 0
-      state.updateRoutineStatus(routine.id, queueBusy ? 'queued' : 'encoding')
-      broadcastFullState()
-      ffmpegService.enqueueJob({
-        routineId: routine.id,
-        inputPath: newPath,
-        outputDir: routineDir,
-        judgeCount: settings.competition.judgeCount,
-        trackMapping: settings.audioTrackMapping,
-        processingMode: settings.ffmpeg.processingMode,
-        filePrefix: schedule.buildFilePrefix(routine.entryNumber),
-      })
-    }
+    // Trim suggestion and auto-encode run detached — the analysis shouldn't hold up Next
+    afterRecordingFiled(routine, newPath, routineDir).catch((err) => {
+      logger.app.warn(`Post-recording processing failed for #${routine.entryNumber}: ${err instanceof Error ? err.message : err}`)
+    })
 
     // Rescan watch folder — retry unmatched photos + pick up new files
     tether.rescanPhotos().catch((err) => {
@@ -355,9 +418,15 @@ export async function handleRecordingStarted(timestamp: string): Promise<void> {
 
   activeRecordingRoutineId = routine.id
 
+  // Re-dance: keep the earlier recording as a separate take
+  if (routine.status !== 'pending' && routine.status !== 'skipped') {
+    takes.setAsideForRetake(routine.id)
+  }
+
   state.updateRoutineStatus(routine.id, 'recording', {
     recordingStartedAt: timestamp,
   })
+  sceneRules.emit('routine-started')
 
   const now = new Date(timestamp)
   const timeStr = now.toLocaleTimeString('en-US', { hour12: true, hour: '2-digit', minute: '2-digit', second: '2-digit' })
@@ -377,6 +446,152 @@ export async function handleRecordingStarted(timestamp: string): Promise<void> {
   broadcastFullStateImmediate()
 }
 
+export function handleAngleRecordingStarted(connectionId: string, timestamp: string): void {
+  const routineId = activeRecordingRoutineId ?? state.getCurrentRoutine()?.id
+  if (!routineId) return
+  angleRecordings.set(connectionId, { routineId, startedAt: timestamp })
+}
+
+export function handleAngleRecordingStopped(
+  connectionId: string,
+  name: string,
+  role: AngleRole,
+  outputPath: string | undefined,
+  timestamp: string,
+): void {
+  const rec = angleRecordings.get(connectionId)
+  angleRecordings.delete(connectionId)
+  if (!rec) {
+    logger.app.warn(`Angle "${name}" stopped with no routine attached${outputPath ? ` — file left at: ${outputPath}` : ''}`)
+    return
+  }
+  if (rec.discard) {
+    logger.app.info(`Angle "${name}": false start discarded${outputPath ? ` — file left at: ${outputPath}` : ''}`)
+    return
+  }
+  const filing = fileAngleRecording(rec.routineId, connectionId, name, role, outputPath, rec.startedAt, timestamp)
+  angleFilings.set(rec.routineId, [...(angleFilings.get(rec.routineId) ?? []), filing])
+  filing.finally(() => {
+    const rest = (angleFilings.get(rec.routineId) ?? []).filter(p => p !== filing)
+    if (rest.length > 0) angleFilings.set(rec.routineId, rest)
+    else angleFilings.delete(rec.routineId)
+  })
+}
+
+/** Move an angle's file next to the routine's main recording and attach it to routine.angles. */
+async function fileAngleRecording(
+  routineId: string,
+  connectionId: string,
+  name: string,
+  role: AngleRole,
+  outputPath: string | undefined,
+  startedAt: string,
+  stoppedAt: string,
+): Promise<void> {
+  const angle: CameraAngle = {
+    connectionId,
+    name,
+    role,
+    recordingStartedAt: startedAt,
+    recordingStoppedAt: stoppedAt,
+  }
+  const findRoutine = (): Routine | undefined => state.getCompetition()?.routines.find(r => r.id === routineId)
+  try {
+    // The main file decides the routine dir and base name — wait for it to be filed
+    const deadline = Date.now() + 60000
+    while (Date.now() < deadline) {
+      const r = findRoutine()
+      if (!r || (r.status !== 'recording' && r.outputDir)) break
+      await sleep(500)
+    }
+    const routine = findRoutine()
+    if (!routine) return
+
+    if (!outputPath) throw new Error('no file reported (connection lost while recording?)')
+    if (!fs.existsSync(outputPath)) throw new Error(`file not reachable from this PC: ${outputPath}`)
+    if (!routine.outputDir || !routine.outputPath) throw new Error(`main recording was not filed — file left at: ${outputPath}`)
+
+    await waitForFileLock(outputPath)
+    const mainBase = path.basename(routine.outputPath, path.extname(routine.outputPath))
+    const newPath = path.join(routine.outputDir, `${mainBase}_${sanitize(name)}${path.extname(outputPath)}`)
+    await moveFile(outputPath, newPath)
+    angle.outputPath = newPath
+    logger.app.info(`Angle "${name}" for #${routine.entryNumber}: ${outputPath} → ${newPath}`)
+  } catch (err) {
+    angle.error = err instanceof Error ? err.message : String(err)
+    logger.app.warn(`Angle "${name}" for routine ${routineId}: ${angle.error}`)
+  }
+  const routine = findRoutine()
+  if (!routine) return
+  routine.angles = [...(routine.angles ?? []).filter(a => a.connectionId !== connectionId), angle]
+    .sort((a, b) => a.role.localeCompare(b.role, undefined, { numeric: true }))
+  state.saveState()
+  broadcastRoutineUpdate(routineId)
+}
+
+const AUTO_TRIM_MIN_CONFIDENCE = 0.8
+
+/** Audio check, silence analysis for a trim suggestion, then the auto-encode (if enabled). */
+async function afterRecordingFiled(routine: Routine, filePath: string, routineDir: string): Promise<void> {
+  const settings = getSettings()
+  // The audio check only raises alerts — don't hold the encode for it
+  audioCheck.checkRecording(routine, filePath).then(() => broadcastRoutineUpdate(routine.id), (err) => {
+    logger.app.warn(`Audio check failed for #${routine.entryNumber}: ${err instanceof Error ? err.message : err}`)
+  })
+
+  // Silence detection decodes the whole file: the encode waits for it only when an auto-trim could change what gets encoded
+  if (settings.behavior.autoTrimHighConfidence) {
+    await suggestTrim(routine, filePath, true)
+    if (routine.outputPath !== filePath) return // re-recorded or switched take meanwhile
+  } else if (settings.behavior.suggestTrim) {
+    suggestTrim(routine, filePath, false).catch((err) => {
+      logger.app.warn(`Trim detection failed for #${routine.entryNumber}: ${err instanceof Error ? err.message : err}`)
+    })
+  }
+
+  if (settings.behavior.autoEncodeRecordings) {
+    await waitForAngles(routine.id) // so the encode picks up the side angles too
+    if (routine.outputPath !== filePath) return
+    const queueBusy = ffmpegService.getQueueLength() > 0
+    state.updateRoutineStatus(routine.id, queueBusy ? 'queued' : 'encoding')
+    broadcastFullState()
+    ffmpegService.enqueueJob({
+      routineId: routine.id,
+      inputPath: filePath,
+      outputDir: routineDir,
+      judgeCount: settings.competition.judgeCount,
+      trackMapping: settings.audioTrackMapping,
+      processingMode: settings.ffmpeg.processingMode,
+      filePrefix: schedule.buildFilePrefix(routine.entryNumber),
+    })
+  }
+}
+
+/** Store a silence-based trim suggestion for the recording, and apply it when `autoTrim` and it's confident. */
+async function suggestTrim(routine: Routine, filePath: string, autoTrim: boolean): Promise<void> {
+  const suggestion = await ffmpegService.detectTrim(filePath, routine.durationMinutes > 0 ? routine.durationMinutes * 60 : undefined)
+  if (!suggestion || routine.outputPath !== filePath) return // re-recorded or switched take meanwhile
+  const trimmable = suggestion.inSec > 0 || suggestion.outSec != null
+  logger.app.info(`Trim suggestion for #${routine.entryNumber}: ${trimmable
+    ? `${suggestion.inSec}s → ${suggestion.outSec ?? 'end'}` : 'nothing to trim'} (confidence ${suggestion.confidence})`)
+  routine.trimSuggestion = suggestion
+  state.saveState()
+  if (autoTrim && trimmable && !routine.trim && suggestion.confidence >= AUTO_TRIM_MIN_CONFIDENCE) {
+    state.setRoutineTrim(routine.id, { inSec: suggestion.inSec, outSec: suggestion.outSec })
+    logger.app.info(`Auto-trimmed #${routine.entryNumber}`)
+  }
+  broadcastRoutineUpdate(routine.id)
+}
+
+/** Wait (bounded) for angles still recording this routine to stop, then for their files to be filed. */
+async function waitForAngles(routineId: string): Promise<void> {
+  const deadline = Date.now() + 20000
+  while ([...angleRecordings.values()].some(r => r.routineId === routineId) && Date.now() < deadline) {
+    await sleep(250)
+  }
+  await Promise.allSettled(angleFilings.get(routineId) ?? [])
+}
+
 export async function next(): Promise<void> {
   if (navBusy) { logger.app.debug('next() blocked — already in progress'); return }
   navBusy = true
@@ -0,0 +1,69 @@
+import { SceneRule, SceneRuleAction, SceneRuleEvent } from '../../shared/types'
+import { logger } from '../logger'
+import { getSettings } from './settings'
+import * as obs from './obs'
+
+// OBS automation keyed on routine lifecycle events. Rules live in
+// settings.sceneRules; every enabled rule for an event runs its actions in
+// order after its delay. Failures are logged and never hold up recording.
+
+function describe(action: SceneRuleAction): string {
+  switch (action.type) {
+    case 'switch-scene':
+      return `switch to scene "${action.sceneName}"`
+    case 'source-visibility':
+      return `${action.visible ? 'show' : 'hide'} "${action.sourceName}" in "${action.sceneName}"`
+    case 'input-mute':
+      return `${action.muted ? 'mute' : 'unmute'} "${action.inputName}"`
+    case 'input-volume':
+      return `set "${action.inputName}" to ${action.volumeDb} dB`
+  }
+}
+
+async function runAction(action: SceneRuleAction): Promise<void> {
+  switch (action.type) {
+    case 'switch-scene':
+      return obs.setCurrentScene(action.sceneName)
+    case 'source-visibility':
+      return obs.setSourceVisible(action.sceneName, action.sourceName, action.visible)
+    case 'input-mute':
+      return obs.setInputMute(action.inputName, action.muted)
+    case 'input-volume':
+      return obs.setInputVolume(action.inputName, action.volumeDb)
+  }
+}
+
+/** Run a rule's actions now. Returns one message per failed action (a failure doesn't stop the rest). */
+export async function runRule(rule: SceneRule): Promise<string[]> {
+  if (obs.getState().connectionStatus !== 'connected') return ['OBS not connected']
+  const errors: string[] = []
+  for (const action of rule.actions) {
+    try {
+      await runAction(action)
+    } catch (err) {
+      const msg = `${describe(action)}: ${err instanceof Error ? err.message : err}`
+      logger.obs.warn(`Scene rule "${rule.name}" — ${msg}`)
+      errors.push(msg)
+    }
+  }
+  return errors
+}
+
+export function emit(event: SceneRuleEvent): void {
+  const cfg = getSettings().sceneRules
+  if (!cfg.enabled) return
+  const rules = cfg.rules.filter(r => r.enabled && r.event === event && r.actions.length > 0)
+  if (rules.length === 0) return
+  if (obs.getState().connectionStatus !== 'connected') {
+    logger.obs.warn(`Scene rules for ${event} skipped — OBS not connected`)
+    return
+  }
+  for (const rule of rules) {
+    const fire = (): void => {
+      logger.obs.info(`Scene rule "${rule.name}" (${event}): ${rule.actions.map(describe).join(', ')}`)
+      runRule(rule).catch(() => {}) // failures already logged per action
+    }
+    if (rule.delayMs > 0) setTimeout(fire, rule.delayMs)
+    else fire()
+  }
+}
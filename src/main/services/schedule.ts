@@ -2,51 +2,23 @@ import Papa from 'papaparse'
 import * as XLSX from 'xlsx'
 import fs from 'fs'
 import path from 'path'
-import { Competition, Routine } from '../../shared/types'
+import { Competition, Routine, ColumnMapping, ScheduleField, ScheduleFileInspection, ScheduleImportOptions } from '../../shared/types'
 import { logger } from '../logger'
-
-interface CSVRow {
-  tenant_id?: string
-  competition_id?: string
-  entry_id: string
-  entry_number: string
-  routine_title: string
-  dancers: string
-  studio_name: string
-  studio_code: string
-  category: string
-  classification: string
-  age_group: string
-  size_category: string
-  duration_minutes: string
-  scheduled_day: string
-  scheduled_time?: string
-  position: string
-}
-
-function rowToRoutine(row: CSVRow, index: number): Routine {
-  return {
-    id: row.entry_id || `local-${index}`,
-    entryNumber: row.entry_number || String(index + 1),
-    routineTitle: row.routine_title || 'Untitled',
-    dancers: row.dancers || '',
-    studioName: row.studio_name || '',
-    studioCode: row.studio_code || '',
-    category: row.category || '',
-    classification: row.classification || '',
-    ageGroup: row.age_group || '',
-    sizeCategory: row.size_category || '',
-    durationMinutes: parseFloat(row.duration_minutes) || 3,
-    scheduledDay: row.scheduled_day || '',
-    scheduledTime: row.scheduled_time || undefined,
-    position: parseInt(row.position) || index + 1,
-    status: 'pending',
-  }
+import * as localMirror from './localMirror'
+import * as scheduleImport from './scheduleImport'
+
+/** A schedule file read as plain text cells, before any column mapping. */
+interface RawTable {
+  sheets: string[] // workbook sheet names, [] for CSV
+  sheet: string | null // sheet read ('*' = all), null for CSV
+  headers: string[]
+  rows: Array<Record<string, string>>
 }
 
-export function parseCSV(filePath: string): Competition {
-  logger.schedule.info(`Parsing CSV: ${filePath}`)
+// Pseudo-column holding the sheet name when all sheets are read (e.g. one sheet per day)
+export const SHEET_NAME_COLUMN = '(sheet name)'
 
+function readCSVTable(filePath: string): RawTable {
   let content: string
   try {
     content = fs.readFileSync(filePath, 'utf-8')
@@ -56,53 +28,34 @@ export function parseCSV(filePath: string): Competition {
     throw new Error(`Cannot read file: ${msg}`)
   }
 
-  const result = Papa.parse<CSVRow>(content, {
+  const result = Papa.parse<Record<string, string>>(content, {
     header: true,
     skipEmptyLines: true,
-    transformHeader: (h) => h.trim().toLowerCase().replace(/\s+/g, '_'),
+    transformHeader: (h) => h.trim(),
   })
 
   if (result.errors.length > 0) {
     logger.schedule.warn('CSV parse warnings:', result.errors)
   }
 
-  if (result.data.length === 0) {
-    logger.schedule.warn('CSV file is empty or has no valid rows')
-    throw new Error('CSV file contains no data rows')
-  }
-
-  const routines = result.data.map((row, i) => rowToRoutine(row, i))
-
-  // Extract tenant_id and competition_id from first row if present
-  const firstRow = result.data[0]
-  const tenantId = firstRow?.tenant_id || ''
-  const competitionId = firstRow?.competition_id || ''
-
-  // Extract unique days
-  const days = [...new Set(routines.map((r) => r.scheduledDay).filter(Boolean))]
-
-  // Derive competition name from filename
-  const name = path.basename(filePath, path.extname(filePath)).replace(/[-_]/g, ' ')
-
-  const competition: Competition = {
-    tenantId,
-    competitionId,
-    name,
-    routines: routines.sort((a, b) => a.position - b.position),
-    days,
-    source: 'csv',
-    loadedAt: new Date().toISOString(),
-  }
-
-  logger.schedule.info(
-    `Loaded ${routines.length} routines, ${days.length} days, tenant: ${tenantId || '(none)'}`,
-  )
-  return competition
+  return { sheets: [], sheet: null, headers: (result.meta.fields || []).filter(Boolean), rows: result.data }
 }
 
-export function parseXLSX(filePath: string): Competition {
-  logger.schedule.info(`Parsing XLSX: ${filePath}`)
+function readSheet(workbook: XLSX.WorkBook, name: string): { headers: string[]; rows: Array<Record<string, string>> } {
+  const sheet = workbook.Sheets[name]
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false, blankrows: false })
+  const headers = (grid[0] || []).map(h => String(h).trim())
+  const rows = grid.slice(1).map((cells) => {
+    const row: Record<string, string> = {}
+    headers.forEach((h, i) => {
+      if (h) row[h] = String(cells[i] ?? '')
+    })
+    return row
+  })
+  return { headers: headers.filter(Boolean), rows }
+}
 
+function readXLSXTable(filePath: string, sheet?: string): RawTable {
   let workbook: XLSX.WorkBook
   try {
     workbook = XLSX.readFile(filePath)
@@ -111,29 +64,91 @@ export function parseXLSX(filePath: string): Competition {
     logger.schedule.error(`Failed to read XLSX file: ${msg}`)
     throw new Error(`Cannot read file: ${msg}`)
   }
-  const sheetName = workbook.SheetNames[0]
-  const sheet = workbook.Sheets[sheetName]
+  const sheets = workbook.SheetNames
+
+  if (sheet === '*') {
+    const headers: string[] = []
+    const rows: Array<Record<string, string>> = []
+    for (const name of sheets) {
+      const t = readSheet(workbook, name)
+      for (const h of t.headers) if (!headers.includes(h)) headers.push(h)
+      for (const row of t.rows) rows.push({ ...row, [SHEET_NAME_COLUMN]: name })
+    }
+    return { sheets, sheet, headers: [...headers, SHEET_NAME_COLUMN], rows }
+  }
 
-  const rows = XLSX.utils.sheet_to_json<CSVRow>(sheet, {
-    defval: '',
-    raw: false,
-  })
+  if (sheet && !sheets.includes(sheet)) throw new Error(`Sheet not found: ${sheet}`)
+  // Default to the first sheet with data — skips cover/notes sheets
+  const name = sheet || sheets.find(n => readSheet(workbook, n).rows.length > 0) || sheets[0]
+  return { sheets, sheet: name, ...readSheet(workbook, name) }
+}
 
-  // Normalize header names
-  const normalizedRows = rows.map((row) => {
-    const normalized: Record<string, string> = {}
-    for (const [key, value] of Object.entries(row)) {
-      normalized[key.trim().toLowerCase().replace(/\s+/g, '_')] = String(value)
-    }
-    return normalized as unknown as CSVRow
-  })
+function readTable(filePath: string, sheet?: string): RawTable {
+  const ext = path.extname(filePath).toLowerCase()
+  if (ext === '.csv') {
+    return readCSVTable(filePath)
+  } else if (ext === '.xls' || ext === '.xlsx') {
+    return readXLSXTable(filePath, sheet)
+  }
+  throw new Error(`Unsupported file format: ${ext}`)
+}
+
+function rowToRoutine(row: Record<string, string>, columns: ColumnMapping, index: number): Routine {
+  const get = (field: ScheduleField): string => {
+    const header = columns[field]
+    return header ? (row[header] ?? '').trim() : ''
+  }
+  let scheduledDay = get('scheduledDay')
+  let scheduledTime = get('scheduledTime') ? scheduleImport.normalizeTime(get('scheduledTime')) : ''
+  const combined = get('scheduledDateTime') ? scheduleImport.splitDateTime(get('scheduledDateTime')) : null
+  if (combined) {
+    scheduledDay = scheduledDay || combined.day
+    scheduledTime = scheduledTime || combined.time
+  }
+
+  return {
+    id: get('entryId') || `local-${index}`,
+    entryNumber: get('entryNumber') || String(index + 1),
+    routineTitle: get('routineTitle') || 'Untitled',
+    dancers: get('dancers'),
+    studioName: get('studioName'),
+    studioCode: get('studioCode'),
+    category: get('category'),
+    classification: get('classification'),
+    ageGroup: get('ageGroup'),
+    sizeCategory: get('sizeCategory'),
+    durationMinutes: parseFloat(get('durationMinutes')) || 3,
+    scheduledDay,
+    scheduledTime: scheduledTime || undefined,
+    position: parseInt(get('position')) || index + 1,
+    status: 'pending',
+  }
+}
+
+function buildCompetition(filePath: string, table: RawTable, columns: ColumnMapping): Competition {
+  if (table.rows.length === 0) {
+    logger.schedule.warn('Schedule file is empty or has no valid rows')
+    throw new Error('Schedule file contains no data rows')
+  }
+  if (!columns.entryNumber && !columns.routineTitle) {
+    throw new Error('No entry number or routine title column found — map the columns for this file')
+  }
+
+  const routines = table.rows.map((row, i) => rowToRoutine(row, columns, i))
+  // Positions that repeat (e.g. restarting on each day's sheet) can't order the day — use file order
+  if (new Set(routines.map(r => r.position)).size !== routines.length) {
+    routines.forEach((r, i) => { r.position = i + 1 })
+  }
 
-  const routines = normalizedRows.map((row, i) => rowToRoutine(row, i))
+  // Extract tenant_id and competition_id from first row if present
+  const firstRow = table.rows[0]
+  const tenantId = columns.tenantId ? (firstRow[columns.tenantId] || '').trim() : ''
+  const competitionId = columns.competitionId ? (firstRow[columns.competitionId] || '').trim() : ''
 
-  const firstRow = normalizedRows[0]
-  const tenantId = firstRow?.tenant_id || ''
-  const competitionId = firstRow?.competition_id || ''
+  // Extract unique days
   const days = [...new Set(routines.map((r) => r.scheduledDay).filter(Boolean))]
+
+  // Derive competition name from filename
   const name = path.basename(filePath, path.extname(filePath)).replace(/[-_]/g, ' ')
 
   const competition: Competition = {
@@ -146,18 +161,58 @@ export function parseXLSX(filePath: string): Competition {
     loadedAt: new Date().toISOString(),
   }
 
-  logger.schedule.info(`Loaded ${routines.length} routines from XLSX`)
+  logger.schedule.info(
+    `Loaded ${routines.length} routines, ${days.length} days, tenant: ${tenantId || '(none)'}`,
+  )
   return competition
 }
 
-export function loadSchedule(filePath: string): Competition {
-  const ext = path.extname(filePath).toLowerCase()
-  if (ext === '.csv') {
-    return parseCSV(filePath)
-  } else if (ext === '.xls' || ext === '.xlsx') {
-    return parseXLSX(filePath)
+/**
+ * Load a CSV/XLSX schedule. Without explicit options, a saved profile matching the
+ * file's header signature is used, else a mapping guessed from the header names.
+ */
+export function loadSchedule(filePath: string, options?: ScheduleImportOptions): Competition {
+  logger.schedule.info(`Parsing schedule: ${filePath}`)
+  let table = readTable(filePath, options?.sheet)
+  let columns = options?.columns
+  if (!columns) {
+    const profile = scheduleImport.matchProfile(table.headers)
+    if (profile) {
+      logger.schedule.info(`Using column mapping profile "${profile.name}"`)
+      if (profile.sheet && profile.sheet !== table.sheet) table = readTable(filePath, profile.sheet)
+      columns = profile.columns
+    } else {
+      columns = scheduleImport.guessColumns(table.headers)
+    }
   }
-  throw new Error(`Unsupported file format: ${ext}`)
+  return buildCompetition(filePath, table, columns)
+}
+
+/** Headers, sheets, sample rows and the mapping that would be used — for the mapping wizard. */
+export function inspectScheduleFile(filePath: string, sheet?: string): ScheduleFileInspection {
+  const base = readTable(filePath)
+  const profile = scheduleImport.matchProfile(base.headers)
+  const table = sheet !== undefined && sheet !== base.sheet
+    ? readTable(filePath, sheet)
+    : profile?.sheet && profile.sheet !== base.sheet ? readTable(filePath, profile.sheet) : base
+  const useProfile = profile && (sheet === undefined || sheet === (profile.sheet ?? base.sheet))
+  const columns = useProfile ? profile.columns : scheduleImport.guessColumns(table.headers)
+  return {
+    filePath,
+    sheets: table.sheets,
+    sheet: table.sheet,
+    headerSignature: scheduleImport.headerSignature(base.headers),
+    headers: table.headers,
+    sampleRows: table.rows.slice(0, 5),
+    profile,
+    columns,
+    needsMapping: !profile && !scheduleImport.hasRequiredColumns(columns),
+  }
+}
+
+/** First routines a mapping produces, in schedule order — the wizard's live preview. */
+export function previewMapping(filePath: string, options: ScheduleImportOptions, limit = 8): Routine[] {
+  return buildCompetition(filePath, readTable(filePath, options.sheet), options.columns).routines.slice(0, limit)
 }
 
 /** Resolved connection data — stored after share code resolution for use by upload service */
@@ -176,6 +231,11 @@ export function getResolvedConnection(): ResolvedConnection | null {
   return resolvedConnection
 }
 
+/** Put back a previously resolved connection (e.g. a share-code reload preview was discarded) */
+export function restoreResolvedConnection(conn: ResolvedConnection | null): void {
+  resolvedConnection = conn
+}
+
 /** Clear resolved connection (e.g. when loading a new competition) */
 export function clearResolvedConnection(): void {
   resolvedConnection = null
@@ -188,6 +248,14 @@ export async function resolveShareCode(shareCode: string): Promise<ResolvedConne
   const code = shareCode.trim().toUpperCase()
   logger.schedule.info(`Resolving share code: ${code}`)
 
+  // LOCAL-<NAME> codes are served by the built-in mirror (rehearsals, tests)
+  if (localMirror.isLocalShareCode(code)) {
+    const data = await localMirror.resolve(code)
+    logger.schedule.info(`Share code resolved to local mirror: ${data.name}`)
+    resolvedConnection = data
+    return data
+  }
+
   const abort = new AbortController()
   const timer = setTimeout(() => abort.abort(), API_TIMEOUT_MS)
   try {
@@ -214,9 +282,14 @@ export async function resolveShareCode(shareCode: string): Promise<ResolvedConne
 /** Load schedule via share code — resolves code then fetches schedule */
 export async function loadFromShareCode(shareCode: string): Promise<Competition> {
   const resolved = await resolveShareCode(shareCode)
-
   logger.schedule.info(`Loading schedule from ${resolved.apiBase}/api/plugin/schedule/${resolved.competitionId}`)
+  const data = await fetchSchedule(resolved)
+  logger.schedule.info(`Loaded ${data.routines.length} routines from share code`)
+  return data
+}
 
+/** Fetch the competition schedule for an already-resolved connection (initial load + periodic sync) */
+export async function fetchSchedule(resolved: ResolvedConnection): Promise<Competition> {
   const abort = new AbortController()
   const timer = setTimeout(() => abort.abort(), API_TIMEOUT_MS)
   let data: unknown
@@ -237,7 +310,6 @@ export async function loadFromShareCode(shareCode: string): Promise<Competition>
   } finally {
     clearTimeout(timer)
   }
-  logger.schedule.info(`Loaded ${data.routines.length} routines from share code`)
   return data as Competition
 }
 
@@ -0,0 +1,173 @@
+import crypto from 'crypto'
+import { Competition, Routine, RoutineStatus, ScheduleChange, ScheduleDiff } from '../../shared/types'
+import { logger } from '../logger'
+import * as state from './state'
+import { getResolvedConnection, restoreResolvedConnection, ResolvedConnection } from './schedule'
+
+// Reload-with-review: instead of replacing the loaded competition, an incoming
+// schedule (file or share code) is held here, diffed against the live one, and
+// only the changes the operator accepts are applied. Routines that already have
+// media are locked — none of their changes can be applied.
+
+const UNLOCKED_STATUSES: RoutineStatus[] = ['pending', 'skipped']
+const POSITIONAL_ID = /^local-\d+$/ // rows without an entry id (schedule.rowToRoutine)
+
+// Schedule fields reported together as a single 'details' change
+const DETAIL_FIELDS = [
+  'dancers', 'studioName', 'studioCode', 'category', 'classification', 'ageGroup',
+  'sizeCategory', 'durationMinutes', 'scheduledDay', 'scheduledTime', 'position',
+] as const
+
+interface PendingReload {
+  incoming: Competition
+  source: 'file' | 'share-code'
+  previousConnection: ResolvedConnection | null // restored if the reload is discarded
+}
+
+let pending: PendingReload | null = null
+
+function isLocked(r: Routine): boolean {
+  return !UNLOCKED_STATUSES.includes(r.status)
+}
+
+/**
+ * Rows without an entry id are numbered by their row, so one inserted row
+ * shifts every later id. Match those to the loaded routines by entry number
+ * instead; the ones that match nothing get an id that can't collide.
+ */
+function alignPositionalIds(current: Competition, incoming: Competition): Competition {
+  if (!incoming.routines.some(r => POSITIONAL_ID.test(r.id))) return incoming
+  const realIds = new Set(incoming.routines.filter(r => !POSITIONAL_ID.test(r.id)).map(r => r.id))
+  const currentByEntry = new Map<string, Routine>()
+  for (const cur of current.routines) {
+    if (!cur.localOnly && !realIds.has(cur.id) && !currentByEntry.has(cur.entryNumber)) currentByEntry.set(cur.entryNumber, cur)
+  }
+  const routines = incoming.routines.map(inc => {
+    if (!POSITIONAL_ID.test(inc.id)) return inc
+    const cur = currentByEntry.get(inc.entryNumber)
+    if (cur) currentByEntry.delete(inc.entryNumber)
+    return { ...inc, id: cur ? cur.id : `local-${crypto.randomUUID()}` }
+  })
+  return { ...incoming, routines }
+}
+
+function diff(current: Competition, incoming: Competition): ScheduleChange[] {
+  const changes: ScheduleChange[] = []
+  const currentById = new Map(current.routines.map(r => [r.id, r]))
+  const incomingIds = new Set(incoming.routines.map(r => r.id))
+
+  for (const inc of incoming.routines) {
+    const cur = currentById.get(inc.id)
+    if (!cur) {
+      changes.push({ id: `added:${inc.id}`, kind: 'added', routineId: inc.id, entryNumber: inc.entryNumber, after: inc.routineTitle, locked: false })
+      continue
+    }
+    const locked = isLocked(cur)
+    if (cur.entryNumber !== inc.entryNumber) {
+      changes.push({ id: `renumbered:${inc.id}`, kind: 'renumbered', routineId: inc.id, entryNumber: cur.entryNumber, before: cur.entryNumber, after: inc.entryNumber, locked })
+    }
+    if (cur.routineTitle !== inc.routineTitle) {
+      changes.push({ id: `retitled:${inc.id}`, kind: 'retitled', routineId: inc.id, entryNumber: cur.entryNumber, before: cur.routineTitle, after: inc.routineTitle, locked })
+    }
+    const fields = DETAIL_FIELDS.filter(f => cur[f] !== inc[f])
+    if (fields.length > 0) {
+      changes.push({
+        id: `details:${inc.id}`,
+        kind: 'details',
+        routineId: inc.id,
+        entryNumber: cur.entryNumber,
+        before: fields.map(f => `${f}: ${cur[f] ?? '—'}`).join(', '),
+        after: fields.map(f => `${f}: ${inc[f] ?? '—'}`).join(', '),
+        locked,
+      })
+    }
+  }
+
+  for (const cur of current.routines) {
+    if (incomingIds.has(cur.id) || cur.localOnly) continue // operator-added routines aren't in any schedule
+    changes.push({ id: `removed:${cur.id}`, kind: 'removed', routineId: cur.id, entryNumber: cur.entryNumber, before: cur.routineTitle, locked: isLocked(cur) })
+  }
+  return changes
+}
+
+/** Hold an incoming schedule and return its diff against the loaded one. */
+export function preview(incoming: Competition, source: PendingReload['source'], previousConnection: ResolvedConnection | null): ScheduleDiff {
+  const current = state.getCompetition()
+  const sameCompetition = current?.competitionId === incoming.competitionId
+  // A different competition is a switch, not a reload — nothing to diff
+  if (current && sameCompetition) incoming = alignPositionalIds(current, incoming)
+  pending = { incoming, source, previousConnection }
+  const changes = current && sameCompetition ? diff(current, incoming) : []
+  logger.schedule.info(`Reload preview (${source}): ${changes.length} changes, ${changes.filter(c => c.locked).length} locked`)
+  return {
+    name: incoming.name,
+    source,
+    hasCurrent: current !== null,
+    sameCompetition,
+    currentCount: current?.routines.length ?? 0,
+    incomingCount: incoming.routines.length,
+    changes,
+  }
+}
+
+/** Apply the accepted changes from the pending reload. Locked changes are ignored even if listed. */
+export function apply(acceptedIds: string[]): { competition: Competition; source: PendingReload['source'] } {
+  if (!pending) throw new Error('No schedule reload pending')
+  const { incoming, source } = pending
+  pending = null
+
+  const current = state.getCompetition()
+  if (!current || current.competitionId !== incoming.competitionId) {
+    state.setCompetition(incoming)
+    return { competition: incoming, source }
+  }
+
+  const accepted = new Set(
+    diff(current, incoming).filter(c => !c.locked && acceptedIds.includes(c.id)).map(c => c.id),
+  )
+  const currentById = new Map(current.routines.map(r => [r.id, r]))
+  const incomingIds = new Set(incoming.routines.map(r => r.id))
+  const merged: Routine[] = []
+
+  for (const inc of incoming.routines) {
+    const cur = currentById.get(inc.id)
+    if (!cur) {
+      if (accepted.has(`added:${inc.id}`)) merged.push({ ...inc, status: 'pending' })
+      continue
+    }
+    if (accepted.has(`renumbered:${inc.id}`)) cur.entryNumber = inc.entryNumber
+    if (accepted.has(`retitled:${inc.id}`)) cur.routineTitle = inc.routineTitle
+    if (accepted.has(`details:${inc.id}`)) {
+      for (const f of DETAIL_FIELDS) (cur as unknown as Record<string, unknown>)[f] = inc[f]
+    }
+    merged.push(cur)
+  }
+  for (const cur of current.routines) {
+    if (incomingIds.has(cur.id)) continue
+    if (!accepted.has(`removed:${cur.id}`)) merged.push(cur)
+  }
+  merged.sort((a, b) => a.position - b.position)
+
+  const competition: Competition = {
+    ...incoming,
+    routines: merged,
+    days: [...new Set([...incoming.days, ...merged.map(r => r.scheduledDay).filter(Boolean)])],
+    loadedAt: new Date().toISOString(),
+    auditLog: current.auditLog,
+    clockSyncs: current.clockSyncs,
+    unmatchedPhotos: current.unmatchedPhotos,
+  }
+  state.replaceCompetition(competition)
+  logger.schedule.info(`Reload applied: ${accepted.size} changes accepted, ${merged.length} routines`)
+  return { competition, source }
+}
+
+/** Drop the pending reload, putting back the upload connection if a share-code preview replaced it. */
+export function discard(): void {
+  if (!pending) return
+  if (pending.source === 'share-code' && getResolvedConnection() !== pending.previousConnection) {
+    restoreResolvedConnection(pending.previousConnection)
+  }
+  logger.schedule.info('Reload preview discarded')
+  pending = null
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto'
+import { ColumnMapping, ColumnMappingProfile, ScheduleField } from '../../shared/types'
+import { logger } from '../logger'
+import { getSettings, setSettings } from './settings'
+
+// Column mapping for vendor schedule exports. A file's format is identified by
+// its header signature (normalized, sorted headers); saved profiles with the
+// same signature are applied automatically on the next load.
+
+/** Header aliases (normalized) tried in order when guessing a mapping. First entries are our own CSV headers. */
+const FIELD_ALIASES: Record<ScheduleField, string[]> = {
+  entryId: ['entry_id', 'id', 'entry_uuid'],
+  entryNumber: ['entry_number', 'entry_no', 'entry_#', 'entry', 'routine_number', 'routine_#', 'number', 'no', '#'],
+  routineTitle: ['routine_title', 'title', 'routine_name', 'routine', 'dance_title', 'dance_name', 'dance'],
+  dancers: ['dancers', 'dancer_names', 'dancer', 'performers', 'participants'],
+  studioName: ['studio_name', 'studio', 'school', 'school_name'],
+  studioCode: ['studio_code', 'code'],
+  category: ['category', 'style', 'genre', 'dance_style'],
+  classification: ['classification', 'level', 'division'],
+  ageGroup: ['age_group', 'age_division', 'age_category', 'age'],
+  sizeCategory: ['size_category', 'group_size', 'size'],
+  durationMinutes: ['duration_minutes', 'duration', 'length', 'minutes'],
+  scheduledDay: ['scheduled_day', 'day', 'date', 'performance_date'],
+  scheduledTime: ['scheduled_time', 'time', 'start_time', 'performance_time'],
+  scheduledDateTime: ['scheduled_at', 'date_time', 'datetime', 'start_date_time', 'start'],
+  position: ['position', 'order', 'running_order', 'sequence', 'seq'],
+  tenantId: ['tenant_id'],
+  competitionId: ['competition_id'],
+}
+
+export const REQUIRED_FIELDS: ScheduleField[] = ['entryNumber', 'routineTitle']
+
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9#]+/g, '_').replace(/^_+|_+$/g, '')
+}
+
+export function headerSignature(headers: string[]): string {
+  return [...new Set(headers.map(normalizeHeader).filter(Boolean))].sort().join(',')
+}
+
+/** Best-effort mapping from header names alone. */
+export function guessColumns(headers: string[]): ColumnMapping {
+  const byNormalized = new Map<string, string>()
+  for (const h of headers) {
+    const n = normalizeHeader(h)
+    if (n && !byNormalized.has(n)) byNormalized.set(n, h)
+  }
+  const used = new Set<string>()
+  const columns: ColumnMapping = {}
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as Array<[ScheduleField, string[]]>) {
+    const hit = aliases.map(a => byNormalized.get(a)).find(h => h !== undefined && !used.has(h))
+    if (hit) {
+      columns[field] = hit
+      used.add(hit)
+    }
+  }
+  // A lone date column holding date + time is a combined column, not a day
+  if (!columns.scheduledTime && !columns.scheduledDateTime && columns.scheduledDay && /date/i.test(columns.scheduledDay)) {
+    columns.scheduledDateTime = columns.scheduledDay
+    delete columns.scheduledDay
+  }
+  return columns
+}
+
+export function hasRequiredColumns(columns: ColumnMapping): boolean {
+  return REQUIRED_FIELDS.every(f => !!columns[f])
+}
+
+export function listProfiles(): ColumnMappingProfile[] {
+  return getSettings().scheduleImport.profiles
+}
+
+export function matchProfile(headers: string[]): ColumnMappingProfile | null {
+  const signature = headerSignature(headers)
+  return listProfiles().find(p => p.headerSignature === signature) ?? null
+}
+
+/** Save a profile. Replaces one with the same id, or the same header signature. */
+export function saveProfile(input: Omit<ColumnMappingProfile, 'id'> & { id?: string }): ColumnMappingProfile[] {
+  const profile: ColumnMappingProfile = {
+    id: input.id || crypto.randomUUID(),
+    name: input.name.trim() || 'Untitled profile',
+    headerSignature: input.headerSignature,
+    columns: input.columns,
+    sheet: input.sheet,
+  }
+  const profiles = listProfiles().filter(p => p.id !== profile.id && p.headerSignature !== profile.headerSignature)
+  profiles.push(profile)
+  setSettings({ scheduleImport: { profiles } })
+  logger.schedule.info(`Saved column mapping profile "${profile.name}"`)
+  return profiles
+}
+
+const pad = (n: number): string => String(n).padStart(2, '0')
+
+function to24h(hours: number, minutes: number, meridiem?: string): string | null {
+  if (meridiem) {
+    const pm = meridiem.toLowerCase().startsWith('p')
+    if (hours < 1 || hours > 12) return null
+    hours = (hours % 12) + (pm ? 12 : 0)
+  }
+  if (hours > 23 || minutes > 59) return null
+  return `${pad(hours)}:${pad(minutes)}`
+}
+
+/** "2:30 PM", "14:30", "14:30:00" → "14:30". Unrecognized values are returned as-is. */
+export function normalizeTime(value: string): string {
+  const m = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*([ap]\.?m\.?)?$/i)
+  if (!m) return value.trim()
+  return to24h(Number(m[1]), Number(m[2]), m[3]) ?? value.trim()
+}
+
+/**
+ * Split a combined date/time cell into scheduledDay (YYYY-MM-DD) and scheduledTime (HH:MM).
+ * Handles ISO ("2026-04-23 14:30", "2026-04-23T14:30:00") and US ("4/23/2026 2:30 PM").
+ */
+export function splitDateTime(value: string): { day: string; time: string } | null {
+  const v = value.trim()
+  const time = '\\s*(?:T|\\s|,)\\s*(\\d{1,2}):(\\d{2})(?::\\d{2}(?:\\.\\d+)?)?\\s*([ap]\\.?m\\.?)?'
+  const iso = v.match(new RegExp(`^(\\d{4})-(\\d{1,2})-(\\d{1,2})(?:${time})?`, 'i'))
+  const us = v.match(new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4}|\\d{2})(?:${time})?`, 'i'))
+
+  let year: number, month: number, day: number, rest: RegExpMatchArray
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    rest = iso
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])]
+    if (year < 100) year += 2000
+    rest = us
+  } else {
+    return null
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  const hhmm = rest[4] !== undefined ? to24h(Number(rest[4]), Number(rest[5]), rest[6]) : null
+  return { day: `${year}-${pad(month)}-${pad(day)}`, time: hhmm ?? '' }
+}
@@ -0,0 +1,160 @@
+import { RoutineStatus } from '../../shared/types'
+import { logger } from '../logger'
+import { getSettings } from './settings'
+import { getResolvedConnection, fetchSchedule, ResolvedConnection } from './schedule'
+import * as state from './state'
+import { broadcastFullState, calcOffsetMinutes } from './recording'
+
+// Two-way schedule sync with CompSync, while a share-code competition is loaded:
+//   pull — re-fetch the schedule and merge tabulator changes (adds, scratches,
+//          reorders) into the live competition via state.mergeCompetition
+//   push — send each routine's actual start/stop + offset, and how late the
+//          day is running, to /api/plugin/live-status
+// Only routines whose live data changed since the last successful push are sent.
+
+const API_TIMEOUT_MS = 30000
+
+interface LiveRoutineStatus {
+  entryId: string
+  status: RoutineStatus
+  actualStartAt?: string
+  actualStopAt?: string
+  offsetMinutes?: number // actual start vs scheduledTime, positive = late
+}
+
+let timer: NodeJS.Timeout | null = null
+let syncing = false
+let pushUnsupported = false
+const pushedSignatures = new Map<string, string>() // routineId → last pushed JSON
+let lastPushedLateMinutes: number | null = null
+let lastKept = '' // entry numbers last warned about as kept, so each pull doesn't repeat it
+
+export function start(): void {
+  stop()
+  const intervalSec = getSettings().scheduleSync.intervalSec
+  if (!intervalSec || intervalSec <= 0) {
+    logger.schedule.info('Schedule sync disabled')
+    return
+  }
+  timer = setInterval(() => {
+    syncNow().catch((err) => {
+      logger.schedule.warn(`Schedule sync failed: ${err instanceof Error ? err.message : err}`)
+    })
+  }, intervalSec * 1000)
+  logger.schedule.info(`Schedule sync every ${intervalSec}s`)
+}
+
+export function stop(): void {
+  if (timer) {
+    clearInterval(timer)
+    timer = null
+  }
+}
+
+/** One pull + push round. No-op unless the loaded competition came from the resolved share code. */
+export async function syncNow(): Promise<void> {
+  if (syncing) return
+  const conn = getResolvedConnection()
+  const comp = state.getCompetition()
+  if (!conn || !comp || comp.competitionId !== conn.competitionId) return
+
+  syncing = true
+  try {
+    await pull(conn)
+    await push(conn)
+  } finally {
+    syncing = false
+  }
+}
+
+async function pull(conn: ResolvedConnection): Promise<void> {
+  const server = await fetchSchedule(conn)
+  const result = state.mergeCompetition(server)
+  if (result.added.length || result.removed.length || result.updated.length || result.reordered) {
+    broadcastFullState()
+  }
+  const kept = [...result.kept].sort().join(', #')
+  if (kept !== lastKept && kept) {
+    logger.schedule.warn(`Scratched on server but already recorded here, kept: #${kept}`)
+  }
+  lastKept = kept
+}
+
+function toLiveStatus(r: { id: string; status: RoutineStatus; scheduledTime?: string; recordingStartedAt?: string; recordingStoppedAt?: string }): LiveRoutineStatus {
+  const live: LiveRoutineStatus = {
+    entryId: r.id,
+    status: r.status,
+    actualStartAt: r.recordingStartedAt,
+    actualStopAt: r.recordingStoppedAt,
+  }
+  if (r.scheduledTime && r.recordingStartedAt) {
+    const offset = calcOffsetMinutes(r.scheduledTime, new Date(r.recordingStartedAt))
+    if (offset !== null) live.offsetMinutes = offset
+  }
+  return live
+}
+
+/** How late the day is running: offset of the most recently started routine. */
+function runningLateMinutes(routines: LiveRoutineStatus[]): number | null {
+  let latest: LiveRoutineStatus | null = null
+  for (const r of routines) {
+    if (r.offsetMinutes === undefined || !r.actualStartAt) continue
+    if (!latest || r.actualStartAt > latest.actualStartAt!) latest = r
+  }
+  return latest ? latest.offsetMinutes! : null
+}
+
+async function push(conn: ResolvedConnection): Promise<void> {
+  if (pushUnsupported) return
+  const comp = state.getCompetition()
+  if (!comp) return
+
+  const all = comp.routines.map(toLiveStatus)
+  const changed = all.filter(r => pushedSignatures.get(r.entryId) !== JSON.stringify(r))
+  const lateMinutes = runningLateMinutes(all)
+  if (changed.length === 0 && lateMinutes === lastPushedLateMinutes) return
+
+  const abort = new AbortController()
+  const t = setTimeout(() => abort.abort(), API_TIMEOUT_MS)
+  try {
+    const response = await fetch(`${conn.apiBase}/api/plugin/live-status`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${conn.apiKey}`,
+      },
+      body: JSON.stringify({
+        competitionId: conn.competitionId,
+        currentEntryId: state.getCurrentRoutine()?.id ?? null,
+        runningLateMinutes: lateMinutes,
+        routines: changed,
+      }),
+      signal: abort.signal,
+    })
+
+    if (response.status === 404) {
+      pushUnsupported = true
+      logger.schedule.warn('Server has no live-status endpoint — status push disabled for this session')
+      return
+    }
+    if (!response.ok) {
+      const text = await response.text()
+      throw new Error(`Live status push failed: ${response.status} ${text}`)
+    }
+  } finally {
+    clearTimeout(t)
+  }
+
+  for (const r of changed) pushedSignatures.set(r.entryId, JSON.stringify(r))
+  lastPushedLateMinutes = lateMinutes
+  if (changed.length > 0) {
+    logger.schedule.info(`Pushed live status for ${changed.length} routines${lateMinutes !== null ? ` (running ${lateMinutes >= 0 ? '+' : ''}${lateMinutes}m)` : ''}`)
+  }
+}
+
+/** Forget what was pushed — e.g. after loading a different competition. */
+export function reset(): void {
+  pushedSignatures.clear()
+  lastPushedLateMinutes = null
+  pushUnsupported = false
+}
@@ -28,6 +28,36 @@ function setNestedValue(obj: Record<string, unknown>, path: string, value: unkno
   if (target) target[last] = value
 }
 
+// Camera-angle OBS passwords sit in an array, so SENSITIVE_KEYS can't name them:
+// each entry keeps password_encrypted in the store and an empty password
+type StoredAngle = Record<string, unknown>
+
+/** Encrypt any plaintext angle passwords in place. Returns whether one changed. */
+function encryptAnglePasswords(angles: StoredAngle[] | undefined): boolean {
+  if (!angles || !safeStorage.isEncryptionAvailable()) return false
+  let changed = false
+  for (const angle of angles) {
+    if (typeof angle.password !== 'string' || !angle.password) continue
+    angle.password_encrypted = safeStorage.encryptString(angle.password).toString('base64')
+    angle.password = ''
+    changed = true
+  }
+  return changed
+}
+
+function decryptAnglePasswords(angles: StoredAngle[] | undefined): void {
+  for (const angle of angles ?? []) {
+    const encrypted = angle.password_encrypted as string | undefined
+    delete angle.password_encrypted // a password cleared in the editor must not come back from the old copy
+    if (!encrypted || !safeStorage.isEncryptionAvailable()) continue
+    try {
+      angle.password = safeStorage.decryptString(Buffer.from(encrypted, 'base64'))
+    } catch {
+      logger.settings.warn(`Failed to decrypt password for angle ${angle.name}`)
+    }
+  }
+}
+
 /** Deep merge: fills in missing keys from defaults without overwriting existing values. */
 function deepMerge(target: Record<string, unknown>, defaults: Record<string, unknown>): Record<string, unknown> {
   for (const key of Object.keys(defaults)) {
@@ -91,6 +121,25 @@ export function getSettings(): AppSettings {
     migrated = true
   }
 
+  // Give camera-angle connections a stable angle number, in the order they used to be numbered by
+  const angles = raw.obsAngles as Array<Record<string, unknown>> | undefined
+  if (angles?.some((a) => typeof a.angle !== 'number')) {
+    const taken = new Set(angles.map((a) => a.angle))
+    let next = 1
+    for (const a of angles) {
+      if (typeof a.angle === 'number') continue
+      while (taken.has(next)) next++
+      a.angle = next
+      taken.add(next)
+    }
+    logger.settings.info('Migrated camera-angle connections to stable angle numbers')
+    migrated = true
+  }
+  if (encryptAnglePasswords(angles)) {
+    logger.settings.info('Encrypted camera-angle OBS passwords')
+    migrated = true
+  }
+
   // Deep merge with defaults — fills in any missing keys at any nesting level
   const defaults = DEFAULT_SETTINGS as unknown as Record<string, unknown>
   const merged = deepMerge(raw, defaults)
@@ -123,6 +172,7 @@ export function getSettings(): AppSettings {
       }
     }
   }
+  decryptAnglePasswords(merged.obsAngles as StoredAngle[] | undefined)
 
   return settings
 }
@@ -150,6 +200,10 @@ export function setSettings(partial: Partial<AppSettings>): AppSettings {
       }
     }
   }
+  if (partial.obsAngles) {
+    const angles = store.get('obsAngles') as unknown as StoredAngle[]
+    if (encryptAnglePasswords(angles)) store.set('obsAngles', angles)
+  }
 
   logger.settings.info('Settings updated', Object.keys(partial).join(', '))
   return getSettings()
@@ -1,7 +1,19 @@
 import fs from 'fs'
 import path from 'path'
+import crypto from 'crypto'
 import { app } from 'electron'
-import { Competition, Routine, RoutineStatus } from '../../shared/types'
+import {
+  Competition,
+  LocalEditField,
+  formatOffset,
+  MARKER_LABELS,
+  NewRoutineInput,
+  Routine,
+  RoutineStatus,
+  RoutineTrim,
+  ScheduleAuditEntry,
+  ScheduleEditAction,
+} from '../../shared/types'
 import { logger } from '../logger'
 
 const STATE_FILE = 'compsync-state.json'
@@ -181,10 +193,36 @@ export function setCompetition(comp: Competition): void {
         routine.photos = persisted.photos
         routine.uploadProgress = persisted.uploadProgress
         routine.notes = persisted.notes
+        routine.takeNumber = persisted.takeNumber
+        routine.takes = persisted.takes
+        routine.uploadAllTakes = persisted.uploadAllTakes
+        routine.angles = persisted.angles
+        routine.markers = persisted.markers
+        routine.trim = persisted.trim
+        routine.trimSuggestion = persisted.trimSuggestion
+        routine.audioCheck = persisted.audioCheck
+        routine.scratch = persisted.scratch
+        for (const field of persisted.localEdits ?? []) {
+          ;(routine as unknown as Record<string, unknown>)[field] = persisted[field]
+        }
+        routine.localEdits = persisted.localEdits
         matchedCount++
       }
     }
 
+    // Operator schedule edits: late adds / re-dance copies aren't in the loaded schedule
+    const loadedIds = new Set(comp.routines.map(r => r.id))
+    const localOnly = existing.competition.routines.filter(r => r.localOnly && !loadedIds.has(r.id))
+    if (localOnly.length > 0) {
+      comp.routines.push(...localOnly)
+      comp.routines.sort((a, b) => a.position - b.position)
+      logger.app.info(`Restored ${localOnly.length} locally added routines`)
+    }
+    comp.days = [...new Set([...comp.days, ...comp.routines.map(r => r.scheduledDay).filter(Boolean)])]
+    comp.auditLog = existing.competition.auditLog
+    comp.clockSyncs = existing.competition.clockSyncs
+    comp.unmatchedPhotos = existing.competition.unmatchedPhotos
+
     // Restore current routine by ID (migrated or native)
     if (currentRoutineId) {
       const found = comp.routines.find(r => r.id === currentRoutineId)
@@ -323,6 +361,122 @@ export function setCompetition(comp: Competition): void {
   saveState()
 }
 
+/**
+ * Swap in a competition whose routines already carry their local state (reviewed
+ * reload). Unlike setCompetition, nothing is restored from disk.
+ */
+export function replaceCompetition(comp: Competition): void {
+  currentCompetition = comp
+  if (currentRoutineId && !comp.routines.some(r => r.id === currentRoutineId)) {
+    currentRoutineId = null
+  }
+  if (!currentRoutineId) {
+    const visible = getVisibleRoutines()
+    currentRoutineId = visible.length > 0 ? visible[0].id : null
+  }
+  recomputeCachedCounts()
+  saveState()
+}
+
+// Fields the server owns. Everything else on a Routine (status, notes, recording
+// times, files, upload state) is local and survives a schedule sync.
+const SERVER_ROUTINE_FIELDS = [
+  'entryNumber', 'routineTitle', 'dancers', 'studioName', 'studioCode', 'category',
+  'classification', 'ageGroup', 'sizeCategory', 'durationMinutes', 'scheduledDay',
+  'scheduledTime', 'position', 'mediaPackageStatus', 'mediaUpdatedAt',
+] as const
+
+export interface ScheduleMergeResult {
+  added: string[] // entry numbers
+  removed: string[]
+  kept: string[] // gone from server but have local media — kept so nothing is lost
+  updated: string[]
+  reordered: boolean
+}
+
+/**
+ * Merge a fresh server copy of the loaded competition into the live one.
+ * New entries are added as pending, scratched entries are dropped unless they
+ * already have local media, and schedule fields/order follow the server.
+ */
+export function mergeCompetition(server: Competition): ScheduleMergeResult {
+  const result: ScheduleMergeResult = { added: [], removed: [], kept: [], updated: [], reordered: false }
+  const comp = currentCompetition
+  if (!comp || comp.competitionId !== server.competitionId) return result
+
+  const localById = new Map(comp.routines.map(r => [r.id, r]))
+  const serverIds = new Set(server.routines.map(r => r.id))
+  const merged: Routine[] = []
+
+  for (const sr of server.routines) {
+    const local = localById.get(sr.id)
+    if (!local) {
+      merged.push({ ...sr, status: 'pending' })
+      result.added.push(sr.entryNumber)
+      continue
+    }
+    let changed = false
+    const overridden = new Set<string>(local.localEdits ?? [])
+    for (const key of SERVER_ROUTINE_FIELDS) {
+      if (key === 'position') continue // order changes are reported as a reorder
+      if (overridden.has(key)) continue // operator edit wins
+      if (local[key] !== sr[key]) {
+        ;(local as unknown as Record<string, unknown>)[key] = sr[key]
+        changed = true
+      }
+    }
+    if (changed) result.updated.push(sr.entryNumber)
+    if (!overridden.has('position')) local.position = sr.position
+    merged.push(local)
+  }
+
+  for (const local of comp.routines) {
+    if (serverIds.has(local.id)) continue
+    if (local.localOnly) {
+      merged.push(local) // added here — the server never had it
+    } else if (local.status === 'pending' || local.status === 'skipped') {
+      result.removed.push(local.entryNumber)
+    } else {
+      // Already recorded — never drop media because the tabulator scratched it after the fact
+      merged.push(local)
+      result.kept.push(local.entryNumber)
+    }
+  }
+
+  merged.sort((a, b) => a.position - b.position)
+
+  // Reorder = entries on both sides no longer in the same relative order
+  const before = comp.routines.filter(r => serverIds.has(r.id)).map(r => r.id)
+  const after = merged.filter(r => localById.has(r.id) && serverIds.has(r.id)).map(r => r.id)
+  result.reordered = before.some((id, i) => after[i] !== id)
+
+  // Current routine scratched — move to the next surviving one from the old order
+  const mergedIds = new Set(merged.map(r => r.id))
+  if (currentRoutineId && !mergedIds.has(currentRoutineId)) {
+    const oldIdx = comp.routines.findIndex(r => r.id === currentRoutineId)
+    const nextUp = comp.routines.slice(oldIdx + 1).find(r => mergedIds.has(r.id) && r.status !== 'skipped')
+    currentRoutineId = nextUp?.id ?? null
+  }
+
+  comp.routines = merged
+  comp.days = [...new Set([...server.days, ...merged.map(r => r.scheduledDay).filter(Boolean)])]
+  comp.name = server.name
+  if (!currentRoutineId) {
+    const visible = getVisibleRoutines()
+    currentRoutineId = visible.length > 0 ? visible[0].id : null
+  }
+
+  if (result.added.length || result.removed.length || result.updated.length || result.reordered) {
+    logger.schedule.info(
+      `Schedule sync: +${result.added.length} -${result.removed.length} ~${result.updated.length}` +
+      `${result.kept.length ? ` (kept ${result.kept.length} scratched with media)` : ''}${result.reordered ? ', reordered' : ''}`,
+    )
+    recomputeCachedCounts()
+    saveState()
+  }
+  return result
+}
+
 export function getCompetition(): Competition | null {
   return currentCompetition
 }
@@ -405,6 +559,203 @@ export function setRoutineNote(routineId: string, note: string): void {
   }
 }
 
+/** Set or clear (null) the in/out points the encoder applies to a routine's recording. */
+export function setRoutineTrim(routineId: string, trim: RoutineTrim | null): void {
+  if (!currentCompetition) return
+  const routine = currentCompetition.routines.find((r) => r.id === routineId)
+  if (!routine) throw new Error(`Routine not found: ${routineId}`)
+  if (trim) {
+    const inSec = Math.max(0, trim.inSec || 0)
+    const outSec = trim.outSec != null ? trim.outSec : undefined
+    if (outSec != null && outSec <= inSec + 1) throw new Error('Out point must be at least 1s after the in point')
+    routine.trim = inSec > 0 || outSec != null ? { inSec, outSec } : undefined
+  } else {
+    routine.trim = undefined
+  }
+  saveState()
+}
+
+// --- Operator schedule edits ---
+//
+// Late adds, scratches, re-dance/split copies, renumbers and day moves. Every
+// edit is appended to competition.auditLog (persisted with the state). Fields
+// the operator changes are listed in routine.localEdits so schedule sync does
+// not revert them; locally created routines are flagged localOnly.
+
+function requireRoutine(routineId: string): { comp: Competition; routine: Routine } {
+  if (!currentCompetition) throw new Error('No competition loaded')
+  const routine = currentCompetition.routines.find(r => r.id === routineId)
+  if (!routine) throw new Error(`Routine not found: ${routineId}`)
+  return { comp: currentCompetition, routine }
+}
+
+function recordEdit(action: ScheduleEditAction, routine: Routine, detail: string): void {
+  if (!currentCompetition) return
+  const entry: ScheduleAuditEntry = {
+    at: new Date().toISOString(),
+    action,
+    routineId: routine.id,
+    entryNumber: routine.entryNumber,
+    detail,
+  }
+  currentCompetition.auditLog = [...(currentCompetition.auditLog ?? []), entry]
+  logger.schedule.info(`Schedule edit ${action} #${routine.entryNumber}: ${detail}`)
+}
+
+function markLocalEdit(routine: Routine, field: LocalEditField): void {
+  if (routine.localOnly) return // nothing on the server to protect against
+  if (!routine.localEdits?.includes(field)) routine.localEdits = [...(routine.localEdits ?? []), field]
+}
+
+/** Position that sorts right after `anchor` without renumbering anyone else. */
+function positionAfter(routines: Routine[], anchor: Routine | undefined): number {
+  if (!anchor) return (routines.length > 0 ? Math.max(...routines.map(r => r.position)) : 0) + 1
+  const next = routines
+    .filter(r => r.position > anchor.position)
+    .reduce<Routine | undefined>((min, r) => (!min || r.position < min.position ? r : min), undefined)
+  return next ? (anchor.position + next.position) / 2 : anchor.position + 1
+}
+
+function lastOfDay(routines: Routine[], day: string, exceptId?: string): Routine | undefined {
+  return routines
+    .filter(r => r.scheduledDay === day && r.id !== exceptId)
+    .reduce<Routine | undefined>((max, r) => (!max || r.position > max.position ? r : max), undefined)
+}
+
+function insertRoutine(comp: Competition, routine: Routine): void {
+  comp.routines.push(routine)
+  comp.routines.sort((a, b) => a.position - b.position)
+  if (routine.scheduledDay && !comp.days.includes(routine.scheduledDay)) comp.days.push(routine.scheduledDay)
+  if (!currentRoutineId) currentRoutineId = routine.id
+  recomputeCachedCounts()
+}
+
+function assertEntryNumberFree(comp: Competition, entryNumber: string, exceptId?: string): void {
+  if (comp.routines.some(r => r.entryNumber === entryNumber && r.id !== exceptId)) {
+    throw new Error(`Entry #${entryNumber} already exists`)
+  }
+}
+
+/** Late add. Goes after afterRoutineId, else at the end of its day. */
+export function addRoutine(input: NewRoutineInput): Routine {
+  if (!currentCompetition) throw new Error('No competition loaded')
+  const comp = currentCompetition
+  const entryNumber = input.entryNumber.trim()
+  if (!entryNumber) throw new Error('Entry number is required')
+  assertEntryNumberFree(comp, entryNumber)
+
+  const after = input.afterRoutineId ? comp.routines.find(r => r.id === input.afterRoutineId) : undefined
+  const scheduledDay = input.scheduledDay ?? after?.scheduledDay ?? ''
+  const routine: Routine = {
+    id: `local-add-${crypto.randomUUID()}`,
+    entryNumber,
+    routineTitle: input.routineTitle.trim() || 'Untitled',
+    dancers: input.dancers ?? '',
+    studioName: input.studioName ?? '',
+    studioCode: '',
+    category: input.category ?? '',
+    classification: '',
+    ageGroup: '',
+    sizeCategory: '',
+    durationMinutes: input.durationMinutes ?? 3,
+    scheduledDay,
+    position: positionAfter(comp.routines, after ?? lastOfDay(comp.routines, scheduledDay)),
+    status: 'pending',
+    localOnly: 'late-add',
+  }
+  insertRoutine(comp, routine)
+  recordEdit('add', routine, `"${routine.routineTitle}"${scheduledDay ? ` on ${scheduledDay}` : ''}`)
+  saveState()
+  return routine
+}
+
+/** Scratch a routine that hasn't been recorded. It stays in the list as skipped, with the reason. */
+export function scratchRoutine(routineId: string, reason: string): Routine {
+  const { routine } = requireRoutine(routineId)
+  if (routine.status !== 'pending' && routine.status !== 'skipped') {
+    throw new Error(`#${routine.entryNumber} already has recorded media — can't scratch`)
+  }
+  if (currentRoutineId === routineId) {
+    const visible = getVisibleRoutines()
+    const idx = visible.findIndex(r => r.id === routineId)
+    currentRoutineId = (visible[idx + 1] ?? visible[idx - 1])?.id ?? null
+  }
+  const text = reason.trim() || 'No reason given'
+  updateRoutineStatus(routineId, 'skipped', { scratch: { reason: text, at: new Date().toISOString() } })
+  recordEdit('scratch', routine, text)
+  saveState()
+  return routine
+}
+
+/**
+ * Copy a routine for a re-dance (#101 → #101R) or a split performance (#101 → #101b).
+ * The copy is a new pending routine right after the original.
+ */
+export function duplicateRoutine(routineId: string, kind: 'redance' | 'split'): Routine {
+  const { comp, routine: source } = requireRoutine(routineId)
+  const base = source.entryNumber
+  const suffixes = kind === 'redance' ? ['R', 'R2', 'R3', 'R4', 'R5'] : ['b', 'c', 'd', 'e', 'f']
+  const entryNumber = suffixes.map(s => `${base}${s}`).find(n => !comp.routines.some(r => r.entryNumber === n))
+  if (!entryNumber) throw new Error(`Too many copies of #${base}`)
+
+  const copy: Routine = {
+    id: `${source.id}-${kind}-${crypto.randomUUID().slice(0, 8)}`,
+    entryNumber,
+    routineTitle: source.routineTitle,
+    dancers: source.dancers,
+    studioName: source.studioName,
+    studioCode: source.studioCode,
+    category: source.category,
+    classification: source.classification,
+    ageGroup: source.ageGroup,
+    sizeCategory: source.sizeCategory,
+    durationMinutes: source.durationMinutes,
+    scheduledDay: source.scheduledDay,
+    scheduledTime: source.scheduledTime,
+    position: positionAfter(comp.routines, source),
+    status: 'pending',
+    localOnly: kind,
+    derivedFrom: source.id,
+  }
+  insertRoutine(comp, copy)
+  recordEdit(kind, copy, `copy of #${base}`)
+  saveState()
+  return copy
+}
+
+export function renumberRoutine(routineId: string, entryNumber: string): Routine {
+  const { comp, routine } = requireRoutine(routineId)
+  const next = entryNumber.trim()
+  if (!next) throw new Error('Entry number is required')
+  if (next === routine.entryNumber) return routine
+  assertEntryNumberFree(comp, next, routineId)
+  const previous = routine.entryNumber
+  routine.entryNumber = next
+  markLocalEdit(routine, 'entryNumber')
+  recordEdit('renumber', routine, `#${previous} → #${next}`)
+  saveState()
+  return routine
+}
+
+/** Move a routine to another day, placed after that day's last routine. */
+export function moveRoutineToDay(routineId: string, day: string): Routine {
+  const { comp, routine } = requireRoutine(routineId)
+  const target = day.trim()
+  if (!target) throw new Error('Day is required')
+  if (target === routine.scheduledDay) return routine
+  const previous = routine.scheduledDay
+  const anchor = lastOfDay(comp.routines, target, routineId)
+  routine.scheduledDay = target
+  routine.position = positionAfter(comp.routines.filter(r => r.id !== routineId), anchor)
+  markLocalEdit(routine, 'scheduledDay')
+  markLocalEdit(routine, 'position')
+  comp.routines.sort((a, b) => a.position - b.position)
+  if (!comp.days.includes(target)) comp.days.push(target)
+  recordEdit('move-day', routine, `${previous || '(no day)'} → ${target}`)
+  saveState()
+  return routine
+}
+
 export function updateRoutineStatus(
   routineId: string,
   status: RoutineStatus,
@@ -447,7 +798,10 @@ export function skipRoutine(routineId: string): void {
 }
 
 export function unskipRoutine(routineId: string): void {
-  updateRoutineStatus(routineId, 'pending')
+  const routine = currentCompetition?.routines.find(r => r.id === routineId)
+  const wasScratched = routine?.scratch
+  updateRoutineStatus(routineId, 'pending', { scratch: undefined })
+  if (routine && wasScratched) recordEdit('unscratch', routine, `was: ${wasScratched.reason}`)
 }
 
 export function getFilteredRoutines(dayFilter?: string): Routine[] {
@@ -459,6 +813,10 @@ export function getFilteredRoutines(dayFilter?: string): Routine[] {
   return routines
 }
 
+function csvEscape(s: string): string {
+  return s.includes(',') || s.includes('"') ? `"${s.replace(/"/g, '""')}"` : s
+}
+
 export function exportReport(): string {
   if (!currentCompetition) return ''
 
@@ -481,7 +839,7 @@ export function exportReport(): string {
   lines.push(`With notes: ${withNotes}`)
   lines.push('')
 
-  lines.push('Entry#,Title,Studio,Category,Status,Notes,Error,RecordStart,RecordStop,Duration')
+  lines.push('Entry#,Title,Studio,Category,Status,Notes,Error,RecordStart,RecordStop,Duration,Markers')
 
   for (const r of currentCompetition.routines) {
     const startTime = r.recordingStartedAt || ''
@@ -491,7 +849,6 @@ export function exportReport(): string {
       const sec = Math.round((new Date(r.recordingStoppedAt).getTime() - new Date(r.recordingStartedAt).getTime()) / 1000)
       duration = `${Math.floor(sec / 60)}m${sec % 60}s`
     }
-    const csvEscape = (s: string) => s.includes(',') || s.includes('"') ? `"${s.replace(/"/g, '""')}"` : s
     lines.push([
       r.entryNumber,
       csvEscape(r.routineTitle),
@@ -503,9 +860,53 @@ export function exportReport(): string {
       startTime,
       stopTime,
       duration,
+      csvEscape((r.markers ?? []).map(m => `${formatOffset(m.offsetSec)} ${m.label || MARKER_LABELS[m.kind]}`).join('; ')),
     ].join(','))
   }
 
+  const marked = currentCompetition.routines.filter(r => r.markers?.length)
+  if (marked.length > 0) {
+    lines.push('')
+    lines.push('Markers')
+    lines.push('Entry#,Offset,Kind,Label,Time,Source')
+    for (const r of marked) {
+      for (const m of r.markers!) {
+        lines.push([r.entryNumber, formatOffset(m.offsetSec), m.kind, csvEscape(m.label || MARKER_LABELS[m.kind]), m.at, m.source].join(','))
+      }
+    }
+  }
+
+  // Per-photographer photo counts, across all routines
+  const byPhotographer = new Map<string, { photographer: string; cameraId: string; photos: number; routines: Set<string> }>()
+  for (const r of currentCompetition.routines) {
+    for (const p of r.photos ?? []) {
+      const photographer = p.photographer || 'Unknown'
+      const key = `${photographer}\u0000${p.cameraId ?? ''}`
+      const entry = byPhotographer.get(key) ?? { photographer, cameraId: p.cameraId ?? '', photos: 0, routines: new Set<string>() }
+      entry.photos++
+      entry.routines.add(r.id)
+      byPhotographer.set(key, entry)
+    }
+  }
+  if (byPhotographer.size > 0) {
+    lines.push('')
+    lines.push('Photographers')
+    lines.push('Photographer,Camera,Photos,Routines')
+    for (const e of [...byPhotographer.values()].sort((a, b) => b.photos - a.photos)) {
+      lines.push([csvEscape(e.photographer), csvEscape(e.cameraId), e.photos, e.routines.size].join(','))
+    }
+  }
+
+  const audit = currentCompetition.auditLog ?? []
+  if (audit.length > 0) {
+    lines.push('')
+    lines.push('Schedule changes')
+    lines.push('Time,Action,Entry#,Detail')
+    for (const e of audit) {
+      lines.push([e.at, e.action, e.entryNumber, csvEscape(e.detail)].join(','))
+    }
+  }
+
   return lines.join('\n')
 }
 
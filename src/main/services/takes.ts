@@ -0,0 +1,217 @@
+import path from 'path'
+import { Routine, RoutineStatus, RoutineTake } from '../../shared/types'
+import { logger } from '../logger'
+import * as state from './state'
+import * as jobQueue from './jobQueue'
+
+// Multiple takes per routine. The Routine's own recording fields (outputPath,
+// encodedFiles, timestamps, notes, status) always describe the primary take, so
+// encode/upload/verify keep working on the routine as before. Other takes are
+// parked in routine.takes and swapped in when the operator picks a new primary.
+
+const BUSY_STATUSES: RoutineStatus[] = ['recording', 'queued', 'encoding', 'uploading']
+
+function findRoutine(routineId: string): Routine {
+  const routine = state.getCompetition()?.routines.find(r => r.id === routineId)
+  if (!routine) throw new Error(`Routine not found: ${routineId}`)
+  return routine
+}
+
+/** Status a take keeps while parked — in-flight states fall back to the last finished step. */
+function restingStatus(routine: Routine): RoutineStatus {
+  switch (routine.status) {
+    case 'recording':
+    case 'queued':
+    case 'encoding':
+      return 'recorded'
+    case 'uploading':
+      return 'encoded'
+    default:
+      return routine.status
+  }
+}
+
+function snapshot(routine: Routine): RoutineTake {
+  return {
+    number: routine.takeNumber ?? 1,
+    status: restingStatus(routine),
+    recordingStartedAt: routine.recordingStartedAt,
+    recordingStoppedAt: routine.recordingStoppedAt,
+    outputPath: routine.outputPath,
+    outputDir: routine.outputDir,
+    encodedFiles: routine.encodedFiles,
+    angles: routine.angles,
+    markers: routine.markers,
+    trim: routine.trim,
+    trimSuggestion: routine.trimSuggestion,
+    audioCheck: routine.audioCheck,
+    notes: routine.notes,
+  }
+}
+
+function nextTakeNumber(routine: Routine): number {
+  return Math.max(routine.takeNumber ?? 1, ...(routine.takes ?? []).map(t => t.number)) + 1
+}
+
+/** Drop upload jobs tied to the previous primary so its object names don't block the new one. */
+function resetUploadJobs(routineId: string): void {
+  for (const job of jobQueue.getByRoutine(routineId)) {
+    if (job.type !== 'upload') continue
+    if (job.status === 'done') jobQueue.remove(job.id)
+    else if (job.status !== 'running') jobQueue.updateStatus(job.id, 'cancelled')
+  }
+}
+
+/**
+ * A new recording is starting on a routine that already has one: park the
+ * current recording as a take and make the new one primary.
+ */
+export function setAsideForRetake(routineId: string): void {
+  const routine = findRoutine(routineId)
+  if (!routine.outputPath && !routine.recordingStoppedAt) return // nothing recorded yet
+  const parked = snapshot(routine)
+  const takeNumber = nextTakeNumber(routine)
+  routine.takes = [...(routine.takes ?? []), parked]
+  state.updateRoutineStatus(routineId, routine.status, {
+    takeNumber,
+    recordingStartedAt: undefined,
+    recordingStoppedAt: undefined,
+    outputPath: undefined,
+    outputDir: undefined,
+    encodedFiles: undefined,
+    angles: undefined,
+    markers: undefined,
+    trim: undefined,
+    trimSuggestion: undefined,
+    audioCheck: undefined,
+    notes: undefined,
+    uploadProgress: undefined,
+    error: undefined,
+  })
+  logger.app.info(`Routine #${routine.entryNumber}: take ${parked.number} set aside, recording take ${takeNumber}`)
+}
+
+/** Files of parked takes were moved into the archive — point their paths there. */
+export function remapArchivedPaths(routineId: string, fromDir: string, toDir: string): void {
+  const routine = findRoutine(routineId)
+  const prefix = fromDir + path.sep
+  const remap = (p?: string): string | undefined =>
+    p && p.startsWith(prefix) && !p.startsWith(path.join(fromDir, '_archive') + path.sep)
+      ? path.join(toDir, p.slice(prefix.length))
+      : p
+  for (const take of routine.takes ?? []) {
+    take.outputPath = remap(take.outputPath)
+    take.outputDir = take.outputDir === fromDir ? toDir : remap(take.outputDir)
+    take.encodedFiles = take.encodedFiles?.map(f => ({ ...f, filePath: remap(f.filePath)! }))
+    take.angles = take.angles?.map(a => ({ ...a, outputPath: remap(a.outputPath) }))
+  }
+  state.saveState()
+}
+
+/** Encoded files with their upload marks cleared, so the pipeline sends them again. */
+function unsent(files: RoutineTake['encodedFiles']): RoutineTake['encodedFiles'] {
+  return files?.map(f => ({ role: f.role, filePath: f.filePath, uploaded: false }))
+}
+
+/** Make a parked take the primary one (used for encode and upload). */
+export function setPrimaryTake(routineId: string, takeNumber: number): Routine {
+  const routine = findRoutine(routineId)
+  if ((routine.takeNumber ?? 1) === takeNumber) return routine
+  if (BUSY_STATUSES.includes(routine.status)) {
+    throw new Error(`#${routine.entryNumber} is ${routine.status} — wait for it to finish before switching takes`)
+  }
+  const chosen = routine.takes?.find(t => t.number === takeNumber)
+  if (!chosen) throw new Error(`Take ${takeNumber} not found for #${routine.entryNumber}`)
+
+  // The server's primary is still the take being parked. If the chosen one's files went up
+  // before (as a parked take, or as an earlier primary), send them again as primary so
+  // /complete points at it. The parked take's primary objects are about to be replaced.
+  const resend = !!chosen.encodedFiles?.length &&
+    (chosen.encodedFiles.some(f => f.uploaded) || chosen.status === 'uploaded' || chosen.status === 'confirmed')
+  const parked = snapshot(routine)
+  parked.encodedFiles = unsent(parked.encodedFiles)
+  routine.takes = [...(routine.takes ?? []).filter(t => t.number !== takeNumber), parked]
+    .sort((a, b) => a.number - b.number)
+  resetUploadJobs(routineId)
+  state.updateRoutineStatus(routineId, resend ? 'encoded' : chosen.status, {
+    takeNumber: chosen.number,
+    recordingStartedAt: chosen.recordingStartedAt,
+    recordingStoppedAt: chosen.recordingStoppedAt,
+    outputPath: chosen.outputPath,
+    outputDir: chosen.outputDir,
+    encodedFiles: resend ? unsent(chosen.encodedFiles) : chosen.encodedFiles,
+    angles: chosen.angles,
+    markers: chosen.markers,
+    trim: chosen.trim,
+    trimSuggestion: chosen.trimSuggestion,
+    audioCheck: chosen.audioCheck,
+    notes: chosen.notes,
+    uploadProgress: undefined,
+    uploadRunId: undefined,
+    error: undefined,
+  })
+  logger.app.info(`Routine #${routine.entryNumber}: take ${chosen.number} is now primary (take ${parked.number} parked)`)
+  return routine
+}
+
+/** Throw away the primary take (a false start) and bring back the latest parked one, if any. */
+export function discardPrimaryTake(routineId: string): void {
+  const routine = findRoutine(routineId)
+  const latest = [...(routine.takes ?? [])].sort((a, b) => b.number - a.number)[0]
+  const remaining = (routine.takes ?? []).filter(t => t !== latest)
+  routine.takes = remaining.length > 0 ? remaining : undefined
+  state.updateRoutineStatus(routineId, latest?.status ?? 'pending', {
+    takeNumber: latest?.number,
+    recordingStartedAt: latest?.recordingStartedAt,
+    recordingStoppedAt: latest?.recordingStoppedAt,
+    outputPath: latest?.outputPath,
+    outputDir: latest?.outputDir,
+    encodedFiles: latest?.encodedFiles,
+    angles: latest?.angles,
+    markers: latest?.markers,
+    trim: latest?.trim,
+    trimSuggestion: latest?.trimSuggestion,
+    audioCheck: latest?.audioCheck,
+    notes: latest ? latest.notes : routine.notes,
+    uploadProgress: undefined,
+    error: undefined,
+  })
+  logger.app.info(`Routine #${routine.entryNumber}: discarded take ${routine.takeNumber ?? 1}${latest ? `, take ${latest.number} is primary again` : ''}`)
+}
+
+export function setTakeNote(routineId: string, takeNumber: number, note: string): void {
+  const routine = findRoutine(routineId)
+  if ((routine.takeNumber ?? 1) === takeNumber) {
+    state.setRoutineNote(routineId, note)
+    return
+  }
+  const take = routine.takes?.find(t => t.number === takeNumber)
+  if (!take) throw new Error(`Take ${takeNumber} not found for #${routine.entryNumber}`)
+  take.notes = note || undefined
+  state.saveState()
+}
+
+export function setUploadAllTakes(routineId: string, enabled: boolean): void {
+  const routine = findRoutine(routineId)
+  routine.uploadAllTakes = enabled || undefined
+  state.saveState()
+}
+
+/** After /complete: mark parked takes' files uploaded. byTake = take number → role → storagePath. */
+export function markTakeFilesUploaded(
+  routineId: string,
+  byTake: Record<number, Record<string, string>>,
+  checksums: Record<string, { sha256: string; size: number }>,
+): void {
+  const routine = state.getCompetition()?.routines.find(r => r.id === routineId)
+  if (!routine?.takes) return
+  for (const take of routine.takes) {
+    const paths = byTake[take.number]
+    if (!paths) continue
+    take.encodedFiles = take.encodedFiles?.map(f => {
+      const sp = paths[f.role]
+      return sp ? { ...f, uploaded: true, storagePath: sp, ...checksums[sp] } : f
+    })
+  }
+  state.saveState()
+}
@@ -1,9 +1,8 @@
 import fs from 'fs'
 import path from 'path'
 import { app } from 'electron'
-import ExifReader from 'exifreader'
 import sharp from 'sharp'
-import { IPC_CHANNELS, Routine, PhotoMatch } from '../../shared/types'
+import { IPC_CHANNELS, Routine, PhotoMatch, PhotoCamera } from '../../shared/types'
 import { sendToRenderer } from '../ipcUtil'
 import { logger } from '../logger'
 import * as state from './state'
@@ -11,6 +10,8 @@ import { broadcastFullState } from './recording'
 import { getSettings } from './settings'
 import * as uploadService from './upload'
 import * as wpdBridge from './wpdBridge'
+import * as clockSync from './clockSync'
+import { CameraIdentity, clockSyncStatusFor, fallbackCamera, readPhotoExif } from './photos'
 import type { WPDDevice, WPDDeviceEvent } from '../../shared/types'
 
 // Use dynamic import for chokidar (ESM)
@@ -26,8 +27,7 @@ export interface TetherState {
   stagingDir?: string | null
   photosReceived: number
   lastPhotoTime: string | null
-  cameraClockOffset: number
-  clockSyncStatus: 'unknown' | 'ok' | 'warning' | 'error'
+  cameras: PhotoCamera[]
 }
 
 interface RecordingWindow {
@@ -48,8 +48,6 @@ const PHOTO_EXTENSIONS = /\.(jpg|jpeg|arw|cr3|nef|raf)$/i
 function getBufferMs(): number {
   return getSettings().tether?.matchBufferMs ?? 1000
 }
-const CLOCK_OK_THRESHOLD = 5_000
-const CLOCK_WARN_THRESHOLD = 30_000
 
 let tetherState: TetherState = {
   active: false,
@@ -57,44 +55,18 @@ let tetherState: TetherState = {
   source: 'folder-watch',
   photosReceived: 0,
   lastPhotoTime: null,
-  cameraClockOffset: 0,
-  clockSyncStatus: 'unknown',
+  cameras: [],
 }
 
 let watcher: import('chokidar').FSWatcher | null = null
 // path → matched routineId, or null if seen but unmatched
 const importedFiles = new Map<string, string | null>()
-const clockOffsetSamples: number[] = []
+const CLOCK_SYNC_PHOTO = 'clock-sync' // importedFiles value for shots of the sync code
+const TIMELINE_PHOTO = 'timeline' // importedFiles value once the operator placed it on the photo timeline
+// camera id → recent (EXIF time − now) samples
+const clockOffsetSamples = new Map<string, number[]>()
 const MAX_OFFSET_SAMPLES = 10
 
-// --- EXIF reading (same as photos.ts) ---
-
-async function getPhotoCaptureTime(filePath: string): Promise<Date | null> {
-  try {
-    const EXIF_HEADER_SIZE = 128 * 1024
-    const fh = await fs.promises.open(filePath, 'r')
-    const buf = Buffer.alloc(EXIF_HEADER_SIZE)
-    const { bytesRead } = await fh.read(buf, 0, EXIF_HEADER_SIZE, 0)
-    await fh.close()
-    const buffer = buf.subarray(0, bytesRead)
-    const tags = ExifReader.load(
-      buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer,
-    )
-    const dateTime = tags['DateTimeOriginal']?.description
-    if (!dateTime) return null
-
-    const [datePart, timePart] = dateTime.split(' ')
-    if (!datePart || !timePart) return null
-    const isoString = datePart.replace(/:/g, '-') + 'T' + timePart
-    const d = new Date(isoString)
-    if (isNaN(d.getTime())) return null
-    return d
-  } catch (err) {
-    logger.photos.warn(`Tether: Failed to read EXIF from ${path.basename(filePath)}:`, err)
-    return null
-  }
-}
-
 async function getStagedPhotoMetadata(filePath: string): Promise<StagedPhotoMetadata | null> {
   const sidecarPath = `${filePath}.json`
 
@@ -157,32 +129,57 @@ function matchSinglePhoto(
   return null
 }
 
-function getAdjustedCaptureTime(captureTime: Date): Date {
-  return new Date(captureTime.getTime() - tetherState.cameraClockOffset)
+function getAdjustedCaptureTime(captureTime: Date, camera: PhotoCamera): Date {
+  return new Date(captureTime.getTime() - camera.clockOffsetMs)
 }
 
-// --- Clock offset ---
+// --- Clock offset (per camera body) ---
 
-function updateClockOffset(exifTime: Date): void {
-  const offset = exifTime.getTime() - Date.now()
-  clockOffsetSamples.push(offset)
-  if (clockOffsetSamples.length > MAX_OFFSET_SAMPLES) {
-    clockOffsetSamples.shift()
+function getCamera(identity: CameraIdentity): PhotoCamera {
+  let camera = tetherState.cameras.find((c) => c.id === identity.id)
+  if (!camera) {
+    camera = { ...identity, clockOffsetMs: 0, clockSyncStatus: 'unknown', clockSource: 'estimated', photos: 0 }
+    tetherState.cameras.push(camera)
+    applyClockSync(camera)
+    logger.photos.info(`Tether: New camera ${camera.label} (${camera.photographer})`)
   }
+  return camera
+}
+
+/** Use the wizard's or timeline's offset when this body has one; drop back to estimating when it was cleared. */
+function applyClockSync(camera: PhotoCamera): void {
+  const sync = clockSync.getSync(camera.id)
+  if (sync) {
+    camera.clockOffsetMs = sync.offsetMs
+    camera.clockSyncStatus = 'ok'
+    camera.clockSource = sync.source === 'timeline' ? 'manual' : 'qr'
+  } else if (camera.clockSource === 'qr' || camera.clockSource === 'manual') {
+    camera.clockOffsetMs = 0
+    camera.clockSyncStatus = 'unknown'
+    camera.clockSource = 'estimated'
+  }
+}
+
+/** Re-read clock syncs into the live cameras (after the wizard synced or cleared one). */
+export function refreshClockSyncs(): void {
+  for (const camera of tetherState.cameras) applyClockSync(camera)
+  broadcastTetherState()
+}
+
+function updateClockOffset(camera: PhotoCamera, exifTime: Date): void {
+  if (camera.clockSource === 'qr' || camera.clockSource === 'manual') return // known — samples would only add transfer lag
+  const samples = clockOffsetSamples.get(camera.id) || []
+  samples.push(exifTime.getTime() - Date.now())
+  if (samples.length > MAX_OFFSET_SAMPLES) {
+    samples.shift()
+  }
+  clockOffsetSamples.set(camera.id, samples)
 
   // Use median (stable) instead of rolling average (bouncy)
-  const sorted = [...clockOffsetSamples].sort((a, b) => a - b)
+  const sorted = [...samples].sort((a, b) => a - b)
   const median = sorted[Math.floor(sorted.length / 2)]
-  tetherState.cameraClockOffset = Math.round(median)
-
-  const absOffset = Math.abs(median)
-  if (absOffset < CLOCK_OK_THRESHOLD) {
-    tetherState.clockSyncStatus = 'ok'
-  } else if (absOffset < CLOCK_WARN_THRESHOLD) {
-    tetherState.clockSyncStatus = 'warning'
-  } else {
-    tetherState.clockSyncStatus = 'error'
-  }
+  camera.clockOffsetMs = Math.round(median)
+  camera.clockSyncStatus = clockSyncStatusFor(median)
 }
 
 // --- Photo processing ---
@@ -193,21 +190,29 @@ async function processNewPhoto(
 ): Promise<void> {
   const normalizedPath = path.normalize(filePath)
   const previousMatch = importedFiles.get(normalizedPath)
-  if (previousMatch) return // already matched to a routine — skip
+  if (previousMatch) return // already matched to a routine (or a clock-sync shot) — skip
   // previousMatch === null → seen but unmatched, retry
   // previousMatch === undefined → never seen
 
   const isRetry = previousMatch === null
 
+  // Placed (or re-matched) from the photo timeline since — it's no longer ours to retry
+  if (isRetry && !state.getCompetition()?.unmatchedPhotos?.some((p) => p.filePath === normalizedPath)) {
+    importedFiles.set(normalizedPath, TIMELINE_PHOTO)
+    return
+  }
+
   if (!isRetry) {
     logger.photos.info(`Tether: New photo detected: ${path.basename(filePath)}`)
   }
 
   const stagedMetadata = await getStagedPhotoMetadata(filePath)
+  const exif = await readPhotoExif(filePath)
   const captureTime =
     parseCaptureTime(incomingMetadata.captureTime) ||
     parseCaptureTime(stagedMetadata?.captureTime) ||
-    (await getPhotoCaptureTime(filePath))
+    exif?.captureTime ||
+    null
   if (!captureTime) {
     if (!isRetry) {
       logger.photos.warn(`Tether: No EXIF timestamp for ${path.basename(filePath)} — skipping`)
@@ -216,12 +221,33 @@ async function processNewPhoto(
     return
   }
 
-  // Update clock offset
-  updateClockOffset(captureTime)
+  const identity =
+    exif?.camera ?? fallbackCamera(incomingMetadata.deviceName || stagedMetadata?.deviceName || tetherState.deviceName)
+
+  // Sync wizard open: a shot of the on-screen code calibrates the body and isn't a routine photo
+  if (!isRetry && clockSync.isListening()) {
+    const sync = await clockSync.syncFromPhoto(filePath, identity).catch((err) => {
+      logger.photos.warn(`Tether: Clock sync from ${path.basename(filePath)} failed:`, err)
+      return null
+    })
+    if (sync) {
+      importedFiles.set(normalizedPath, CLOCK_SYNC_PHOTO)
+      refreshClockSyncs()
+      return
+    }
+  }
+
+  // Update this body's clock offset. A retry happens long after the shot, so its
+  // EXIF-vs-now gap says nothing about the clock — reuse the offset we have.
+  const camera = getCamera(identity)
+  if (!isRetry) {
+    updateClockOffset(camera, captureTime)
+    camera.photos++
+  }
 
   // Match to routine
   const windows = getRecordingWindows()
-  const adjustedCaptureTime = getAdjustedCaptureTime(captureTime)
+  const adjustedCaptureTime = getAdjustedCaptureTime(captureTime, camera)
   const match = matchSinglePhoto(adjustedCaptureTime, windows)
 
   if (!match) {
@@ -236,6 +262,22 @@ async function processNewPhoto(
       tetherState.photosReceived++
       tetherState.lastPhotoTime = captureTime.toISOString()
       broadcastTetherState()
+
+      // Listed on the photo timeline until a retry or the operator places it
+      const comp = state.getCompetition()
+      if (comp) {
+        const unmatched: PhotoMatch = {
+          filePath: normalizedPath,
+          captureTime: captureTime.toISOString(),
+          confidence: 'unmatched',
+          uploaded: false,
+          cameraId: camera.id,
+          photographer: camera.photographer,
+          clockOffsetMs: -camera.clockOffsetMs,
+        }
+        comp.unmatchedPhotos = [...(comp.unmatchedPhotos ?? []).filter((p) => p.filePath !== normalizedPath), unmatched]
+        state.saveState()
+      }
     }
     importedFiles.set(normalizedPath, null)
     return
@@ -286,15 +328,20 @@ async function processNewPhoto(
     confidence: match.confidence,
     uploaded: false,
     matchedRoutineId: match.routineId,
+    cameraId: camera.id,
+    photographer: camera.photographer,
+    clockOffsetMs: -camera.clockOffsetMs,
+    originalPath: filePath,
   }
 
   // Update routine state + mark as matched
   const updatedPhotos = [...existingPhotos, photoMatch]
+  if (isRetry) comp.unmatchedPhotos = comp.unmatchedPhotos?.filter((p) => p.filePath !== normalizedPath)
   state.updateRoutineStatus(routine.id, routine.status, { photos: updatedPhotos })
   importedFiles.set(normalizedPath, match.routineId)
 
   logger.photos.info(
-    `Tether: ${isRetry ? 'RETRY ' : ''}Photo matched to #${routine.entryNumber} "${routine.routineTitle}" (${match.confidence}) — ${updatedPhotos.length} total photos`,
+    `Tether: ${isRetry ? 'RETRY ' : ''}Photo from ${camera.photographer} matched to #${routine.entryNumber} "${routine.routineTitle}" (${match.confidence}) — ${updatedPhotos.length} total photos`,
   )
 
   // Auto-upload if enabled
@@ -381,7 +428,8 @@ export async function rescanPhotos(): Promise<number> {
       const normalized = path.normalize(filePath)
       if (importedFiles.has(normalized)) continue
       await processNewPhoto(filePath)
-      if (importedFiles.get(normalized) !== null) matched++
+      const result = importedFiles.get(normalized)
+      if (result !== null && result !== CLOCK_SYNC_PHOTO) matched++
     }
   }
 
@@ -406,7 +454,7 @@ export async function startWatching(dcimPath: string): Promise<void> {
 
   // Reset state
   importedFiles.clear()
-  clockOffsetSamples.length = 0
+  clockOffsetSamples.clear()
   tetherState = {
     active: true,
     watchPath: dcimPath,
@@ -417,8 +465,7 @@ export async function startWatching(dcimPath: string): Promise<void> {
     stagingDir: null,
     photosReceived: 0,
     lastPhotoTime: null,
-    cameraClockOffset: 0,
-    clockSyncStatus: 'unknown',
+    cameras: [],
   }
 
   watcher = chokidar.watch(dcimPath, {
@@ -463,7 +510,7 @@ export async function startWatchingWPD(deviceId: string): Promise<void> {
   const stagingDir = getWPDStagingDir(deviceId)
   await fs.promises.mkdir(stagingDir, { recursive: true })
   importedFiles.clear()
-  clockOffsetSamples.length = 0
+  clockOffsetSamples.clear()
 
   tetherState = {
     active: true,
@@ -475,8 +522,7 @@ export async function startWatchingWPD(deviceId: string): Promise<void> {
     stagingDir,
     photosReceived: 0,
     lastPhotoTime: null,
-    cameraClockOffset: 0,
-    clockSyncStatus: 'unknown',
+    cameras: [],
   }
 
   await wpdBridge.watchDevice(deviceId, stagingDir)
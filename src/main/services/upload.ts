@@ -11,7 +11,9 @@ import { getResolvedConnection } from './schedule'
 import { getSettings } from './settings'
 import * as state from './state'
 import * as jobQueue from './jobQueue'
+import * as takes from './takes'
 import { broadcastFullState, broadcastRoutineUpdate } from './recording'
+import { createThrottle, getThroughput } from './bandwidth'
 
 interface UploadPayload {
   routineId: string
@@ -22,6 +24,38 @@ interface UploadPayload {
   contentType: string
   type: 'videos' | 'photos'
   role?: string // 'performance' | 'judge1' etc for videos
+  take?: number // set for a parked (non-primary) take when the routine uploads all takes
+  fileSize?: number // bytes at enqueue time — used for ETA without re-statting
+  sha256?: string // hex digest of what was sent — computed once, reused on retry/resume
+  hashedMtimeMs?: number // mtime the digest was taken at; a re-encoded file is re-hashed
+  multipart?: MultipartState // persisted after every part so a crash/pause resumes
+}
+
+interface MultipartPart {
+  partNumber: number
+  etag: string
+}
+
+interface MultipartState {
+  uploadId: string
+  storagePath: string
+  uploadRunId: string // storagePath sits under this run's prefix — a new run restarts the upload
+  partSize: number
+  fileSize: number
+  fileMtimeMs: number // detects a file replaced between attempts (re-encode)
+  parts: MultipartPart[]
+}
+
+interface FileChecksum {
+  sha256: string
+  size: number
+}
+
+export interface VerifyResult {
+  checked: number
+  mismatched: number
+  requeued: number
+  skippedReason?: 'no-connection' | 'unsupported'
 }
 
 export interface EnqueueRoutineResult {
@@ -30,19 +64,91 @@ export interface EnqueueRoutineResult {
 }
 
 const API_TIMEOUT_MS = 30000
+const UPLOAD_STALL_TIMEOUT_MS = 120000 // also covers the wait for the response after the last byte
+
+// Files above the threshold go through multipart so a dropped connection only
+// costs the part in flight, and there is no 5GB single-PUT ceiling.
+const MULTIPART_THRESHOLD = 100 * 1024 * 1024
+const MULTIPART_PART_SIZE = 64 * 1024 * 1024
+const MULTIPART_MAX_PARTS = 10000
+const SINGLE_PUT_MAX_BYTES = 5 * 1024 * 1024 * 1024 // R2/S3 refuse a single PUT above this
 
-let isUploading = false
+const PROGRESS_INTERVAL_MS = 1000
+const MAX_WORKERS = 8
+
+let activeWorkers = 0
 let isPaused = false
-let currentAbortController: AbortController | null = null
-let currentAbortRoutineId: string | null = null
+
+// apiBase of a server that answered 404 to multipart/create — large files go as one PUT there
+let multipartUnsupportedBase: string | null = null
+
+// In-flight jobs, one abort controller each — tagged with routine so cancel targets correctly
+const inFlight = new Map<string, { routineId: string; controller: AbortController }>()
+
+// Fraction (0–1) of each in-flight file sent, so routine progress sums every worker on it
+const inFlightFraction = new Map<string, number>()
 
 // Fix 4: Track uploading routines for O(1) lookup in stopUploads
 const activeUploadRoutineIds = new Set<string>()
 
+// Routines whose /complete call is in flight — guards against a second worker firing it
+const completingRoutineIds = new Set<string>()
+
 function sendProgress(routineId: string, progress: UploadProgress): void {
   sendToRenderer(IPC_CHANNELS.UPLOAD_PROGRESS, { routineId, progress })
 }
 
+function statSize(filePath: string): number | undefined {
+  try {
+    return fs.statSync(filePath).size
+  } catch {
+    return undefined
+  }
+}
+
+/** Streaming SHA-256 of a file — constant memory, so safe on multi-GB recordings. */
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256')
+    const stream = fs.createReadStream(filePath)
+    stream.on('data', (chunk) => hash.update(chunk))
+    stream.on('end', () => resolve(hash.digest('hex')))
+    stream.on('error', reject)
+  })
+}
+
+/** Digest for a job's file, hashing only if the file changed since the last attempt. */
+async function ensureChecksum(jobId: string, payload: UploadPayload, fileStat: fs.Stats): Promise<string> {
+  if (payload.sha256 && payload.hashedMtimeMs === fileStat.mtimeMs && payload.fileSize === fileStat.size) {
+    return payload.sha256
+  }
+  const started = Date.now()
+  const sha256 = await hashFile(payload.filePath)
+  logger.upload.info(`SHA-256 ${payload.objectName}: ${sha256} (${Date.now() - started}ms)`)
+  jobQueue.updatePayload(jobId, { sha256, hashedMtimeMs: fileStat.mtimeMs, fileSize: fileStat.size })
+  return sha256
+}
+
+/** Checksums keyed by storagePath, for /complete. */
+function checksumFor(payload: Record<string, unknown>): FileChecksum | undefined {
+  const p = payload as unknown as UploadPayload
+  if (!p.sha256 || p.fileSize === undefined) return undefined
+  return { sha256: p.sha256, size: p.fileSize }
+}
+
+/** Bytes still to send for a routine: what's left of the caller's file plus every other unfinished file (net of other workers' progress). */
+function remainingRoutineBytes(routineId: string, currentJobId: string, currentJobBytesLeft: number): number {
+  let remaining = currentJobBytesLeft
+  for (const job of jobQueue.getByRoutine(routineId)) {
+    if (job.type !== 'upload' || job.id === currentJobId) continue
+    if (job.status !== 'pending' && job.status !== 'running') continue
+    const p = job.payload as unknown as UploadPayload
+    const size = p.fileSize ?? statSize(p.filePath) ?? 0
+    remaining += size * (1 - (inFlightFraction.get(job.id) ?? 0))
+  }
+  return remaining
+}
+
 function getConnection(): { apiBase: string; apiKey: string; competitionId: string } {
   const conn = getResolvedConnection()
   if (!conn) throw new Error('No active connection. Load a competition via share code first.')
@@ -92,10 +198,35 @@ export function enqueueRoutine(routine: Routine, force = false): EnqueueRoutineR
       contentType: 'video/mp4',
       type: 'videos',
       role,
+      fileSize: statSize(file.filePath),
     } satisfies UploadPayload as unknown as Record<string, unknown>)
     jobCount++
   }
 
+  // Parked takes, when the studio wants every performance
+  if (routine.uploadAllTakes) {
+    for (const take of routine.takes || []) {
+      for (const file of take.encodedFiles || []) {
+        if (!force && file.uploaded) continue
+        const objectName = `take${take.number}-${file.role}.mp4`
+        if (skipObjectNames.has(objectName)) continue
+        jobQueue.enqueue('upload', routine.id, {
+          routineId: routine.id,
+          entryId: routine.id,
+          competitionId: conn.competitionId,
+          filePath: file.filePath,
+          objectName,
+          contentType: 'video/mp4',
+          type: 'videos',
+          role: file.role,
+          take: take.number,
+          fileSize: statSize(file.filePath),
+        } satisfies UploadPayload as unknown as Record<string, unknown>)
+        jobCount++
+      }
+    }
+  }
+
   // Queue photos
   if (routine.photos) {
     for (const photo of routine.photos) {
@@ -110,6 +241,7 @@ export function enqueueRoutine(routine: Routine, force = false): EnqueueRoutineR
         objectName: photoObjectName,
         contentType: 'image/jpeg',
         type: 'photos',
+        fileSize: statSize(photo.filePath),
       } satisfies UploadPayload as unknown as Record<string, unknown>)
       jobCount++
     }
@@ -134,23 +266,35 @@ export function startUploads(): void {
     logger.upload.warn('Upload start requested without a resolved connection')
     return
   }
-  if (isUploading && !isPaused) return
   isPaused = false
+  const target = getWorkerCount()
+  if (activeWorkers >= target) return
   const pendingCount = jobQueue.getPending('upload').length
-  logger.upload.info(`Starting upload queue, ${pendingCount} jobs pending`)
-  processLoop().catch((err) => {
-    logger.upload.error('Upload process loop crashed:', err)
-    isUploading = false
-  })
+  logger.upload.info(`Starting upload queue, ${pendingCount} jobs pending, ${target} workers`)
+  while (activeWorkers < target) {
+    const workerId = activeWorkers + 1
+    activeWorkers++
+    processLoop(workerId)
+      .catch((err) => {
+        logger.upload.error(`Upload worker ${workerId} crashed:`, err)
+      })
+      .finally(() => {
+        activeWorkers--
+      })
+  }
+}
+
+function getWorkerCount(): number {
+  const n = Math.floor(getSettings().upload.workers || 1)
+  return Math.min(Math.max(n, 1), MAX_WORKERS)
 }
 
 export function stopUploads(): void {
   isPaused = true
-  if (currentAbortController) {
-    currentAbortController.abort()
-    currentAbortController = null
-    currentAbortRoutineId = null
-    logger.upload.info('Upload paused — current upload aborted')
+  if (inFlight.size > 0) {
+    for (const { controller } of inFlight.values()) controller.abort()
+    inFlight.clear()
+    logger.upload.info('Upload paused — in-flight uploads aborted')
   }
 
   // Fix 4: Iterate only tracked uploading routines instead of scanning all 700
@@ -174,15 +318,17 @@ export function cancelRoutineUpload(routineId: string): void {
   const jobs = jobQueue.getByRoutine(routineId).filter(j => j.type === 'upload')
   for (const job of jobs) {
     if (job.status === 'pending' || job.status === 'running') {
+      const mp = (job.payload as unknown as UploadPayload).multipart
+      if (mp) abortMultipart(mp)
       jobQueue.updateStatus(job.id, 'cancelled')
     }
   }
 
-  // Only abort if the current in-flight upload belongs to THIS routine
-  if (currentAbortController && currentAbortRoutineId === routineId) {
-    currentAbortController.abort()
-    currentAbortController = null
-    currentAbortRoutineId = null
+  // Only abort in-flight uploads that belong to THIS routine
+  for (const [jobId, entry] of inFlight) {
+    if (entry.routineId !== routineId) continue
+    entry.controller.abort()
+    inFlight.delete(jobId)
   }
 
   // Reset routine status back to encoded
@@ -198,11 +344,12 @@ export function cancelRoutineUpload(routineId: string): void {
   logger.upload.info(`Cancelled uploads for routine ${routineId}`)
 }
 
-/** Main upload processing loop — properly awaited, no recursion. */
-async function processLoop(): Promise<void> {
-  if (isUploading) return
-  isUploading = true
-
+/**
+ * One upload worker — properly awaited, no recursion. startUploads() runs
+ * settings.upload.workers of these side by side. Claiming a job and the
+ * encoded → uploading transition are synchronous, so workers never race on them.
+ */
+async function processLoop(workerId: number): Promise<void> {
   while (!isPaused) {
     const job = jobQueue.getNext('upload')
     if (!job) break
@@ -217,11 +364,17 @@ async function processLoop(): Promise<void> {
     // iterations (one per file). All jobs in the same attempt must share a runId so
     // the R2 paths land under a single {.../uploadRunId/...} prefix AND /complete
     // can match them. On retry after failure the routine is reset to 'encoded', so
-    // the next 'encoded → uploading' transition naturally generates a fresh runId.
-    // Persisting on the routine also survives app crashes mid-attempt.
+    // the next 'encoded → uploading' transition generates a fresh runId — unless a
+    // multipart upload of this run is still waiting (pause, or restart after a
+    // crash): then the run carries on, so that upload resumes from its last part.
+    // A re-encode or take switch clears the runId, as the files changed.
     const routine = state.getCompetition()?.routines.find(r => r.id === payload.routineId)
     if (routine && routine.status !== 'uploading') {
-      const uploadRunId = crypto.randomUUID()
+      const resuming = !!routine.uploadRunId && jobQueue.getByRoutine(routine.id).some(j =>
+        j.type === 'upload' && (j.status === 'pending' || j.status === 'running') &&
+        (j.payload as unknown as UploadPayload).multipart?.uploadRunId === routine.uploadRunId)
+      const uploadRunId = resuming ? routine.uploadRunId : crypto.randomUUID()
+      if (resuming) logger.upload.info(`Resuming upload run ${uploadRunId} for routine ${payload.routineId}`)
       state.updateRoutineStatus(payload.routineId, 'uploading', { uploadRunId })
       activeUploadRoutineIds.add(payload.routineId)
       broadcastRoutineUpdate(payload.routineId)
@@ -253,14 +406,15 @@ async function processLoop(): Promise<void> {
       filesTotal: totalCount,
     })
 
+    // One controller per job so pause/cancel can stop it, including between multipart parts
+    const abortController = new AbortController()
+    inFlight.set(job.id, { routineId: payload.routineId, controller: abortController })
+    logger.upload.info(`Worker ${workerId}: ${payload.objectName} for routine ${payload.routineId}`)
+
     try {
-      // Pre-check: R2 single PUT limit is 5GB
-      const MAX_SINGLE_PUT = 5 * 1024 * 1024 * 1024
+      let fileStat: fs.Stats
       try {
-        const fileStat = fs.statSync(payload.filePath)
-        if (fileStat.size > MAX_SINGLE_PUT) {
-          throw new Error(`File too large for single upload (${(fileStat.size / 1024 / 1024 / 1024).toFixed(1)}GB > 5GB limit): ${payload.objectName}`)
-        }
+        fileStat = fs.statSync(payload.filePath)
       } catch (statErr) {
         if ((statErr as NodeJS.ErrnoException).code === 'ENOENT') {
           throw new Error(`File not found: ${payload.filePath}`)
@@ -268,41 +422,79 @@ async function processLoop(): Promise<void> {
         throw statErr
       }
 
-      // Step 1: Get signed upload URL
-      const { signedUrl, storagePath } = await getSignedUploadUrl(
-        payload.entryId,
-        payload.competitionId,
-        payload.type,
-        payload.objectName,
-        payload.contentType,
-        uploadRunId,
-      )
+      // Hash before sending: the digest is the local proof of exactly what went up
+      const sha256 = await ensureChecksum(job.id, payload, fileStat)
+      if (abortController.signal.aborted) throw new Error('Upload aborted')
+
+      let storagePath: string | null = null
+      if (fileStat.size > MULTIPART_THRESHOLD && multipartUnsupportedBase !== getConnection().apiBase) {
+        storagePath = await uploadMultipart(job.id, payload, uploadRunId, fileStat, sha256, abortController.signal)
+      }
+      if (storagePath === null) {
+        // Without multipart there is no way to send it — fail now rather than after an hour of uploading
+        if (fileStat.size > SINGLE_PUT_MAX_BYTES) {
+          throw new Error(
+            `${payload.objectName} is ${(fileStat.size / 1024 ** 3).toFixed(1)} GB — over the 5 GB single-upload limit, and the server has no multipart upload`,
+          )
+        }
+        // Step 1: Get signed upload URL
+        const signed = await getSignedUploadUrl(
+          payload.entryId,
+          payload.competitionId,
+          payload.type,
+          payload.objectName,
+          payload.contentType,
+          uploadRunId,
+          { sha256, size: fileStat.size },
+        )
+        storagePath = signed.storagePath
+
+        // Step 2: Upload file with timeout
+        await uploadFileToSignedUrl(signed.signedUrl, job.id, payload, abortController.signal)
+      }
 
-      // Step 2: Upload file with timeout
-      await uploadFileToSignedUrl(signedUrl, payload)
+      // Cancelled or paused after the last byte went out — don't let it count toward completion
+      if (abortController.signal.aborted) throw new Error('Upload aborted')
 
       // Persist storagePath in the job for plugin/complete
       jobQueue.updateStatus(job.id, 'done', { storagePath })
       logger.upload.info(`Uploaded: ${payload.objectName} for routine ${payload.routineId}`)
 
-      // Check if all uploads for this routine are done (exclude cancelled jobs from prior recordings)
+      // Check if all uploads for this routine are done (exclude cancelled jobs from prior recordings).
+      // Only the worker that finishes the last file sees allDone; the guard set covers
+      // the window while its /complete call is awaited.
       const updatedJobs = jobQueue.getByRoutine(payload.routineId).filter(j => j.type === 'upload' && j.status !== 'cancelled')
       const allDone = updatedJobs.every(j => j.status === 'done')
 
-      if (allDone) {
+      if (allDone && !completingRoutineIds.has(payload.routineId)) {
+        completingRoutineIds.add(payload.routineId)
         // Call plugin/complete — collect storagePaths from completed jobs + already-uploaded files
         try {
           const storagePaths: Record<string, string> = {}
           const photoStoragePaths: string[] = []
+          const photoPathsByFile = new Map<string, string>() // this batch's photo file → storagePath
+          const checksums: Record<string, FileChecksum> = {}
+          const takeStoragePaths: Record<number, Record<string, string>> = {}
 
           // Include already-uploaded files from routine state (covers prior session uploads)
           const routineState = state.getCompetition()?.routines.find(r => r.id === payload.routineId)
           if (routineState) {
             for (const f of routineState.encodedFiles || []) {
               if (f.uploaded && f.storagePath) storagePaths[f.role] = f.storagePath
+              if (f.storagePath && f.sha256 && f.size !== undefined) checksums[f.storagePath] = { sha256: f.sha256, size: f.size }
+            }
+            if (routineState.uploadAllTakes) {
+              for (const take of routineState.takes || []) {
+                for (const f of take.encodedFiles || []) {
+                  if (!f.uploaded || !f.storagePath) continue
+                  ;(takeStoragePaths[take.number] ??= {})[f.role] = f.storagePath
+                  if (f.sha256 && f.size !== undefined) checksums[f.storagePath] = { sha256: f.sha256, size: f.size }
+                }
+              }
             }
             for (const p of routineState.photos || []) {
               if (p.uploaded && p.storagePath) photoStoragePaths.push(p.storagePath)
+              if (p.storagePath && p.sha256 && p.size !== undefined) checksums[p.storagePath] = { sha256: p.sha256, size: p.size }
             }
           }
 
@@ -311,8 +503,13 @@ async function processLoop(): Promise<void> {
             const jp = doneJob.payload as unknown as UploadPayload
             const sp = (doneJob.payload as Record<string, unknown>).storagePath as string | undefined
             if (!sp) continue
+            const sum = checksumFor(doneJob.payload)
+            if (sum) checksums[sp] = sum
             if (jp.type === 'photos') {
               if (!photoStoragePaths.includes(sp)) photoStoragePaths.push(sp)
+              photoPathsByFile.set(jp.filePath, sp)
+            } else if (jp.role && jp.take !== undefined) {
+              ;(takeStoragePaths[jp.take] ??= {})[jp.role] = sp
             } else if (jp.role) {
               storagePaths[jp.role] = sp
             }
@@ -325,18 +522,22 @@ async function processLoop(): Promise<void> {
             uploadRunId,
             storagePaths,
             photoStoragePaths,
+            checksums,
+            takeStoragePaths,
           })
+          takes.markTakeFilesUploaded(payload.routineId, takeStoragePaths, checksums)
 
-          // Mark individual files as uploaded with their storage paths
+          // Mark individual files as uploaded with their storage paths and checksums
           const routine = state.getCompetition()?.routines.find(r => r.id === payload.routineId)
           if (routine) {
             const updatedFiles = (routine.encodedFiles || []).map(f => {
               const sp = storagePaths[f.role]
-              return sp ? { ...f, uploaded: true, storagePath: sp } : f
+              return sp ? { ...f, uploaded: true, storagePath: sp, ...checksums[sp] } : f
             })
-            const updatedPhotos = (routine.photos || []).map((p, i) => {
-              const sp = photoStoragePaths[i]
-              return sp ? { ...p, uploaded: true, storagePath: sp } : p
+            // By file, not position: photoStoragePaths lists earlier uploads first
+            const updatedPhotos = (routine.photos || []).map(p => {
+              const sp = photoPathsByFile.get(p.filePath)
+              return sp ? { ...p, uploaded: true, storagePath: sp, ...checksums[sp] } : p
             })
             state.updateRoutineStatus(payload.routineId, 'uploaded', {
               encodedFiles: updatedFiles,
@@ -371,10 +572,23 @@ async function processLoop(): Promise<void> {
             filesTotal: updatedJobs.length,
             error: `Completion failed: ${errMsg}. Files uploaded — retry upload to re-send.`,
           })
+        } finally {
+          completingRoutineIds.delete(payload.routineId)
         }
       }
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err)
+      // cancelRoutineUpload already marked it cancelled — failing it would put it back to pending
+      if (job.status === 'cancelled') {
+        logger.upload.info(`Upload cancelled: ${payload.objectName}`)
+        continue
+      }
+      // stopUploads aborted it — a pause is not a failed attempt, and the multipart state stays for resume
+      if (isPaused && abortController.signal.aborted) {
+        logger.upload.info(`Upload paused: ${payload.objectName}`)
+        jobQueue.requeue(job.id)
+        continue
+      }
       logger.upload.error(`Upload failed for ${payload.objectName}:`, errMsg)
       jobQueue.updateStatus(job.id, 'failed', { error: errMsg })
 
@@ -386,19 +600,17 @@ async function processLoop(): Promise<void> {
         error: errMsg,
       })
 
-      // Backoff before next attempt: 5s, 10s, 20s, 40s, 60s max
+      // Backoff before next attempt: 5s, 10s, 20s, 40s, 60s max (this worker only)
       const attempts = job.attempts || 1
       const backoffMs = Math.min(5000 * Math.pow(2, attempts - 1), 60000)
-      logger.upload.info(`Upload backoff: waiting ${backoffMs / 1000}s before next job`)
+      logger.upload.info(`Worker ${workerId} backoff: waiting ${backoffMs / 1000}s before next job`)
       await new Promise(resolve => setTimeout(resolve, backoffMs))
     } finally {
       // ALWAYS clean up abort controller
-      currentAbortController = null
-      currentAbortRoutineId = null
+      inFlight.delete(job.id)
+      inFlightFraction.delete(job.id)
     }
   }
-
-  isUploading = false
 }
 
 async function getSignedUploadUrl(
@@ -408,6 +620,7 @@ async function getSignedUploadUrl(
   filename: string,
   contentType: string,
   uploadRunId: string,
+  checksum: FileChecksum,
 ): Promise<{ signedUrl: string; storagePath: string }> {
   const { apiBase, apiKey } = getConnection()
   const abort = new AbortController()
@@ -426,6 +639,8 @@ async function getSignedUploadUrl(
         filename,
         contentType,
         uploadRunId,
+        sha256: checksum.sha256,
+        fileSize: checksum.size,
       }),
       signal: abort.signal,
     })
@@ -441,11 +656,26 @@ async function getSignedUploadUrl(
   }
 }
 
+interface PutRange {
+  start: number // inclusive byte offset
+  end: number // inclusive byte offset
+  bytesBefore: number // bytes of this file already uploaded (earlier parts)
+}
+
+/** PUT a file (or one byte range of it) to a signed URL. Resolves with the response ETag. */
 function uploadFileToSignedUrl(
   signedUrl: string,
+  jobId: string,
   payload: UploadPayload,
-): Promise<void> {
+  signal: AbortSignal,
+  range?: PutRange,
+): Promise<string | undefined> {
   return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Upload aborted'))
+      return
+    }
+
     let fileSize: number
     try {
       fileSize = fs.statSync(payload.filePath).size
@@ -454,12 +684,16 @@ function uploadFileToSignedUrl(
       return
     }
 
-    // Timeout: min 5 minutes, scales with file size (~100KB/s minimum)
-    const timeoutMs = Math.max(300000, Math.round(fileSize / 100000) * 1000)
+    const bodySize = range ? range.end - range.start + 1 : fileSize
+    const bytesBefore = range?.bytesBefore ?? 0
 
-    const fileStream = fs.createReadStream(payload.filePath)
+    const fileStream = range
+      ? fs.createReadStream(payload.filePath, { start: range.start, end: range.end })
+      : fs.createReadStream(payload.filePath)
+    const throttle = createThrottle()
     let bytesUploaded = 0
-    let lastLoggedMilestone = 0
+    let lastProgressAt = 0
+    let lastLoggedMilestone = Math.floor(Math.round((bytesBefore / fileSize) * 100) / 25) * 25
 
     const url = new URL(signedUrl)
     const httpModule = url.protocol === 'https:' ? https : http
@@ -469,14 +703,17 @@ function uploadFileToSignedUrl(
       {
         method: 'PUT',
         headers: {
-          'Content-Length': fileSize,
+          'Content-Length': bodySize,
           'Content-Type': payload.contentType,
         },
       },
       (res) => {
         clearTimeout(timer)
+        signal.removeEventListener('abort', onAbort)
         if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-          resolve()
+          res.resume()
+          const etag = res.headers.etag
+          resolve(Array.isArray(etag) ? etag[0] : etag)
         } else {
           let body = ''
           res.on('data', (chunk) => (body += chunk))
@@ -489,24 +726,26 @@ function uploadFileToSignedUrl(
 
     function cleanup(): void {
       if (!fileStream.destroyed) fileStream.destroy()
+      if (!throttle.destroyed) throttle.destroy()
       clearTimeout(timer)
+      signal.removeEventListener('abort', onAbort)
     }
 
-    // Timeout timer
-    const timer = setTimeout(() => {
+    // Stall timeout, reset by every chunk sent: a throttled or shared link may take
+    // arbitrarily long overall, but never this long without progress
+    let timer = setTimeout(onStall, UPLOAD_STALL_TIMEOUT_MS)
+    function onStall(): void {
       cleanup()
       req.destroy()
-      reject(new Error(`Upload timed out after ${timeoutMs / 1000}s`))
-    }, timeoutMs)
+      reject(new Error(`Upload stalled: nothing sent for ${UPLOAD_STALL_TIMEOUT_MS / 1000}s`))
+    }
 
-    // Abort controller for pause/cancel — tag with routine so cancel targets correctly
-    currentAbortController = new AbortController()
-    currentAbortRoutineId = payload.routineId
-    currentAbortController.signal.addEventListener('abort', () => {
+    function onAbort(): void {
       cleanup()
       req.destroy()
       reject(new Error('Upload aborted'))
-    })
+    }
+    signal.addEventListener('abort', onAbort)
 
     req.on('error', (err) => {
       cleanup()
@@ -518,27 +757,191 @@ function uploadFileToSignedUrl(
     const cachedCompleted = cachedJobs.filter(j => j.status === 'done').length
     const cachedTotal = cachedJobs.length
 
-    fileStream.on('data', (chunk) => {
+    // Count bytes after the throttle so progress and MB/s reflect what was actually sent
+    throttle.on('data', (chunk: Buffer) => {
+      clearTimeout(timer)
+      timer = setTimeout(onStall, UPLOAD_STALL_TIMEOUT_MS)
       bytesUploaded += chunk.length
-      const filePercent = Math.round((bytesUploaded / fileSize) * 100)
+      const fileBytesSent = bytesBefore + bytesUploaded
+      const filePercent = Math.round((fileBytesSent / fileSize) * 100)
 
       const milestone = Math.floor(filePercent / 25) * 25
       if (milestone > lastLoggedMilestone) {
         lastLoggedMilestone = milestone
         logger.upload.info(`Upload ${payload.objectName}: ${filePercent}%`)
-
-        const overallPercent = Math.round(((cachedCompleted + (filePercent / 100)) / cachedTotal) * 100)
-        sendProgress(payload.routineId, {
-          state: 'uploading',
-          percent: overallPercent,
-          currentFile: path.basename(payload.filePath),
-          filesCompleted: cachedCompleted,
-          filesTotal: cachedTotal,
-        })
       }
+
+      const now = Date.now()
+      if (now - lastProgressAt < PROGRESS_INTERVAL_MS) return
+      lastProgressAt = now
+
+      inFlightFraction.set(jobId, fileBytesSent / fileSize)
+      let inFlightSum = 0
+      for (const j of cachedJobs) inFlightSum += inFlightFraction.get(j.id) ?? 0
+
+      const bytesPerSec = getThroughput()
+      const remaining = remainingRoutineBytes(payload.routineId, jobId, fileSize - fileBytesSent)
+      const overallPercent = Math.round(((cachedCompleted + inFlightSum) / cachedTotal) * 100)
+      sendProgress(payload.routineId, {
+        state: 'uploading',
+        percent: overallPercent,
+        currentFile: path.basename(payload.filePath),
+        filesCompleted: cachedCompleted,
+        filesTotal: cachedTotal,
+        bytesPerSec,
+        etaSec: bytesPerSec > 0 ? Math.round(remaining / bytesPerSec) : undefined,
+      })
+    })
+
+    fileStream.pipe(throttle).pipe(req)
+  })
+}
+
+// --- Multipart (resumable) uploads ---
+
+/** POST to a plugin API route. Errors carry the HTTP status so callers can react to 404s. */
+async function postPluginApi<T>(route: string, body: Record<string, unknown>): Promise<T> {
+  const { apiBase, apiKey } = getConnection()
+  const abort = new AbortController()
+  const timer = setTimeout(() => abort.abort(), API_TIMEOUT_MS)
+  try {
+    const response = await fetch(`${apiBase}/api/plugin/${route}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: abort.signal,
+    })
+
+    if (!response.ok) {
+      const text = await response.text()
+      const err = new Error(`Plugin ${route} failed: ${response.status} ${text}`) as Error & { status?: number }
+      err.status = response.status
+      throw err
+    }
+
+    return (await response.json()) as T
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Upload a large file in parts. Every finished part is written to the job payload,
+ * so a crash, network drop or stopUploads() resumes from the last finished part.
+ * Returns the storagePath of the assembled object, or null when the server has no
+ * multipart routes (the caller falls back to a single PUT).
+ */
+async function uploadMultipart(
+  jobId: string,
+  payload: UploadPayload,
+  uploadRunId: string,
+  fileStat: fs.Stats,
+  sha256: string,
+  signal: AbortSignal,
+): Promise<string | null> {
+  let mp = payload.multipart
+
+  if (mp && (mp.fileSize !== fileStat.size || mp.fileMtimeMs !== fileStat.mtimeMs)) {
+    logger.upload.warn(`File changed since multipart upload began, restarting: ${payload.objectName}`)
+    abortMultipart(mp)
+    mp = undefined
+  } else if (mp && mp.uploadRunId !== uploadRunId) {
+    // /complete only accepts files under the current run's prefix
+    logger.upload.warn(`Multipart upload belongs to an earlier upload run, restarting: ${payload.objectName}`)
+    abortMultipart(mp)
+    mp = undefined
+  }
+
+  if (!mp) {
+    const partSize = Math.max(MULTIPART_PART_SIZE, Math.ceil(fileStat.size / MULTIPART_MAX_PARTS))
+    let created: { uploadId: string; storagePath: string }
+    try {
+      created = await postPluginApi<{ uploadId: string; storagePath: string }>('multipart/create', {
+        entryId: payload.entryId,
+        competitionId: payload.competitionId,
+        type: payload.type,
+        filename: payload.objectName,
+        contentType: payload.contentType,
+        uploadRunId,
+        fileSize: fileStat.size,
+        sha256,
+        partCount: Math.ceil(fileStat.size / partSize),
+      })
+    } catch (err) {
+      if ((err as { status?: number }).status !== 404) throw err
+      multipartUnsupportedBase = getConnection().apiBase
+      logger.upload.warn('Server has no multipart upload support, sending large files in a single request')
+      return null
+    }
+    mp = {
+      uploadId: created.uploadId,
+      storagePath: created.storagePath,
+      uploadRunId,
+      partSize,
+      fileSize: fileStat.size,
+      fileMtimeMs: fileStat.mtimeMs,
+      parts: [],
+    }
+    jobQueue.updatePayload(jobId, { multipart: mp })
+    logger.upload.info(`Multipart upload started: ${payload.objectName} (${Math.ceil(mp.fileSize / mp.partSize)} parts)`)
+  } else {
+    logger.upload.info(`Resuming multipart upload: ${payload.objectName} (${mp.parts.length} parts already done)`)
+  }
+
+  const partCount = Math.ceil(mp.fileSize / mp.partSize)
+  const donePartNumbers = new Set(mp.parts.map(p => p.partNumber))
+
+  try {
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (donePartNumbers.has(partNumber)) continue
+      if (signal.aborted) throw new Error('Upload aborted')
+
+      const start = (partNumber - 1) * mp.partSize
+      const end = Math.min(start + mp.partSize, mp.fileSize) - 1
+      const bytesBefore = mp.parts.reduce((sum, p) => sum + partLength(mp!, p.partNumber), 0)
+
+      const { signedUrl } = await postPluginApi<{ signedUrl: string }>('multipart/part-url', {
+        storagePath: mp.storagePath,
+        uploadId: mp.uploadId,
+        partNumber,
+      })
+      const etag = await uploadFileToSignedUrl(signedUrl, jobId, payload, signal, { start, end, bytesBefore })
+      if (!etag) throw new Error(`Part ${partNumber} of ${payload.objectName} returned no ETag`)
+
+      mp.parts.push({ partNumber, etag })
+      jobQueue.updatePayload(jobId, { multipart: mp })
+    }
+
+    await postPluginApi('multipart/complete', {
+      storagePath: mp.storagePath,
+      uploadId: mp.uploadId,
+      parts: [...mp.parts].sort((a, b) => a.partNumber - b.partNumber),
     })
+  } catch (err) {
+    // 404 = the server no longer knows this uploadId (expired or aborted) — start over next attempt
+    if ((err as { status?: number }).status === 404) {
+      logger.upload.warn(`Multipart session for ${payload.objectName} no longer exists, will restart from part 1`)
+      jobQueue.updatePayload(jobId, { multipart: undefined })
+    }
+    throw err
+  }
+
+  jobQueue.updatePayload(jobId, { multipart: undefined })
+  logger.upload.info(`Multipart upload complete: ${payload.objectName} (${partCount} parts)`)
+  return mp.storagePath
+}
+
+function partLength(mp: MultipartState, partNumber: number): number {
+  return Math.min(mp.partSize, mp.fileSize - (partNumber - 1) * mp.partSize)
+}
 
-    fileStream.pipe(req)
+/** Best-effort abort so the server can drop stored parts. Never throws. */
+function abortMultipart(mp: MultipartState): void {
+  postPluginApi('multipart/abort', { storagePath: mp.storagePath, uploadId: mp.uploadId }).catch((err) => {
+    logger.upload.warn(`Multipart abort failed for ${mp.storagePath}:`, err instanceof Error ? err.message : err)
   })
 }
 
@@ -549,9 +952,21 @@ async function callPluginComplete(info: {
   uploadRunId: string
   storagePaths: Record<string, string>
   photoStoragePaths: string[]
+  checksums: Record<string, FileChecksum> // by storagePath
+  takeStoragePaths?: Record<number, Record<string, string>> // parked take number → role → storagePath
 }): Promise<void> {
   const { apiBase, apiKey } = getConnection()
 
+  // Side camera angles (angle1, angle2, ...) with the names the operator gave their OBS connections
+  const routine = state.getCompetition()?.routines.find(r => r.id === info.routineId)
+  const angles = Object.entries(info.storagePaths)
+    .filter(([role]) => /^angle\d+$/.test(role))
+    .map(([role, storagePath]) => ({
+      role,
+      name: routine?.angles?.find(a => a.role === role)?.name ?? role,
+      storagePath,
+    }))
+
   const body = {
     entryId: info.entryId,
     competitionId: info.competitionId,
@@ -562,8 +977,16 @@ async function callPluginComplete(info: {
       judge2: info.storagePaths['judge2'] || undefined,
       judge3: info.storagePaths['judge3'] || undefined,
       judge4: info.storagePaths['judge4'] || undefined,
+      pip: info.storagePaths['pip'] || undefined,
+      sideBySide: info.storagePaths['side-by-side'] || undefined,
       photos: info.photoStoragePaths.length > 0 ? info.photoStoragePaths : undefined,
     },
+    angles: angles.length > 0 ? angles : undefined,
+    checksums: Object.keys(info.checksums).length > 0 ? info.checksums : undefined,
+    // Non-primary takes (re-dances) — primary stays in files
+    takes: info.takeStoragePaths && Object.keys(info.takeStoragePaths).length > 0
+      ? Object.entries(info.takeStoragePaths).map(([take, files]) => ({ take: Number(take), files }))
+      : undefined,
   }
 
   logger.upload.info(`Calling plugin/complete for routine ${info.routineId}`)
@@ -618,12 +1041,18 @@ export async function retryOrphanedCompletions(): Promise<number> {
     try {
       const storagePaths: Record<string, string> = {}
       const photoStoragePaths: string[] = []
+      const checksums: Record<string, FileChecksum> = {}
+      const takeStoragePaths: Record<number, Record<string, string>> = {}
       for (const job of activeJobs) {
         const jp = job.payload as unknown as UploadPayload
         const sp = (job.payload as Record<string, unknown>).storagePath as string | undefined
         if (!sp) continue
+        const sum = checksumFor(job.payload)
+        if (sum) checksums[sp] = sum
         if (jp.type === 'photos') {
           photoStoragePaths.push(sp)
+        } else if (jp.role && jp.take !== undefined) {
+          ;(takeStoragePaths[jp.take] ??= {})[jp.role] = sp
         } else if (jp.role) {
           storagePaths[jp.role] = sp
         }
@@ -647,7 +1076,10 @@ export async function retryOrphanedCompletions(): Promise<number> {
         uploadRunId: routine.uploadRunId,
         storagePaths,
         photoStoragePaths,
+        checksums,
+        takeStoragePaths,
       })
+      takes.markTakeFilesUploaded(routineId, takeStoragePaths, checksums)
 
       state.updateRoutineStatus(routineId, 'uploaded')
       broadcastRoutineUpdate(routineId)
@@ -716,6 +1148,80 @@ export function retryIncompletePhotoUploads(): number {
   return retried
 }
 
+/**
+ * Verify pass: ask the server for size/hash of every object we recorded as sent
+ * and re-upload any file whose server copy doesn't match. R2 objects are still
+ * overwritten on re-upload, so the local digest is the only proof of what was sent.
+ */
+export async function verifyUploads(): Promise<VerifyResult> {
+  const comp = state.getCompetition()
+  if (!comp || !hasResolvedUploadConnection()) return { checked: 0, mismatched: 0, requeued: 0, skippedReason: 'no-connection' }
+  const conn = getConnection()
+
+  let checked = 0
+  let mismatched = 0
+  let requeued = 0
+  for (const routine of comp.routines) {
+    if (routine.status !== 'uploaded' && routine.status !== 'confirmed') continue
+    const files = [...(routine.encodedFiles || []), ...(routine.photos || [])]
+      .filter(f => f.uploaded && f.storagePath && f.sha256 && f.size !== undefined)
+    if (files.length === 0) continue
+
+    let server: { objects: Array<{ storagePath: string; exists: boolean; size?: number; sha256?: string }> }
+    try {
+      server = await postPluginApi('verify', {
+        entryId: routine.id,
+        competitionId: conn.competitionId,
+        objects: files.map(f => ({ storagePath: f.storagePath, sha256: f.sha256, fileSize: f.size })),
+      })
+    } catch (err) {
+      if ((err as { status?: number }).status === 404) {
+        logger.upload.warn('Verify: server has no verify endpoint — skipping')
+        return { checked, mismatched, requeued, skippedReason: 'unsupported' }
+      }
+      logger.upload.error(`Verify failed for routine ${routine.entryNumber}:`, err instanceof Error ? err.message : err)
+      continue
+    }
+    checked += files.length
+
+    // Server may not hash (R2 doesn't natively) — size is always compared, hash when reported
+    const byPath = new Map(server.objects.map(o => [o.storagePath, o]))
+    const bad = new Set<string>()
+    for (const f of files) {
+      const o = byPath.get(f.storagePath!)
+      if (!o || !o.exists || o.size !== f.size || (o.sha256 && o.sha256.toLowerCase() !== f.sha256)) {
+        logger.upload.warn(
+          `Verify mismatch ${routine.entryNumber} ${f.storagePath}: local ${f.size}B ${f.sha256}, ` +
+          `server ${o?.exists ? `${o.size}B ${o.sha256 ?? '(no hash)'}` : 'missing'}`,
+        )
+        bad.add(f.storagePath!)
+      }
+    }
+    if (bad.size === 0) continue
+    mismatched += bad.size
+
+    // Un-mark the bad files and drop their done jobs so enqueueRoutine sends them again
+    const clear = <T extends { uploaded: boolean; storagePath?: string }>(f: T): T =>
+      f.storagePath && bad.has(f.storagePath) ? { ...f, uploaded: false } : f
+    for (const job of jobQueue.getByRoutine(routine.id)) {
+      if (job.type !== 'upload' || job.status !== 'done') continue
+      const sp = (job.payload as Record<string, unknown>).storagePath as string | undefined
+      if (sp && bad.has(sp)) jobQueue.remove(job.id)
+    }
+    const updated = state.updateRoutineStatus(routine.id, 'encoded', {
+      encodedFiles: (routine.encodedFiles || []).map(clear),
+      photos: (routine.photos || []).map(clear),
+      error: `Verify: ${bad.size} file(s) on server don't match what was sent — re-uploading`,
+    })
+    broadcastRoutineUpdate(routine.id)
+    if (updated && enqueueRoutine(updated).queuedJobs > 0) requeued++
+  }
+
+  logger.upload.info(`Verify: checked ${checked} files, ${mismatched} mismatched, ${requeued} routines re-queued`)
+  if (requeued > 0) startUploads()
+  return { checked, mismatched, requeued }
+}
+
 export function getQueueLength(): number {
   return jobQueue.getPending('upload').length + jobQueue.getRunning('upload').length
 }
@@ -3,7 +3,8 @@ import * as obs from './obs'
 import * as stateService from './state'
 import * as overlay from './overlay'
 import * as recording from './recording'
-import { WSCommandMessage, WSStateMessage, AudioLevel } from '../../shared/types'
+import * as markers from './markers'
+import { WSAlertMessage, WSCommandMessage, WSStateMessage, AudioLevel } from '../../shared/types'
 import * as chatBridge from './chatBridge'
 import { logger } from '../logger'
 import { getSettings } from './settings'
@@ -109,11 +110,11 @@ function handleMessage(ws: TaggedSocket, msg: Record<string, unknown>): void {
     return
   }
   if (msg.type === 'command') {
-    handleCommand(msg as unknown as WSCommandMessage)
+    handleCommand(msg as unknown as WSCommandMessage, ws.clientType)
   }
 }
 
-async function handleCommand(cmd: WSCommandMessage): Promise<void> {
+async function handleCommand(cmd: WSCommandMessage, client?: TaggedSocket['clientType']): Promise<void> {
   try {
     logger.app.info(`WebSocket command: ${cmd.action}${cmd.element ? ' ' + cmd.element : ''}`)
     const obsState = obs.getState()
@@ -159,6 +160,9 @@ async function handleCommand(cmd: WSCommandMessage): Promise<void> {
           overlay.toggleElement(cmd.element)
         }
         break
+      case 'marker':
+        markers.addMarker(cmd.marker ?? 'other', client === 'tablet' ? 'tablet' : 'streamdeck', cmd.label)
+        break
       case 'loadShareCode':
         if (cmd.shareCode) {
           const schedule = await import('./schedule')
@@ -227,6 +231,16 @@ export function broadcastState(): void {
   }
 }
 
+/** Alerts go to tablets only — the overlay is on air. */
+export function broadcastAlert(alert: WSAlertMessage): void {
+  const msg = JSON.stringify(alert)
+  for (const ws of clients) {
+    if (ws.readyState === WebSocket.OPEN && ws.clientType === 'tablet') {
+      ws.send(msg)
+    }
+  }
+}
+
 let lastAudioBroadcast = 0
 const AUDIO_BROADCAST_THROTTLE = 200
 
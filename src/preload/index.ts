@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron'
-import { IPC_CHANNELS, AppSettings } from '../shared/types'
+import { IPC_CHANNELS, AppSettings, ColumnMappingProfile, MarkerKind, NewRoutineInput, RoutineTrim, SceneRule, ScheduleImportOptions } from '../shared/types'
 
 const api = {
   // OBS
@@ -12,6 +12,10 @@ const api = {
   obsStopStream: () => ipcRenderer.invoke(IPC_CHANNELS.OBS_STOP_STREAM),
   obsSaveReplay: () => ipcRenderer.invoke(IPC_CHANNELS.OBS_SAVE_REPLAY),
   obsGetInputList: () => ipcRenderer.invoke(IPC_CHANNELS.OBS_INPUT_LIST),
+  obsGetAngles: () => ipcRenderer.invoke(IPC_CHANNELS.OBS_ANGLES_GET),
+  obsGetSceneList: () => ipcRenderer.invoke(IPC_CHANNELS.OBS_SCENE_LIST),
+  obsGetSceneSources: (sceneName: string) => ipcRenderer.invoke(IPC_CHANNELS.OBS_SCENE_SOURCES, sceneName),
+  sceneRuleTest: (rule: SceneRule) => ipcRenderer.invoke(IPC_CHANNELS.SCENE_RULE_TEST, rule),
 
   // Recording
   recordingNext: () => ipcRenderer.invoke(IPC_CHANNELS.RECORDING_NEXT),
@@ -20,27 +24,66 @@ const api = {
     ipcRenderer.invoke(IPC_CHANNELS.RECORDING_SKIP, routineId),
   recordingUnskip: (routineId: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.RECORDING_UNSKIP, routineId),
+  autoRecordAccept: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.AUTO_RECORD_ACCEPT, id),
+  autoRecordUndo: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.AUTO_RECORD_UNDO, id),
 
   // FFmpeg
   ffmpegEncode: (routineId: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.FFMPEG_ENCODE, routineId),
   ffmpegEncodeAll: () => ipcRenderer.invoke(IPC_CHANNELS.FFMPEG_ENCODE_ALL),
+  getWaveform: (routineId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.MEDIA_WAVEFORM, routineId),
   ffmpegPause: () => ipcRenderer.invoke(IPC_CHANNELS.FFMPEG_PAUSE),
   ffmpegResume: () => ipcRenderer.invoke(IPC_CHANNELS.FFMPEG_RESUME),
 
   // Schedule
-  scheduleLoadCSV: (filePath: string) =>
-    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_LOAD_CSV, filePath),
+  scheduleLoadCSV: (filePath: string, options?: ScheduleImportOptions) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_LOAD_CSV, filePath, options),
   scheduleLoadShareCode: (shareCode: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_LOAD_SHARE_CODE, shareCode),
   scheduleGet: () => ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_GET),
+  schedulePreviewFile: (filePath: string, options?: ScheduleImportOptions) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_PREVIEW_FILE, filePath, options),
+  schedulePreviewShareCode: (shareCode: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_PREVIEW_SHARE_CODE, shareCode),
+  scheduleApplyReload: (acceptedIds: string[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_APPLY_RELOAD, acceptedIds),
+  scheduleDiscardReload: () => ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_DISCARD_RELOAD),
   scheduleBrowseFile: () => ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_BROWSE_FILE),
+  scheduleInspectFile: (filePath: string, sheet?: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_INSPECT_FILE, filePath, sheet),
+  schedulePreviewMapping: (filePath: string, options: ScheduleImportOptions) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_PREVIEW_MAPPING, filePath, options),
+  scheduleSaveMappingProfile: (profile: Omit<ColumnMappingProfile, 'id'> & { id?: string }) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCHEDULE_SAVE_MAPPING_PROFILE, profile),
 
   // State
   jumpToRoutine: (routineId: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.STATE_JUMP_TO, routineId),
   setRoutineNote: (routineId: string, note: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.STATE_SET_NOTE, routineId, note),
+  setPrimaryTake: (routineId: string, takeNumber: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_SET_PRIMARY_TAKE, routineId, takeNumber),
+  setTakeNote: (routineId: string, takeNumber: number, note: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_SET_TAKE_NOTE, routineId, takeNumber, note),
+  setUploadAllTakes: (routineId: string, enabled: boolean) =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_SET_UPLOAD_ALL_TAKES, routineId, enabled),
+  setRoutineTrim: (routineId: string, trim: RoutineTrim | null) =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_SET_TRIM, routineId, trim),
+  addMarker: (kind: MarkerKind, label?: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.MARKER_ADD, kind, label),
+  removeMarker: (routineId: string, markerId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.MARKER_REMOVE, routineId, markerId),
+  addRoutine: (input: NewRoutineInput) =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_ADD_ROUTINE, input),
+  scratchRoutine: (routineId: string, reason: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_SCRATCH_ROUTINE, routineId, reason),
+  duplicateRoutine: (routineId: string, kind: 'redance' | 'split') =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_DUPLICATE_ROUTINE, routineId, kind),
+  renumberRoutine: (routineId: string, entryNumber: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_RENUMBER_ROUTINE, routineId, entryNumber),
+  moveRoutineToDay: (routineId: string, day: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.STATE_MOVE_ROUTINE_DAY, routineId, day),
   exportReport: () => ipcRenderer.invoke(IPC_CHANNELS.STATE_EXPORT_REPORT),
 
   // Settings
@@ -59,11 +102,16 @@ const api = {
     ipcRenderer.invoke(IPC_CHANNELS.UPLOAD_ROUTINE, routineId),
   uploadCancelRoutine: (routineId: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.UPLOAD_CANCEL_ROUTINE, routineId),
+  uploadVerify: () => ipcRenderer.invoke(IPC_CHANNELS.UPLOAD_VERIFY),
 
   // Photos
   photosBrowse: () => ipcRenderer.invoke(IPC_CHANNELS.PHOTOS_BROWSE),
   photosImport: (folderPath: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.PHOTOS_IMPORT, folderPath),
+  photosMove: (filePath: string, toRoutineId: string | null) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PHOTOS_MOVE, filePath, toRoutineId),
+  photosApplyOffset: (cameraId: string, clockOffsetMs: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PHOTOS_APPLY_OFFSET, cameraId, clockOffsetMs),
 
   // Lower Third
   ltFire: () => ipcRenderer.invoke(IPC_CHANNELS.LT_FIRE),
@@ -122,6 +170,9 @@ const api = {
   clipExecuteSort: (result: unknown, params: unknown) =>
     ipcRenderer.invoke(IPC_CHANNELS.CLIP_EXECUTE_SORT, result, params),
   clipCancel: () => ipcRenderer.invoke(IPC_CHANNELS.CLIP_CANCEL),
+  clipCluster: () => ipcRenderer.invoke(IPC_CHANNELS.CLIP_CLUSTER),
+  clipAcceptRescues: (picks: { filePath: string; routineId: string }[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CLIP_ACCEPT_RESCUES, picks),
 
   // Drive Monitor
   driveDismiss: (drivePath: string) =>
@@ -136,6 +187,12 @@ const api = {
   tetherGetState: () => ipcRenderer.invoke(IPC_CHANNELS.TETHER_GET_STATE),
   tetherListWPDDevices: () => ipcRenderer.invoke(IPC_CHANNELS.TETHER_LIST_WPD_DEVICES),
 
+  // Camera clock sync
+  clockSyncStart: () => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_SYNC_START),
+  clockSyncStop: () => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_SYNC_STOP),
+  clockSyncFromFiles: () => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_SYNC_FROM_FILES),
+  clockSyncClear: (cameraId: string) => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_SYNC_CLEAR, cameraId),
+
   // Wifi Display
   wifiDisplayGetMonitors: () => ipcRenderer.invoke(IPC_CHANNELS.WIFI_DISPLAY_GET_MONITORS),
   wifiDisplayStart: () => ipcRenderer.invoke(IPC_CHANNELS.WIFI_DISPLAY_START),
@@ -8,7 +8,13 @@ import DragHandle from './components/DragHandle'
 import Settings from './components/Settings'
 import PhotoSorter from './components/PhotoSorter'
 import RecoveryPanel from './components/RecoveryPanel'
+import TrimEditor from './components/TrimEditor'
+import ClockSyncWizard from './components/ClockSyncWizard'
+import PhotoTimeline from './components/PhotoTimeline'
+import ClusterReview from './components/ClusterReview'
 import DriveAlert from './components/DriveAlert'
+import AutoRecordPrompt from './components/AutoRecordPrompt'
+import AudioCheckAlert from './components/AudioCheckAlert'
 import './styles/app.css'
 
 function RecordingOverrunWarning(): React.ReactElement | null {
@@ -77,6 +83,10 @@ export default function App(): React.ReactElement {
   const settingsOpen = useStore((s) => s.settingsOpen)
   const photoSorterOpen = useStore((s) => s.photoSorterOpen)
   const recoveryOpen = useStore((s) => s.recoveryOpen)
+  const trimRoutineId = useStore((s) => s.trimRoutineId)
+  const clockSyncOpen = useStore((s) => s.clockSyncOpen)
+  const photoTimelineOpen = useStore((s) => s.photoTimelineOpen)
+  const clusterReviewOpen = useStore((s) => s.clusterReviewOpen)
   const compactMode = useStore((s) => s.compactMode)
   const initialized = useRef(false)
 
@@ -131,7 +141,13 @@ export default function App(): React.ReactElement {
       {settingsOpen && <Settings />}
       {photoSorterOpen && <PhotoSorter />}
       {recoveryOpen && <RecoveryPanel />}
+      {trimRoutineId && <TrimEditor routineId={trimRoutineId} />}
+      {clockSyncOpen && <ClockSyncWizard />}
+      {photoTimelineOpen && <PhotoTimeline />}
+      {clusterReviewOpen && <ClusterReview />}
       <DriveAlert />
+      <AutoRecordPrompt />
+      <AudioCheckAlert />
       <RecordingOverrunWarning />
       <StartupToast />
     </div>
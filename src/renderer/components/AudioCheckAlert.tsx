@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react'
+import { IPC_CHANNELS, type AudioCheckAlert as AudioCheckAlertData } from '../../shared/types'
+import '../styles/audio-check.css'
+
+/** Dead-mic / clipping / missing-track alerts from the post-recording audio check. Stays up until dismissed. */
+export default function AudioCheckAlert(): React.ReactElement | null {
+  const [alerts, setAlerts] = useState<AudioCheckAlertData[]>([])
+
+  useEffect(() => {
+    const unsub = window.api.on(IPC_CHANNELS.AUDIO_CHECK_ALERT, (data: unknown) => {
+      const alert = data as AudioCheckAlertData
+      setAlerts((prev) => [...prev.filter((a) => a.routineId !== alert.routineId), alert])
+    })
+    return () => { unsub() }
+  }, [])
+
+  if (alerts.length === 0) return null
+
+  return (
+    <div className="audio-check-alerts">
+      {alerts.map((alert) => (
+        <div key={alert.routineId} className="audio-check-alert">
+          <div className="aca-title">
+            Audio problem — #{alert.entryNumber} {alert.routineTitle}
+          </div>
+          <ul className="aca-issues">
+            {alert.issues.map((issue, i) => (
+              <li key={i} className={issue.kind}>{issue.detail}</li>
+            ))}
+          </ul>
+          <button
+            className="aca-dismiss"
+            onClick={() => setAlerts((prev) => prev.filter((a) => a.routineId !== alert.routineId))}
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
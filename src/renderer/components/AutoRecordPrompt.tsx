@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react'
+import { IPC_CHANNELS, type AutoRecordEvent } from '../../shared/types'
+import '../styles/auto-record.css'
+
+function describe(e: AutoRecordEvent): string {
+  const routine = `#${e.entryNumber} "${e.routineTitle}"`
+  if (e.stage === 'suggested') {
+    return e.action === 'start' ? `Music detected — start recording ${routine}?` : `Silence detected — stop recording ${routine}?`
+  }
+  return e.action === 'start' ? `Music detected — recording ${routine}` : `Silence detected — stopping ${routine}`
+}
+
+/** Audio-triggered start/stop: a suggestion to confirm, or an auto action with its undo window. */
+export default function AutoRecordPrompt(): React.ReactElement | null {
+  const [event, setEvent] = useState<AutoRecordEvent | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const unsub = window.api.on(IPC_CHANNELS.AUTO_RECORD_EVENT, (data: unknown) => {
+      setEvent(data as AutoRecordEvent | null)
+      setError('')
+    })
+    return () => { unsub() }
+  }, [])
+
+  useEffect(() => {
+    if (!event) return
+    const timer = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(timer)
+  }, [event])
+
+  if (!event) return null
+
+  const remaining = Math.max(0, Math.ceil((new Date(event.expiresAt).getTime() - now) / 1000))
+
+  async function act(call: (id: string) => Promise<unknown>): Promise<void> {
+    if (!event) return
+    const result = await call(event.id)
+    if (result && typeof result === 'object' && 'error' in result) setError(String(result.error))
+  }
+
+  return (
+    <div className={`auto-record-prompt ${event.action}`}>
+      <div className="ar-text">
+        {describe(event)}
+        <span className="ar-level">{event.levelDb} dB</span>
+      </div>
+      <div className="ar-actions">
+        {event.stage === 'suggested' && (
+          <>
+            <button className="ar-primary" onClick={() => act(window.api.autoRecordAccept)}>
+              {event.action === 'start' ? 'Start' : 'Stop'}
+            </button>
+            <button onClick={() => act(window.api.autoRecordUndo)}>Dismiss ({remaining}s)</button>
+          </>
+        )}
+        {event.stage === 'pending' && (
+          <>
+            <button className="ar-primary" onClick={() => act(window.api.autoRecordAccept)}>Stop now</button>
+            <button onClick={() => act(window.api.autoRecordUndo)}>Keep recording ({remaining}s)</button>
+          </>
+        )}
+        {event.stage === 'done' && (
+          <button onClick={() => act(window.api.autoRecordUndo)}>Undo ({remaining}s)</button>
+        )}
+      </div>
+      {error && <div className="ar-error">{error}</div>}
+    </div>
+  )
+}
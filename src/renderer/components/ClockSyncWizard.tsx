@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react'
+import QRCode from 'qrcode'
+import { useStore } from '../store/useStore'
+import {
+  CLOCK_SYNC_QR_PREFIX,
+  IPC_CHANNELS,
+  type CameraClockSync,
+  type ClockSyncFilesResult,
+} from '../../shared/types'
+import '../styles/clock-sync.css'
+
+const REFRESH_MS = 100
+
+function formatTimecode(ms: number): string {
+  const d = new Date(ms)
+  const hh = String(d.getHours()).padStart(2, '0')
+  const mm = String(d.getMinutes()).padStart(2, '0')
+  const ss = String(d.getSeconds()).padStart(2, '0')
+  return `${hh}:${mm}:${ss}.${Math.floor(d.getMilliseconds() / 100)}`
+}
+
+function formatOffset(ms: number): string {
+  return `${ms >= 0 ? '+' : ''}${(ms / 1000).toFixed(2)}s`
+}
+
+/**
+ * Camera clock sync: shows the app clock as a QR code for each photographer to
+ * shoot. Tethered bodies sync as soon as the shot arrives; card shots are read
+ * with "Read sync photos". The measured offsets replace the estimated ones.
+ */
+export default function ClockSyncWizard(): React.ReactElement {
+  const close = (): void => useStore.getState().setClockSyncOpen(false)
+  const tetherActive = useStore((s) => s.tetherState.active)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [now, setNow] = useState(Date.now())
+  const [syncs, setSyncs] = useState<CameraClockSync[]>([])
+  const [failed, setFailed] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const [reading, setReading] = useState(false)
+
+  useEffect(() => {
+    window.api.clockSyncStart().then((result: CameraClockSync[] | { error: string }) => {
+      if ('error' in result) setError(result.error)
+      else setSyncs(result)
+    }).catch(() => {})
+    const unsub = window.api.on(IPC_CHANNELS.CLOCK_SYNC_RESULT, (data: unknown) => {
+      const sync = data as CameraClockSync
+      setSyncs((prev) => [...prev.filter((s) => s.cameraId !== sync.cameraId), sync])
+    })
+    return () => {
+      unsub()
+      window.api.clockSyncStop().catch(() => {})
+    }
+  }, [])
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    if (!canvasRef.current) return
+    QRCode.toCanvas(canvasRef.current, `${CLOCK_SYNC_QR_PREFIX}${now}`, {
+      width: 360,
+      margin: 2,
+      errorCorrectionLevel: 'M',
+    }).catch(() => {})
+  }, [now])
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent): void {
+      if (e.key === 'Escape') close()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [])
+
+  async function readPhotos(): Promise<void> {
+    setReading(true)
+    setError('')
+    const result = await window.api.clockSyncFromFiles() as ClockSyncFilesResult | { error: string } | null
+    setReading(false)
+    if (!result) return
+    if ('error' in result) {
+      setError(result.error)
+      return
+    }
+    setFailed(result.failed)
+  }
+
+  async function clear(cameraId: string): Promise<void> {
+    const result = await window.api.clockSyncClear(cameraId) as CameraClockSync[] | { error: string }
+    if ('error' in result) setError(result.error)
+    else setSyncs(result)
+  }
+
+  return (
+    <div className="clock-sync-overlay" onClick={(e) => { if (e.target === e.currentTarget) close() }}>
+      <div className="clock-sync-panel">
+        <div className="clock-sync-header">
+          <h2>Sync Camera Clocks</h2>
+          <button className="clock-sync-close" onClick={close}>x</button>
+        </div>
+
+        <div className="clock-sync-body">
+          <div className="clock-sync-code">
+            <canvas ref={canvasRef} />
+            <div className="clock-sync-timecode">{formatTimecode(now)}</div>
+          </div>
+
+          <div className="clock-sync-side">
+            <ol className="clock-sync-steps">
+              <li>Photograph this screen with each camera — the code should fill about a third of the frame.</li>
+              <li>
+                {tetherActive
+                  ? 'Tethered cameras sync as soon as the photo arrives.'
+                  : 'Start tethering to sync as photos arrive, or:'}
+              </li>
+              <li>
+                For shots on a card, read them here.{' '}
+                <button className="clock-sync-btn" onClick={readPhotos} disabled={reading}>
+                  {reading ? 'Reading...' : 'Read sync photos...'}
+                </button>
+              </li>
+            </ol>
+
+            <div className="clock-sync-list">
+              {syncs.length === 0 && <div className="clock-sync-empty">No cameras synced yet</div>}
+              {syncs.map((s) => (
+                <div key={s.cameraId} className="clock-sync-row" title={s.cameraId}>
+                  <span className="clock-sync-photographer">{s.photographer}</span>
+                  <span className="clock-sync-camera">{s.label}</span>
+                  <span className="clock-sync-offset">
+                    {formatOffset(s.offsetMs)}{s.source === 'timeline' ? ' (timeline)' : s.subSecond ? '' : ' ±0.5'}
+                  </span>
+                  <button className="clock-sync-clear" onClick={() => clear(s.cameraId)} title="Forget this sync">
+                    Clear
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {failed.length > 0 && (
+              <ul className="clock-sync-failed">
+                {failed.map((f) => <li key={f}>{f}</li>)}
+              </ul>
+            )}
+            {error && <div className="clock-sync-error">{error}</div>}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
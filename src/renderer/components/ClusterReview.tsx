@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useStore } from '../store/useStore'
+import { IPC_CHANNELS, type PhotoClusterResult, type PhotoRescue } from '../../shared/types'
+import '../styles/cluster-review.css'
+
+const PRESELECT_MIN_SIM = 0.75
+
+/** Pre-tick rows where the best candidate is a confident move. */
+function preselect(rescue: PhotoRescue): boolean {
+  const top = rescue.candidates[0]
+  return top.routineId !== rescue.currentRoutineId && top.similarity >= PRESELECT_MIN_SIM
+}
+
+/**
+ * Clustering review: embeds every photo, groups them by costume and group size,
+ * and lists candidate routines for each unmatched or gap photo. The operator
+ * ticks the suggestions to keep and accepts them in one go.
+ */
+export default function ClusterReview(): React.ReactElement {
+  const close = (): void => useStore.getState().setClusterReviewOpen(false)
+  const routines = useStore((s) => s.competition?.routines ?? [])
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState<{ phase: string; current: number; total: number } | null>(null)
+  const [result, setResult] = useState<PhotoClusterResult | null>(null)
+  const [picks, setPicks] = useState<Record<string, string>>({}) // filePath → routineId
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [message, setMessage] = useState('')
+
+  const routineLabel = useMemo(() => {
+    const byId = new Map(routines.map((r) => [r.id, `#${r.entryNumber} ${r.routineTitle}`]))
+    return (id?: string): string => (id ? byId.get(id) ?? 'unknown routine' : 'Unmatched')
+  }, [routines])
+
+  useEffect(() => {
+    const unsub1 = window.api.on(IPC_CHANNELS.CLIP_PROGRESS, (data: unknown) => {
+      setProgress(data as { phase: string; current: number; total: number })
+    })
+    const unsub2 = window.api.on(IPC_CHANNELS.CLIP_MODEL_PROGRESS, (data: unknown) => {
+      const d = data as { status: string; progress: number }
+      setProgress({ phase: `Loading model: ${d.status}`, current: d.progress, total: 100 })
+    })
+    return () => {
+      unsub1()
+      unsub2()
+    }
+  }, [])
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent): void {
+      if (e.key === 'Escape') close()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [])
+
+  async function run(): Promise<void> {
+    setRunning(true)
+    setMessage('')
+    setProgress(null)
+    const res = await window.api.clipCluster() as PhotoClusterResult | { error: string }
+    setRunning(false)
+    setProgress(null)
+    if ('error' in res) {
+      setMessage(res.error)
+      return
+    }
+    setResult(res)
+    setPicks(Object.fromEntries(res.rescues.map((r) => [r.filePath, r.candidates[0].routineId])))
+    setSelected(new Set(res.rescues.filter(preselect).map((r) => r.filePath)))
+  }
+
+  function toggle(filePath: string): void {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(filePath)) next.delete(filePath)
+      else next.add(filePath)
+      return next
+    })
+  }
+
+  async function accept(): Promise<void> {
+    if (!result) return
+    const chosen = result.rescues
+      .filter((r) => selected.has(r.filePath) && picks[r.filePath] !== r.currentRoutineId)
+      .map((r) => ({ filePath: r.filePath, routineId: picks[r.filePath] }))
+    if (chosen.length === 0) return
+    setRunning(true)
+    const res = await window.api.clipAcceptRescues(chosen) as { moved: number; failed: string[] } | { error: string }
+    setRunning(false)
+    if ('error' in res) {
+      setMessage(res.error)
+      return
+    }
+    const done = new Set(chosen.map((c) => c.filePath))
+    setResult({ ...result, rescues: result.rescues.filter((r) => !done.has(r.filePath)) })
+    setSelected(new Set())
+    setMessage(
+      `Moved ${res.moved} photo${res.moved === 1 ? '' : 's'}` +
+        (res.failed.length ? ` — ${res.failed.length} failed: ${res.failed.join('; ')}` : ''),
+    )
+  }
+
+  return (
+    <div className="cr-overlay" onClick={(e) => { if (e.target === e.currentTarget) close() }}>
+      <div className="cr-panel">
+        <div className="cr-header">
+          <h2>Find Matches by Costume</h2>
+          <button className="cr-close" onClick={close}>x</button>
+        </div>
+
+        <div className="cr-controls">
+          <button className="cr-btn primary" onClick={run} disabled={running}>
+            {result ? 'Run again' : 'Cluster photos'}
+          </button>
+          {running && progress && (
+            <span className="cr-progress">
+              {progress.phase} {progress.total > 1 ? `${progress.current}/${progress.total}` : ''}
+            </span>
+          )}
+          {running && <button className="cr-btn" onClick={() => window.api.clipCancel()}>Cancel</button>}
+          {result && !running && (
+            <span className="cr-summary">
+              {result.embedded} photos in {result.clusters} clusters
+              {result.failed > 0 ? `, ${result.failed} unreadable` : ''}
+            </span>
+          )}
+          <button
+            className="cr-btn primary cr-accept"
+            onClick={accept}
+            disabled={running || selected.size === 0}
+          >
+            Accept selected ({selected.size})
+          </button>
+        </div>
+
+        <div className="cr-list">
+          {result && result.rescues.length === 0 && (
+            <div className="cr-empty">No unmatched or gap photos look like any routine</div>
+          )}
+          {result?.rescues.map((r) => (
+            <div key={r.filePath} className={`cr-row${selected.has(r.filePath) ? ' selected' : ''}`}>
+              <input type="checkbox" checked={selected.has(r.filePath)} onChange={() => toggle(r.filePath)} />
+              <img
+                className="cr-thumb"
+                src={`compsync-media://photo/${encodeURIComponent(r.filePath)}`}
+                alt=""
+                loading="lazy"
+              />
+              <div className="cr-current">
+                <span className={`cr-confidence ${r.confidence}`}>{r.confidence}</span>
+                <span>{routineLabel(r.currentRoutineId)}</span>
+              </div>
+              <select
+                value={picks[r.filePath]}
+                onChange={(e) => {
+                  const routineId = e.target.value
+                  setPicks((prev) => ({ ...prev, [r.filePath]: routineId }))
+                }}
+              >
+                {r.candidates.map((c) => (
+                  <option key={c.routineId} value={c.routineId}>
+                    {routineLabel(c.routineId)} — {Math.round(c.similarity * 100)}%
+                    {c.clusterShare > 0 ? `, ${Math.round(c.clusterShare * 100)}% of cluster` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {message && <div className="cr-message">{message}</div>}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react'
 import { useStore } from '../store/useStore'
-import type { DriveDetectedEvent, WPDDevice, WPDDeviceEvent } from '../../shared/types'
+import type { DriveDetectedEvent, PhotoCamera, WPDDevice, WPDDeviceEvent } from '../../shared/types'
 import '../styles/drive-alert.css'
 
 interface ImportProgress {
@@ -60,7 +60,10 @@ export default function DriveAlert(): React.ReactElement | null {
     })
 
     const unsubResult = window.api.on('photos:match-result', (data: unknown) => {
-      const result = data as { totalPhotos: number; matched: number; unmatched: number; clockOffsetMs: number }
+      const result = data as { totalPhotos: number; matched: number; unmatched: number; cameras: PhotoCamera[] }
+      const offsets = result.cameras
+        .filter((c) => c.clockOffsetMs !== 0)
+        .map((c) => `${c.photographer} ${Math.round(c.clockOffsetMs / 1000)}s`)
       setProgress((prev) => ({
         ...prev,
         stage: 'done',
@@ -68,7 +71,7 @@ export default function DriveAlert(): React.ReactElement | null {
         unmatched: result.unmatched,
         total: result.totalPhotos,
         message: `${result.matched} matched, ${result.unmatched} unmatched` +
-          (result.clockOffsetMs !== 0 ? ` (clock offset: ${Math.round(result.clockOffsetMs / 1000)}s)` : ''),
+          (offsets.length > 0 ? ` (clock offset: ${offsets.join(', ')})` : ''),
       }))
       setShowResults(true)
     })
@@ -22,6 +22,7 @@ function ActionBar(): React.ReactElement {
   const tetherState = useStore((s) => s.tetherState)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadsPaused, setUploadsPaused] = useState(false)
+  const [verifying, setVerifying] = useState(false)
   const [encodingPaused, setEncodingPaused] = useState(false)
   const [wifiDisplayRunning, setWifiDisplayRunning] = useState(false)
   const popoverRef = useRef<HTMLDivElement>(null)
@@ -87,7 +88,7 @@ function ActionBar(): React.ReactElement {
   async function handleImportPhotos(): Promise<void> {
     const folder = await window.api.photosBrowse()
     if (!folder) return
-    const result = await window.api.photosImport(folder) as { matched?: number; unmatched?: number; total?: number; clockOffsetMs?: number; error?: string } | undefined
+    const result = await window.api.photosImport(folder) as { matched?: number; unmatched?: number; total?: number; cameras?: PhotoCamera[]; error?: string } | undefined
     if (!result) return
     if (result.error) {
       alert(`Photo import error: ${result.error}`)
@@ -98,8 +99,13 @@ function ActionBar(): React.ReactElement {
       alert(`No JPEG photos found in the selected folder or its subfolders.`)
       return
     }
-    const offset = result.clockOffsetMs ? ` (clock offset: ${Math.round(result.clockOffsetMs / 1000)}s)` : ''
-    alert(`Photo import complete:\n\n${result.matched ?? 0} matched to routines\n${result.unmatched ?? 0} unmatched${offset}`)
+    const cameras = (result.cameras ?? []).map((c) =>
+      `${c.photographer}: ${c.photos} photos` + (c.clockOffsetMs ? ` (clock offset: ${Math.round(c.clockOffsetMs / 1000)}s)` : ''),
+    )
+    alert(
+      `Photo import complete:\n\n${result.matched ?? 0} matched to routines\n${result.unmatched ?? 0} unmatched` +
+        (cameras.length > 0 ? `\n\n${cameras.join('\n')}` : ''),
+    )
   }
 
   async function handleTabletToggle(): Promise<void> {
@@ -158,6 +164,25 @@ function ActionBar(): React.ReactElement {
     }
   }
 
+  async function handleVerifyUploads(): Promise<void> {
+    if (verifying) return
+    setVerifying(true)
+    try {
+      const result = await window.api.uploadVerify() as { checked: number; mismatched: number; requeued: number; skippedReason?: string; error?: string }
+      if (result?.error) {
+        alert(`Verify failed: ${result.error}`)
+      } else if (result?.skippedReason === 'no-connection') {
+        alert('No upload connection. Resolve a share code first.')
+      } else if (result?.skippedReason === 'unsupported') {
+        alert('The server does not support upload verification yet.')
+      } else if (result) {
+        alert(`Verified ${result.checked} uploaded files.\n\n${result.mismatched} mismatched${result.requeued > 0 ? ` — ${result.requeued} routines re-queued` : ''}`)
+      }
+    } finally {
+      setVerifying(false)
+    }
+  }
+
   async function toggleEncodePause(): Promise<void> {
     if (encodingPaused) {
       await window.api.ffmpegResume()
@@ -246,6 +271,26 @@ function ActionBar(): React.ReactElement {
         {autoWatchActive && <span className="ab-auto-badge">LIVE</span>}
       </button>
 
+      {/* Camera clock sync */}
+      <button
+        className="ab-btn clock-sync"
+        onClick={() => useStore.getState().setClockSyncOpen(true)}
+        title="Sync camera clocks: photograph an on-screen QR timecode with each camera"
+      >
+        <span className="ab-icon">{'\u23F1'}</span>
+        <span className="ab-label">Sync</span>
+      </button>
+
+      {/* Photo-to-routine timeline */}
+      <button
+        className="ab-btn photo-timeline"
+        onClick={() => useStore.getState().setPhotoTimelineOpen(true)}
+        title="Photo timeline: see and fix which routine each photo matched"
+      >
+        <span className="ab-icon">{'\u{1F5BC}'}</span>
+        <span className="ab-label">Timeline</span>
+      </button>
+
       <div className="ab-divider" />
 
       {/* Post-Event Recovery */}
@@ -297,6 +342,14 @@ function ActionBar(): React.ReactElement {
           {uploadsPaused ? '\u25B6' : '\u23F8'} Upload
           {uploadingCount > 0 && <span className="ab-count">{uploadingCount}</span>}
         </button>
+        <button
+          className="ab-pause-btn"
+          onClick={handleVerifyUploads}
+          disabled={verifying || !competition}
+          title="Compare uploaded files against the server's copies and re-upload any mismatch"
+        >
+          {verifying ? '\u21BB' : '\u2713'} Verify
+        </button>
       </div>
       {/* Helper text moved to button titles — right-click = toggle auto */}
     </div>
@@ -304,6 +357,7 @@ function ActionBar(): React.ReactElement {
 }
 import { useStore } from '../store/useStore'
 import LoadCompetition from './LoadCompetition'
+import type { PhotoCamera } from '../../shared/types'
 import '../styles/header.css'
 
 function SystemMonitor(): React.ReactElement | null {
@@ -355,6 +409,33 @@ function SystemMonitor(): React.ReactElement | null {
   )
 }
 
+function formatEta(sec: number): string {
+  if (sec < 60) return `${sec}s`
+  const m = Math.floor(sec / 60)
+  if (m < 60) return `${m}m ${sec % 60}s`
+  return `${Math.floor(m / 60)}h ${m % 60}m`
+}
+
+function UploadThroughput(): React.ReactElement | null {
+  const competition = useStore((s) => s.competition)
+  const active = competition?.routines.filter((r) => r.uploadProgress?.state === 'uploading') ?? []
+  if (active.length === 0) return null
+
+  // Throughput is pipeline-wide, so any active routine carries the same figure
+  const bytesPerSec = Math.max(...active.map((r) => r.uploadProgress?.bytesPerSec ?? 0))
+  const etas = active.map((r) => r.uploadProgress?.etaSec).filter((e): e is number => e !== undefined)
+  const eta = etas.length > 0 ? Math.max(...etas) : undefined
+
+  return (
+    <div className="header-status">
+      <span className="si" title="Current upload throughput and time left for the routine(s) uploading now">
+        {'\u2191'} {(bytesPerSec / (1024 * 1024)).toFixed(1)} MB/s
+        {eta !== undefined && <span style={{ color: 'var(--text-secondary)' }}>{'\u00B7'} {formatEta(eta)}</span>}
+      </span>
+    </div>
+  )
+}
+
 export default function Header(): React.ReactElement {
   const obsState = useStore((s) => s.obsState)
   const competition = useStore((s) => s.competition)
@@ -402,6 +483,8 @@ export default function Header(): React.ReactElement {
 
       <SystemMonitor />
 
+      <UploadThroughput />
+
       {!compactMode && <ActionBar />}
 
       <div className="header-right">
@@ -1,7 +1,221 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { useStore } from '../store/useStore'
+import type {
+  ColumnMapping,
+  ColumnMappingProfile,
+  Routine,
+  ScheduleChange,
+  ScheduleDiff,
+  ScheduleField,
+  ScheduleFileInspection,
+} from '../../shared/types'
 import '../styles/loadcomp.css'
 
+const CHANGE_LABELS: Record<ScheduleChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  renumbered: 'Renumbered',
+  retitled: 'Retitled',
+  details: 'Details',
+}
+
+const FIELD_LABELS: Array<[ScheduleField, string]> = [
+  ['entryNumber', 'Entry #'],
+  ['routineTitle', 'Routine title'],
+  ['dancers', 'Dancers'],
+  ['studioName', 'Studio'],
+  ['studioCode', 'Studio code'],
+  ['category', 'Category'],
+  ['classification', 'Classification'],
+  ['ageGroup', 'Age group'],
+  ['sizeCategory', 'Size'],
+  ['durationMinutes', 'Duration (min)'],
+  ['scheduledDay', 'Day'],
+  ['scheduledTime', 'Time'],
+  ['scheduledDateTime', 'Date + time (combined)'],
+  ['position', 'Running order'],
+  ['entryId', 'Entry ID'],
+  ['tenantId', 'Tenant ID'],
+  ['competitionId', 'Competition ID'],
+]
+
+interface MappingDraft {
+  inspection: ScheduleFileInspection
+  columns: ColumnMapping
+  profileName: string
+  saveProfile: boolean
+}
+
+function ColumnMapper({
+  draft,
+  preview,
+  previewError,
+  onChange,
+  onSheetChange,
+  onLoad,
+  onCancel,
+  loading,
+}: {
+  draft: MappingDraft
+  preview: Routine[]
+  previewError: string
+  onChange: (patch: Partial<MappingDraft>) => void
+  onSheetChange: (sheet: string) => void
+  onLoad: () => void
+  onCancel: () => void
+  loading: boolean
+}): React.ReactElement {
+  const { inspection, columns } = draft
+  const missing = !columns.entryNumber || !columns.routineTitle
+  return (
+    <div className="popover-panel">
+      <div className="reload-summary">
+        <strong>{inspection.filePath.split(/[\\/]/).pop()}</strong> — {inspection.headers.length} columns
+        {inspection.profile && <div className="reload-locked-note">Matched profile "{inspection.profile.name}"</div>}
+      </div>
+      {inspection.sheets.length > 1 && (
+        <div className="field">
+          <label>Sheet</label>
+          <select value={inspection.sheet ?? ''} onChange={(e) => onSheetChange(e.target.value)}>
+            {inspection.sheets.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+            <option value="*">All sheets (combined)</option>
+          </select>
+        </div>
+      )}
+      <div className="mapping-grid">
+        {FIELD_LABELS.map(([field, label]) => (
+          <label key={field} className={`mapping-row${(field === 'entryNumber' || field === 'routineTitle') && !columns[field] ? ' missing' : ''}`}>
+            <span>{label}</span>
+            <select
+              value={columns[field] ?? ''}
+              onChange={(e) => onChange({ columns: { ...columns, [field]: e.target.value || undefined } })}
+            >
+              <option value="">—</option>
+              {inspection.headers.map((h) => (
+                <option key={h} value={h}>{h}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div className="mapping-preview">
+        {previewError ? (
+          <div className="reload-warn">{previewError}</div>
+        ) : (
+          <table>
+            <thead>
+              <tr><th>#</th><th>Title</th><th>Studio</th><th>Day</th><th>Time</th><th>Category</th></tr>
+            </thead>
+            <tbody>
+              {preview.map((r, i) => (
+                <tr key={`${r.id}-${i}`}>
+                  <td>{r.entryNumber}</td>
+                  <td>{r.routineTitle}</td>
+                  <td>{r.studioName}</td>
+                  <td>{r.scheduledDay}</td>
+                  <td>{r.scheduledTime ?? ''}</td>
+                  <td>{r.category}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div className="mapping-profile">
+        <label>
+          <input
+            type="checkbox"
+            checked={draft.saveProfile}
+            onChange={(e) => onChange({ saveProfile: e.target.checked })}
+          />
+          Save as profile
+        </label>
+        <input
+          type="text"
+          value={draft.profileName}
+          disabled={!draft.saveProfile}
+          placeholder="Profile name"
+          onChange={(e) => onChange({ profileName: e.target.value })}
+        />
+      </div>
+      <div className="reload-actions">
+        <button className="popover-action secondary" onClick={onCancel} disabled={loading}>
+          Cancel
+        </button>
+        <button className="popover-action" onClick={onLoad} disabled={loading || missing || !!previewError}>
+          {loading ? 'Loading...' : missing ? 'Map entry # and title' : 'Load Schedule'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function ReloadReview({
+  diff,
+  accepted,
+  onToggle,
+  onSetAll,
+  onApply,
+  onCancel,
+  applying,
+}: {
+  diff: ScheduleDiff
+  accepted: Set<string>
+  onToggle: (id: string) => void
+  onSetAll: (on: boolean) => void
+  onApply: () => void
+  onCancel: () => void
+  applying: boolean
+}): React.ReactElement {
+  const lockedCount = diff.changes.filter((c) => c.locked).length
+  return (
+    <div className="popover-panel">
+      <div className="reload-summary">
+        <strong>{diff.name}</strong> — {diff.currentCount} → {diff.incomingCount} routines, {diff.changes.length} changes
+        {lockedCount > 0 && (
+          <div className="reload-locked-note">
+            {lockedCount} change{lockedCount === 1 ? '' : 's'} on routines with recorded media are locked and will be kept as-is.
+          </div>
+        )}
+      </div>
+      <div className="reload-bulk">
+        <button onClick={() => onSetAll(true)}>Accept all</button>
+        <button onClick={() => onSetAll(false)}>Reject all</button>
+      </div>
+      <div className="reload-list">
+        {diff.changes.map((c) => (
+          <label key={c.id} className={`reload-change ${c.kind}${c.locked ? ' locked' : ''}`}>
+            <input
+              type="checkbox"
+              checked={!c.locked && accepted.has(c.id)}
+              disabled={c.locked}
+              onChange={() => onToggle(c.id)}
+            />
+            <span className="reload-kind">{CHANGE_LABELS[c.kind]}</span>
+            <span className="reload-entry">#{c.entryNumber}</span>
+            <span className="reload-detail">
+              {c.before && <span className="reload-before">{c.before}</span>}
+              {c.before && c.after && ' → '}
+              {c.after && <span className="reload-after">{c.after}</span>}
+            </span>
+            {c.locked && <span className="reload-lock" title="Routine has recorded media — kept untouched">{'\u{1F512}'}</span>}
+          </label>
+        ))}
+      </div>
+      <div className="reload-actions">
+        <button className="popover-action secondary" onClick={onCancel} disabled={applying}>
+          Cancel
+        </button>
+        <button className="popover-action" onClick={onApply} disabled={applying}>
+          {applying ? 'Applying...' : `Apply ${diff.changes.filter((c) => !c.locked && accepted.has(c.id)).length} changes`}
+        </button>
+      </div>
+    </div>
+  )
+}
+
 export default function LoadCompetition(): React.ReactElement {
   const [tab, setTab] = useState<'offline' | 'live'>('live')
   const competition = useStore((s) => s.competition)
@@ -11,19 +225,169 @@ export default function LoadCompetition(): React.ReactElement {
   const [shareCode, setShareCode] = useState(settings?.compsync.shareCode || '')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
+  const [diff, setDiff] = useState<ScheduleDiff | null>(null)
+  const [accepted, setAccepted] = useState<Set<string>>(new Set())
+  const [pendingShareCode, setPendingShareCode] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<MappingDraft | null>(null)
+  const [mappingPreview, setMappingPreview] = useState<Routine[]>([])
+  const [mappingError, setMappingError] = useState('')
+
+  // Closing the popover mid-review discards the pending reload
+  const reviewing = useRef(false)
+  reviewing.current = diff !== null
+  useEffect(() => {
+    return () => {
+      if (reviewing.current) window.api.scheduleDiscardReload()
+    }
+  }, [])
+
+  async function persistShareCode(code: string): Promise<void> {
+    await window.api.settingsSet({ compsync: { shareCode: code } })
+    if (settings) {
+      useStore.getState().setSettings({ ...settings, compsync: { ...settings.compsync, shareCode: code } })
+    }
+  }
+
+  // Live preview of the mapping being edited
+  const previewSeq = useRef(0)
+  useEffect(() => {
+    if (!mapping) return
+    const seq = ++previewSeq.current
+    const { inspection, columns } = mapping
+    window.api
+      .schedulePreviewMapping(inspection.filePath, { columns, sheet: inspection.sheet ?? undefined })
+      .then((result: Routine[] | { error: string }) => {
+        if (seq !== previewSeq.current) return
+        if ('error' in result) {
+          setMappingError(result.error)
+          setMappingPreview([])
+        } else {
+          setMappingError('')
+          setMappingPreview(result)
+        }
+      })
+  }, [mapping?.inspection, mapping?.columns])
+
+  /** Preview an incoming schedule; apply straight away when there is nothing to review. Returns false on error. */
+  async function reviewReload(preview: Promise<unknown>, label: string, code?: string): Promise<boolean> {
+    const result = await preview
+    if (result && typeof result === 'object' && 'error' in result) {
+      setError(`${label}: ${(result as { error: string }).error}`)
+      return false
+    }
+    const d = result as ScheduleDiff
+    if (!d.hasCurrent || !d.sameCompetition || d.changes.length === 0) {
+      await window.api.scheduleApplyReload([])
+      if (code) await persistShareCode(code)
+      setLoadCompOpen(false)
+      return true
+    }
+    setPendingShareCode(code ?? null)
+    setAccepted(new Set(d.changes.filter((c) => !c.locked).map((c) => c.id)))
+    setDiff(d)
+    return true
+  }
+
+  /** Load a schedule file, stopping at the column mapper when the headers aren't recognized (or on request). */
+  async function openFile(filePath: string, forceMapping = false): Promise<void> {
+    const inspection = (await window.api.scheduleInspectFile(filePath)) as ScheduleFileInspection | { error: string }
+    if ('error' in inspection) {
+      setError(`Failed to load file: ${inspection.error}`)
+      return
+    }
+    if (!forceMapping && !inspection.needsMapping) {
+      await reviewReload(window.api.schedulePreviewFile(filePath), 'Failed to load file')
+      return
+    }
+    setMapping({
+      inspection,
+      columns: inspection.columns,
+      profileName: inspection.profile?.name ?? (filePath.split(/[\\/]/).pop() || '').replace(/\.[^.]+$/, ''),
+      saveProfile: true,
+    })
+  }
 
-  async function handleBrowse(): Promise<void> {
+  async function handleMappingSheet(sheet: string): Promise<void> {
+    if (!mapping) return
+    const inspection = (await window.api.scheduleInspectFile(mapping.inspection.filePath, sheet)) as ScheduleFileInspection | { error: string }
+    if ('error' in inspection) {
+      setMappingError(inspection.error)
+      return
+    }
+    setMapping({ ...mapping, inspection, columns: inspection.columns })
+  }
+
+  async function handleMappingLoad(): Promise<void> {
+    if (!mapping) return
+    const { inspection, columns } = mapping
+    const sheet = inspection.sheet ?? undefined
     setError('')
-    const filePath = await window.api.scheduleBrowseFile()
-    if (!filePath) return
     setLoading(true)
     try {
-      const result = await window.api.scheduleLoadCSV(filePath)
+      if (mapping.saveProfile) {
+        const profiles = (await window.api.scheduleSaveMappingProfile({
+          id: inspection.profile?.id,
+          name: mapping.profileName,
+          headerSignature: inspection.headerSignature,
+          columns,
+          sheet,
+        })) as ColumnMappingProfile[] | { error: string }
+        if ('error' in profiles) {
+          setError(`Saving profile failed: ${profiles.error}`)
+          return
+        }
+        if (settings) useStore.getState().setSettings({ ...settings, scheduleImport: { profiles } })
+      }
+      if (await reviewReload(window.api.schedulePreviewFile(inspection.filePath, { columns, sheet }), 'Failed to load file')) {
+        setMapping(null)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleApplyReload(): Promise<void> {
+    setLoading(true)
+    try {
+      const result = await window.api.scheduleApplyReload(Array.from(accepted))
       if (result && typeof result === 'object' && 'error' in result) {
-        setError(`Failed to load file: ${(result as { error: string }).error}`)
+        setError(`Reload failed: ${(result as { error: string }).error}`)
         return
       }
+      if (pendingShareCode) await persistShareCode(pendingShareCode)
+      setDiff(null)
       setLoadCompOpen(false)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleCancelReload(): Promise<void> {
+    await window.api.scheduleDiscardReload()
+    setDiff(null)
+    setPendingShareCode(null)
+  }
+
+  function toggleChange(id: string): void {
+    setAccepted((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  function setAllChanges(on: boolean): void {
+    setAccepted(on && diff ? new Set(diff.changes.filter((c) => !c.locked).map((c) => c.id)) : new Set())
+  }
+
+  async function handleBrowse(forceMapping = false): Promise<void> {
+    setError('')
+    const filePath = await window.api.scheduleBrowseFile()
+    if (!filePath) return
+    setLoading(true)
+    try {
+      await openFile(filePath, forceMapping)
     } catch (err) {
       setError(`Failed to load file: ${err instanceof Error ? err.message : err}`)
     } finally {
@@ -41,12 +405,7 @@ export default function LoadCompetition(): React.ReactElement {
     }
     setLoading(true)
     try {
-      const result = await window.api.scheduleLoadCSV(file.path)
-      if (result && typeof result === 'object' && 'error' in result) {
-        setError(`Failed to load file: ${(result as { error: string }).error}`)
-        return
-      }
-      setLoadCompOpen(false)
+      await openFile(file.path)
     } catch (err) {
       setError(`Failed to load file: ${err instanceof Error ? err.message : err}`)
     } finally {
@@ -63,18 +422,8 @@ export default function LoadCompetition(): React.ReactElement {
     setError('')
     setLoading(true)
     try {
-      const result = await window.api.scheduleLoadShareCode(code)
       // safeHandle returns { error } on failure instead of throwing
-      if (result && typeof result === 'object' && 'error' in result) {
-        setError(`Share code failed: ${(result as { error: string }).error}`)
-        return
-      }
-      // Persist share code to settings
-      await window.api.settingsSet({ compsync: { shareCode: code } })
-      if (settings) {
-        useStore.getState().setSettings({ ...settings, compsync: { shareCode: code } })
-      }
-      setLoadCompOpen(false)
+      await reviewReload(window.api.schedulePreviewShareCode(code), 'Share code failed', code)
     } catch (err) {
       setError(`Share code failed: ${err instanceof Error ? err.message : err}`)
     } finally {
@@ -82,6 +431,47 @@ export default function LoadCompetition(): React.ReactElement {
     }
   }
 
+  if (diff) {
+    return (
+      <div className="load-popover reviewing">
+        <div className="popover-tabs">
+          <div className="popover-tab active">Review Schedule Changes</div>
+        </div>
+        {error && <div style={{ color: 'var(--danger)', fontSize: '10px', margin: '6px 12px 0' }}>{error}</div>}
+        <ReloadReview
+          diff={diff}
+          accepted={accepted}
+          onToggle={toggleChange}
+          onSetAll={setAllChanges}
+          onApply={handleApplyReload}
+          onCancel={handleCancelReload}
+          applying={loading}
+        />
+      </div>
+    )
+  }
+
+  if (mapping) {
+    return (
+      <div className="load-popover reviewing">
+        <div className="popover-tabs">
+          <div className="popover-tab active">Map Schedule Columns</div>
+        </div>
+        {error && <div style={{ color: 'var(--danger)', fontSize: '10px', margin: '6px 12px 0' }}>{error}</div>}
+        <ColumnMapper
+          draft={mapping}
+          preview={mappingPreview}
+          previewError={mappingError}
+          onChange={(patch) => setMapping({ ...mapping, ...patch })}
+          onSheetChange={handleMappingSheet}
+          onLoad={handleMappingLoad}
+          onCancel={() => setMapping(null)}
+          loading={loading}
+        />
+      </div>
+    )
+  }
+
   return (
     <div className="load-popover">
       <div className="popover-tabs">
@@ -154,7 +544,7 @@ export default function LoadCompetition(): React.ReactElement {
           )}
           <div
             className="file-drop"
-            onClick={loading ? undefined : handleBrowse}
+            onClick={loading ? undefined : () => handleBrowse()}
             onDragOver={(e) => e.preventDefault()}
             onDrop={loading ? undefined : handleDrop}
             style={loading ? { opacity: 0.5, pointerEvents: 'none' } : undefined}
@@ -164,6 +554,9 @@ export default function LoadCompetition(): React.ReactElement {
               or click to browse
             </span>
           </div>
+          <button className="mapping-link" onClick={() => handleBrowse(true)} disabled={loading}>
+            Map columns manually...
+          </button>
           {error && <div style={{ color: 'var(--danger)', fontSize: '10px', marginTop: '6px' }}>{error}</div>}
           {competition && competition.days.length > 0 && (
             <div className="field">
@@ -0,0 +1,96 @@
+import React from 'react'
+import type { AppSettings, MultiAngleOutputs, PipPosition } from '../../shared/types'
+
+type MultiAngleSettings = AppSettings['multiAngle']
+
+/** Which outputs routines with side angles get — the defaults, or a per-event override for the loaded competition. */
+export default function MultiAngleOutputsEditor({
+  value,
+  competition,
+  angleCount,
+  onChange,
+}: {
+  value: MultiAngleSettings
+  competition: { competitionId: string; name: string } | null
+  angleCount: number
+  onChange: (value: MultiAngleSettings) => void
+}): React.ReactElement {
+  const eventCfg = competition ? value.events[competition.competitionId] : undefined
+  const cfg = eventCfg ?? value.defaults
+
+  function set(changes: Partial<MultiAngleOutputs>): void {
+    const next = { ...cfg, ...changes }
+    if (eventCfg && competition) {
+      onChange({ ...value, events: { ...value.events, [competition.competitionId]: next } })
+    } else {
+      onChange({ ...value, defaults: next })
+    }
+  }
+
+  function setPerEvent(enabled: boolean): void {
+    if (!competition) return
+    const events = { ...value.events }
+    if (enabled) events[competition.competitionId] = { ...value.defaults }
+    else delete events[competition.competitionId]
+    onChange({ ...value, events })
+  }
+
+  function toggle(label: string, desc: string, checked: boolean, onToggle: (checked: boolean) => void): React.ReactElement {
+    return (
+      <div className="toggle-row">
+        <div>
+          <div className="toggle-label">{label}</div>
+          <div className="toggle-desc">{desc}</div>
+        </div>
+        <label className="toggle-switch">
+          <input type="checkbox" checked={checked} onChange={(e) => onToggle(e.target.checked)} />
+          <span className="toggle-slider" />
+        </label>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {competition && toggle(
+        `Separate outputs for ${competition.name}`,
+        eventCfg ? 'Editing this event only' : 'Off — editing the defaults used by every event',
+        !!eventCfg,
+        setPerEvent,
+      )}
+      {toggle('Per-angle files', "Each angle's video with the performance audio", cfg.perAngle, (perAngle) => set({ perAngle }))}
+      {toggle('Picture-in-picture', 'Main video with the inset angle in a corner', cfg.pip, (pip) => set({ pip }))}
+      {toggle('Side-by-side', 'Main video and the inset angle next to each other', cfg.sideBySide, (sideBySide) => set({ sideBySide }))}
+      <div className="settings-grid">
+        <div className="field">
+          <label>Inset Angle</label>
+          <select value={cfg.insetAngle} onChange={(e) => set({ insetAngle: parseInt(e.target.value) || 1 })}>
+            {Array.from({ length: Math.max(angleCount, cfg.insetAngle, 1) }, (_, i) => (
+              <option key={i + 1} value={i + 1}>A{i + 1}</option>
+            ))}
+          </select>
+          <span className="hint">Used for picture-in-picture and side-by-side</span>
+        </div>
+        <div className="field">
+          <label>PiP Position</label>
+          <select value={cfg.pipPosition} onChange={(e) => set({ pipPosition: e.target.value as PipPosition })}>
+            <option value="top-left">Top left</option>
+            <option value="top-right">Top right</option>
+            <option value="bottom-left">Bottom left</option>
+            <option value="bottom-right">Bottom right</option>
+          </select>
+        </div>
+        <div className="field">
+          <label>PiP Size (%)</label>
+          <input
+            type="number"
+            min={15}
+            max={50}
+            value={cfg.pipSizePercent}
+            onChange={(e) => set({ pipSizePercent: Math.min(50, Math.max(15, parseInt(e.target.value) || 30)) })}
+          />
+        </div>
+      </div>
+    </>
+  )
+}
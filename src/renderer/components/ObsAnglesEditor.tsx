@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react'
+import type { OBSAngleConnection, OBSAngleState } from '../../shared/types'
+
+function statusDot(state: OBSAngleState | undefined): string {
+  if (!state) return 'dot'
+  if (state.isRecording) return 'dot recording'
+  if (state.connectionStatus === 'connected') return 'dot connected'
+  if (state.connectionStatus === 'error') return 'dot error'
+  return 'dot'
+}
+
+/** Settings editor for additional OBS instances that record side camera angles. */
+export default function ObsAnglesEditor({
+  value,
+  onChange,
+}: {
+  value: OBSAngleConnection[]
+  onChange: (value: OBSAngleConnection[]) => void
+}): React.ReactElement {
+  const [states, setStates] = useState<OBSAngleState[]>([])
+
+  useEffect(() => {
+    window.api?.obsGetAngles().then((s: OBSAngleState[]) => setStates(s || [])).catch(() => {})
+    const unsub = window.api?.on('obs:angles-state', (s: unknown) => setStates((s as OBSAngleState[]) || []))
+    return () => { unsub?.() }
+  }, [])
+
+  function updateAngle(id: string, changes: Partial<OBSAngleConnection>): void {
+    onChange(value.map((a) => (a.id === id ? { ...a, ...changes } : a)))
+  }
+
+  function addAngle(): void {
+    // Never renumber: a new connection takes the next number after the highest in use
+    const angle = Math.max(0, ...value.map((a) => a.angle)) + 1
+    onChange([
+      ...value,
+      {
+        id: crypto.randomUUID(),
+        angle,
+        name: `Angle ${angle}`,
+        url: 'ws://',
+        password: '',
+        enabled: true,
+        remotePathPrefix: '',
+        localPathPrefix: '',
+      },
+    ])
+  }
+
+  return (
+    <div className="scene-rules">
+      {value.map((angle) => {
+        const state = states.find((s) => s.id === angle.id)
+        return (
+          <div key={angle.id} className={`scene-rule${angle.enabled ? '' : ' disabled'}`}>
+            <div className="scene-rule-header">
+              <input
+                type="checkbox"
+                checked={angle.enabled}
+                onChange={(e) => updateAngle(angle.id, { enabled: e.target.checked })}
+                title="Enabled"
+              />
+              <span className={statusDot(state)} title={state?.error || state?.connectionStatus || 'not connected'} />
+              <span className="hint">A{angle.angle}</span>
+              <input
+                type="text"
+                className="scene-rule-name"
+                value={angle.name}
+                onChange={(e) => updateAngle(angle.id, { name: e.target.value })}
+                placeholder="Angle name (e.g. Stage Left)"
+              />
+              <button className="back-btn" onClick={() => onChange(value.filter((a) => a.id !== angle.id))}>
+                Delete
+              </button>
+            </div>
+            <div className="scene-rule-action">
+              <input
+                type="text"
+                value={angle.url}
+                onChange={(e) => updateAngle(angle.id, { url: e.target.value })}
+                placeholder="ws://192.168.1.20:4455"
+              />
+              <input
+                type="password"
+                value={angle.password}
+                onChange={(e) => updateAngle(angle.id, { password: e.target.value })}
+                placeholder="Password"
+              />
+            </div>
+            <div className="scene-rule-action">
+              <input
+                type="text"
+                value={angle.remotePathPrefix}
+                onChange={(e) => updateAngle(angle.id, { remotePathPrefix: e.target.value })}
+                placeholder="Recording folder on that PC (D:\Recordings)"
+              />
+              <span className="hint">→</span>
+              <input
+                type="text"
+                value={angle.localPathPrefix}
+                onChange={(e) => updateAngle(angle.id, { localPathPrefix: e.target.value })}
+                placeholder="Same folder from this PC (\\CAM2\Recordings)"
+              />
+            </div>
+            {state?.error && <span className="hint" style={{ paddingLeft: '20px' }}>{state.error}</span>}
+          </div>
+        )
+      })}
+      <button className="back-btn" onClick={addAngle}>+ Add OBS</button>
+    </div>
+  )
+}
@@ -0,0 +1,311 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useStore } from '../store/useStore'
+import type { PhotoMatch, Routine } from '../../shared/types'
+import '../styles/photo-timeline.css'
+
+const GAP_BUFFER_MS = 30_000 // same buffer matchPhotosToRoutines uses for 'gap' matches
+const RANGE_PAD_MS = 10 * 60_000
+const THUMB_PX = 40
+const MAX_LANES = 6
+const ZOOM_LEVELS = [0.1, 0.25, 0.5, 1, 2, 4] // px per second
+
+interface TimelineWindow {
+  routine: Routine
+  start: number
+  stop: number
+}
+
+interface Item {
+  photo: PhotoMatch
+  routineId: string | null
+}
+
+function formatClock(ms: number): string {
+  return new Date(ms).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: true })
+}
+
+function formatOffset(ms: number): string {
+  return `${ms >= 0 ? '+' : ''}${Math.round(ms / 1000)}s`
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Recording windows as bars with every photo plotted at its adjusted capture
+ * time, so the operator can see why a photo matched (or didn't). Photos can be
+ * dragged onto another routine or off all of them, and a camera's clock offset
+ * previewed live and then applied, which re-matches that camera's photos.
+ */
+export default function PhotoTimeline(): React.ReactElement {
+  const close = (): void => useStore.getState().setPhotoTimelineOpen(false)
+  const competition = useStore((s) => s.competition)
+  const currentRoutine = useStore((s) => s.currentRoutine)
+  const [day, setDay] = useState(currentRoutine?.scheduledDay ?? competition?.days[0] ?? '')
+  const [zoom, setZoom] = useState(2) // index into ZOOM_LEVELS
+  const [cameraId, setCameraId] = useState<string | null>(null)
+  const [draftOffset, setDraftOffset] = useState<number | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent): void {
+      if (e.key === 'Escape') close()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [])
+
+  const items = useMemo<Item[]>(() => {
+    if (!competition) return []
+    return [
+      ...competition.routines.flatMap((r) => (r.photos ?? []).map((photo) => ({ photo, routineId: r.id }))),
+      ...(competition.unmatchedPhotos ?? []).map((photo) => ({ photo, routineId: null })),
+    ]
+  }, [competition])
+
+  const cameras = useMemo(() => {
+    const byId = new Map<string, { id: string; photographer: string; offsets: number[] }>()
+    for (const { photo } of items) {
+      const id = photo.cameraId ?? ''
+      const entry = byId.get(id) ?? { id, photographer: photo.photographer || 'Unknown camera', offsets: [] }
+      entry.offsets.push(photo.clockOffsetMs ?? 0)
+      byId.set(id, entry)
+    }
+    return Array.from(byId.values()).map((c) => ({ ...c, savedOffset: median(c.offsets), count: c.offsets.length }))
+  }, [items])
+
+  const selectedCamera = cameras.find((c) => c.id === cameraId) ?? cameras[0] ?? null
+
+  const windows = useMemo<TimelineWindow[]>(() => (competition?.routines ?? [])
+    .filter((r) => r.scheduledDay === day && r.recordingStartedAt && r.recordingStoppedAt)
+    .map((r) => ({ routine: r, start: Date.parse(r.recordingStartedAt!), stop: Date.parse(r.recordingStoppedAt!) }))
+    .sort((a, b) => a.start - b.start), [competition, day])
+
+  function adjustedTime(photo: PhotoMatch): number {
+    const previewing = draftOffset !== null && selectedCamera && (photo.cameraId ?? '') === selectedCamera.id
+    return Date.parse(photo.captureTime) + (previewing ? draftOffset : photo.clockOffsetMs ?? 0)
+  }
+
+  /** Routine the draft offset would match this photo to (manual placements stay). */
+  function previewRoutineId(item: Item): string | null {
+    if (item.photo.confidence === 'manual') return item.routineId
+    const t = adjustedTime(item.photo)
+    const exact = windows.find((w) => t >= w.start && t <= w.stop)
+    const gap = exact ?? windows.find((w) => t >= w.start - GAP_BUFFER_MS && t <= w.stop + GAP_BUFFER_MS)
+    return gap?.routine.id ?? null
+  }
+
+  if (!competition) {
+    return (
+      <div className="pt-overlay" onClick={(e) => { if (e.target === e.currentTarget) close() }}>
+        <div className="pt-panel"><div className="pt-empty">No competition loaded</div></div>
+      </div>
+    )
+  }
+
+  const pxPerSec = ZOOM_LEVELS[zoom]
+  const rangeStart = windows.length > 0 ? windows[0].start - RANGE_PAD_MS : 0
+  const rangeEnd = windows.length > 0 ? Math.max(...windows.map((w) => w.stop)) + RANGE_PAD_MS : 0
+  const x = (ms: number): number => ((ms - rangeStart) / 1000) * pxPerSec
+  const width = Math.max(0, x(rangeEnd))
+
+  // Photos in range, stacked into lanes so thumbnails don't cover each other
+  const visible = items
+    .map((item) => ({ item, t: adjustedTime(item.photo) }))
+    .filter(({ t }) => t >= rangeStart && t <= rangeEnd)
+    .sort((a, b) => a.t - b.t)
+  const laneEnds: number[] = []
+  const placed = visible.map(({ item, t }) => {
+    const left = x(t) - THUMB_PX / 2
+    let lane = laneEnds.findIndex((end) => end <= left)
+    if (lane === -1) lane = laneEnds.length < MAX_LANES ? laneEnds.length : MAX_LANES - 1
+    laneEnds[lane] = left + THUMB_PX + 2
+    const preview = draftOffset !== null ? previewRoutineId(item) : item.routineId
+    return { item, t, left, lane, willMove: preview !== item.routineId }
+  })
+  const outOfRange = items.length - visible.length
+  const willMove = placed.filter((p) => p.willMove).length
+
+  const tickMin = pxPerSec >= 1 ? 5 : pxPerSec >= 0.25 ? 15 : 30
+  const ticks: number[] = []
+  if (windows.length > 0) {
+    const step = tickMin * 60_000
+    for (let t = Math.ceil(rangeStart / step) * step; t <= rangeEnd; t += step) ticks.push(t)
+  }
+
+  const routineLabel = (id: string | null): string => {
+    if (!id) return 'unmatched'
+    const r = competition.routines.find((r) => r.id === id)
+    return r ? `#${r.entryNumber}` : 'unknown routine'
+  }
+
+  async function move(filePath: string, toRoutineId: string | null): Promise<void> {
+    setDropTarget(null)
+    setError('')
+    const result = await window.api.photosMove(filePath, toRoutineId)
+    if (result && typeof result === 'object' && 'error' in result) setError(String((result as { error: string }).error))
+  }
+
+  async function applyOffset(): Promise<void> {
+    if (!selectedCamera || draftOffset === null) return
+    setBusy(true)
+    setError('')
+    const result = await window.api.photosApplyOffset(selectedCamera.id, draftOffset)
+    setBusy(false)
+    if (result && typeof result === 'object' && 'error' in result) {
+      setError(String((result as { error: string }).error))
+      return
+    }
+    setMessage(`${(result as { moved: number }).moved} photos moved`)
+    setDraftOffset(null)
+  }
+
+  function dropProps(target: string | null): React.HTMLAttributes<HTMLDivElement> {
+    const key = target ?? '__unmatched'
+    return {
+      onDragOver: (e) => { e.preventDefault(); setDropTarget(key) },
+      onDragLeave: () => setDropTarget((cur) => (cur === key ? null : cur)),
+      onDrop: (e) => {
+        e.preventDefault()
+        const filePath = e.dataTransfer.getData('text/plain')
+        if (filePath) move(filePath, target)
+      },
+    }
+  }
+
+  const offsetValue = draftOffset ?? selectedCamera?.savedOffset ?? 0
+  const sliderCenter = selectedCamera?.savedOffset ?? 0
+
+  return (
+    <div className="pt-overlay" onClick={(e) => { if (e.target === e.currentTarget) close() }}>
+      <div className="pt-panel">
+        <div className="pt-header">
+          <h2>Photo Timeline</h2>
+          <button
+            className="pt-btn pt-find"
+            onClick={() => useStore.getState().setClusterReviewOpen(true)}
+            title="Group photos by costume and group size to place unmatched and gap photos"
+          >
+            Find matches...
+          </button>
+          <button className="pt-close" onClick={close}>x</button>
+        </div>
+
+        <div className="pt-controls">
+          <label>
+            Day
+            <select value={day} onChange={(e) => setDay(e.target.value)}>
+              {competition.days.map((d) => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+          <label>
+            Camera
+            <select
+              value={selectedCamera?.id ?? ''}
+              onChange={(e) => { setCameraId(e.target.value); setDraftOffset(null) }}
+              disabled={cameras.length === 0}
+            >
+              {cameras.map((c) => (
+                <option key={c.id} value={c.id}>{c.photographer} ({c.count})</option>
+              ))}
+            </select>
+          </label>
+          <label className="pt-offset">
+            Offset
+            <input
+              type="range"
+              min={sliderCenter - 600_000}
+              max={sliderCenter + 600_000}
+              step={1000}
+              value={offsetValue}
+              disabled={!selectedCamera || busy}
+              onChange={(e) => setDraftOffset(Number(e.target.value))}
+            />
+            <input
+              type="number"
+              className="pt-offset-sec"
+              value={Math.round(offsetValue / 1000)}
+              disabled={!selectedCamera || busy}
+              onChange={(e) => setDraftOffset(Number(e.target.value) * 1000)}
+            />
+            s
+          </label>
+          {draftOffset !== null && (
+            <>
+              <span className="pt-preview">
+                was {formatOffset(sliderCenter)} · {willMove} would move
+              </span>
+              <button className="pt-btn primary" onClick={applyOffset} disabled={busy}>
+                {busy ? 'Applying...' : 'Apply offset'}
+              </button>
+              <button className="pt-btn" onClick={() => setDraftOffset(null)} disabled={busy}>Revert</button>
+            </>
+          )}
+          <div className="pt-zoom">
+            <button className="pt-btn" onClick={() => setZoom((z) => Math.max(0, z - 1))} disabled={zoom === 0}>-</button>
+            <button className="pt-btn" onClick={() => setZoom((z) => Math.min(ZOOM_LEVELS.length - 1, z + 1))} disabled={zoom === ZOOM_LEVELS.length - 1}>+</button>
+          </div>
+        </div>
+
+        {windows.length === 0 ? (
+          <div className="pt-empty">No recorded routines on {day || 'this day'}</div>
+        ) : (
+          <div className="pt-scroll">
+            <div className="pt-track" style={{ width, height: 60 + MAX_LANES * (THUMB_PX + 6) }}>
+              {ticks.map((t) => (
+                <div key={t} className="pt-tick" style={{ left: x(t) }}>
+                  <span>{new Date(t).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}</span>
+                </div>
+              ))}
+              {windows.map((w) => (
+                <div
+                  key={w.routine.id}
+                  className={`pt-window${dropTarget === w.routine.id ? ' drop' : ''}`}
+                  style={{ left: x(w.start), width: Math.max(4, x(w.stop) - x(w.start)) }}
+                  title={`#${w.routine.entryNumber} ${w.routine.routineTitle}\n${formatClock(w.start)} – ${formatClock(w.stop)}`}
+                  {...dropProps(w.routine.id)}
+                >
+                  <span className="pt-window-label">#{w.routine.entryNumber} {w.routine.routineTitle}</span>
+                  <span className="pt-window-count">{w.routine.photos?.length ?? 0}</span>
+                </div>
+              ))}
+              {placed.map(({ item, t, left, lane, willMove }) => (
+                <img
+                  key={item.photo.filePath}
+                  className={`pt-photo ${item.photo.confidence}${willMove ? ' will-move' : ''}`}
+                  src={`compsync-media://photo/${encodeURIComponent(item.photo.filePath)}`}
+                  style={{ left, top: 60 + lane * (THUMB_PX + 6), width: THUMB_PX, height: THUMB_PX }}
+                  loading="lazy"
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', item.photo.filePath)}
+                  title={[
+                    item.photo.filePath.split(/[\\/]/).pop(),
+                    item.photo.photographer ?? 'Unknown camera',
+                    `EXIF ${formatClock(Date.parse(item.photo.captureTime))} → ${formatClock(t)}`,
+                    `${item.photo.confidence} · ${routineLabel(item.routineId)}`,
+                    willMove ? `would move to ${routineLabel(previewRoutineId(item))}` : '',
+                  ].filter(Boolean).join('\n')}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className={`pt-unmatched-drop${dropTarget === '__unmatched' ? ' drop' : ''}`} {...dropProps(null)}>
+          Drop a photo here to take it off its routine
+          {outOfRange > 0 && <span className="pt-muted"> · {outOfRange} photos outside this day</span>}
+        </div>
+
+        {(message || error) && (
+          <div className={error ? 'pt-error' : 'pt-message'}>{error || message}</div>
+        )}
+      </div>
+    </div>
+  )
+}
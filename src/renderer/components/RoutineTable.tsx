@@ -1,6 +1,7 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { useStore } from '../store/useStore'
-import type { Routine, RoutineStatus } from '../../shared/types'
+import { formatOffset, MARKER_LABELS } from '../../shared/types'
+import type { FFmpegProgress, MarkerKind, Routine, RoutineStatus, RoutineTake } from '../../shared/types'
 import '../styles/table.css'
 
 // ── Pipeline stage indicators ──────────────────────────────────────
@@ -15,7 +16,7 @@ interface PipelineStage {
   detail?: string // tooltip or sub-text
 }
 
-function getPipeline(routine: Routine, judgeCount: number): PipelineStage[] {
+function getPipeline(routine: Routine, judgeCount: number, encodeProgress?: FFmpegProgress): PipelineStage[] {
   const total = judgeCount + 1
   const encoded = routine.encodedFiles?.length ?? 0
   const videosUploaded = routine.encodedFiles?.filter(f => f.uploaded).length ?? 0
@@ -50,6 +51,12 @@ function getPipeline(routine: Routine, judgeCount: number): PipelineStage[] {
     split.state = 'inactive'
     split.detail = 'Awaiting encode'
   }
+  if (encodeProgress?.loudness?.length && split.state !== 'active') {
+    const levels = encodeProgress.loudness
+      .map((l) => `${l.role === 'performance' ? 'P' : l.role.replace('judge', 'J')} ${l.integratedLufs ?? '-\u221E'}`)
+      .join(' \u00B7 ')
+    split.detail = `${split.detail ?? split.label} \u2014 LUFS ${levels}`
+  }
 
   // Stage 3: Photos
   const photos: PipelineStage = { label: 'PHOTO', state: 'inactive' }
@@ -119,7 +126,9 @@ function statusToLabel(routine: Routine): { text: string; className: string } {
     case 'pending':
       return { text: 'Waiting', className: 'waiting' }
     case 'skipped':
-      return { text: 'Skipped', className: 'waiting' }
+      return routine.scratch
+        ? { text: 'Scratched', className: 'scratched' }
+        : { text: 'Skipped', className: 'waiting' }
     case 'recording':
       return { text: 'RECORDING', className: 'recording' }
     case 'recorded':
@@ -245,6 +254,316 @@ function NoteEditor({ routine }: { routine: Routine }): React.ReactElement {
   )
 }
 
+const LOCAL_ONLY_LABELS: Record<NonNullable<Routine['localOnly']>, string> = {
+  'late-add': 'LATE ADD',
+  redance: 'RE-DANCE',
+  split: 'SPLIT',
+}
+
+type EditMode = 'menu' | 'scratch' | 'renumber' | 'move'
+
+/** Per-row schedule edits: scratch, re-dance / split copy, renumber, move day. */
+function RoutineActions({ routine, days }: { routine: Routine; days: string[] }): React.ReactElement {
+  const [mode, setMode] = useState<EditMode | null>(null)
+  const [value, setValue] = useState('')
+  const [error, setError] = useState('')
+  const ref = useRef<HTMLDivElement>(null)
+  const canScratch = routine.status === 'pending' || (routine.status === 'skipped' && !routine.scratch)
+
+  useEffect(() => {
+    if (!mode) return
+    function onDown(e: MouseEvent): void {
+      if (ref.current && !ref.current.contains(e.target as Node)) setMode(null)
+    }
+    document.addEventListener('mousedown', onDown)
+    return () => document.removeEventListener('mousedown', onDown)
+  }, [mode])
+
+  function open(next: EditMode, initial = ''): void {
+    setError('')
+    setValue(initial)
+    setMode(next)
+  }
+
+  async function run(action: Promise<unknown>): Promise<void> {
+    const result = await action
+    if (result && typeof result === 'object' && 'error' in result) {
+      setError(String((result as { error: string }).error))
+      return
+    }
+    setMode(null)
+  }
+
+  function submit(): void {
+    if (mode === 'scratch') run(window.api.scratchRoutine(routine.id, value))
+    else if (mode === 'renumber') run(window.api.renumberRoutine(routine.id, value))
+    else if (mode === 'move') run(window.api.moveRoutineToDay(routine.id, value))
+  }
+
+  return (
+    <div className="row-actions" ref={ref} onClick={(e) => e.stopPropagation()}>
+      <button className="note-btn" onClick={() => (mode ? setMode(null) : open('menu'))} title="Schedule edits">
+        {'\u22EF'}
+      </button>
+      {mode && (
+        <div className="row-menu">
+          {mode === 'menu' ? (
+            <>
+              <button disabled={!canScratch} onClick={() => open('scratch')}>Scratch...</button>
+              <button onClick={() => run(window.api.duplicateRoutine(routine.id, 'redance'))}>Re-dance copy</button>
+              <button onClick={() => run(window.api.duplicateRoutine(routine.id, 'split'))}>Split entry</button>
+              <button onClick={() => open('renumber', routine.entryNumber)}>Renumber...</button>
+              <button onClick={() => open('move', routine.scheduledDay)}>Move to day...</button>
+              {routine.outputPath && routine.status !== 'recording' && (
+                <button
+                  onClick={() => {
+                    setMode(null)
+                    useStore.getState().setTrimRoutineId(routine.id)
+                  }}
+                >
+                  Trim{routine.trim ? ' (set)' : ''}...
+                </button>
+              )}
+            </>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                submit()
+              }}
+            >
+              <label>
+                {mode === 'scratch' ? 'Scratch reason' : mode === 'renumber' ? 'New entry #' : 'Day'}
+              </label>
+              <input
+                autoFocus
+                list={mode === 'move' ? `days-${routine.id}` : undefined}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setMode(null)
+                }}
+                placeholder={mode === 'scratch' ? 'e.g. injury, no-show' : undefined}
+              />
+              {mode === 'move' && (
+                <datalist id={`days-${routine.id}`}>
+                  {days.map((d) => <option key={d} value={d} />)}
+                </datalist>
+              )}
+              <button type="submit">{mode === 'scratch' ? 'Scratch' : 'Save'}</button>
+            </form>
+          )}
+          {error && <div className="row-menu-error">{error}</div>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function takeSummary(t: Pick<RoutineTake, 'recordingStartedAt' | 'recordingStoppedAt'>): string {
+  if (!t.recordingStartedAt) return ''
+  const start = new Date(t.recordingStartedAt)
+  const time = start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  if (!t.recordingStoppedAt) return time
+  const sec = Math.round((new Date(t.recordingStoppedAt).getTime() - start.getTime()) / 1000)
+  return `${time} \u00B7 ${Math.floor(sec / 60)}m${String(sec % 60).padStart(2, '0')}s`
+}
+
+/** Re-dance takes: choose the primary (encoded + uploaded) take, note each one, upload all. */
+function TakePicker({ routine }: { routine: Routine }): React.ReactElement {
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState('')
+  const ref = useRef<HTMLDivElement>(null)
+  const primary = routine.takeNumber ?? 1
+  const busy = ['recording', 'queued', 'encoding', 'uploading'].includes(routine.status)
+  const all: RoutineTake[] = [
+    {
+      number: primary,
+      status: routine.status,
+      recordingStartedAt: routine.recordingStartedAt,
+      recordingStoppedAt: routine.recordingStoppedAt,
+      notes: routine.notes,
+    },
+    ...(routine.takes ?? []),
+  ].sort((a, b) => a.number - b.number)
+
+  useEffect(() => {
+    if (!open) return
+    function onDown(e: MouseEvent): void {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', onDown)
+    return () => document.removeEventListener('mousedown', onDown)
+  }, [open])
+
+  async function makePrimary(take: number): Promise<void> {
+    const result = await window.api.setPrimaryTake(routine.id, take)
+    setError(result && typeof result === 'object' && 'error' in result ? String(result.error) : '')
+  }
+
+  return (
+    <div className="row-actions" ref={ref} onClick={(e) => e.stopPropagation()}>
+      <button className="view-btn" onClick={() => setOpen(!open)} title="Takes">
+        T{primary}/{all.length}
+      </button>
+      {open && (
+        <div className="row-menu take-menu">
+          {all.map((t) => (
+            <div key={t.number} className={`take-row${t.number === primary ? ' primary' : ''}`}>
+              <span className="take-num">Take {t.number}</span>
+              <span className="take-time">{takeSummary(t)}</span>
+              <span className="take-status">{t.number === primary ? 'Primary' : t.status}</span>
+              <input
+                defaultValue={t.notes || ''}
+                placeholder="Note"
+                onBlur={(e) => {
+                  if (e.target.value !== (t.notes || '')) window.api.setTakeNote(routine.id, t.number, e.target.value.trim())
+                }}
+              />
+              {t.number !== primary && (
+                <button disabled={busy} onClick={() => makePrimary(t.number)}>Make primary</button>
+              )}
+            </div>
+          ))}
+          <label className="take-upload-all">
+            <input
+              type="checkbox"
+              checked={!!routine.uploadAllTakes}
+              onChange={(e) => window.api.setUploadAllTakes(routine.id, e.target.checked)}
+            />
+            Upload all takes
+          </label>
+          {error && <div className="row-menu-error">{error}</div>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const QUICK_MARKERS: MarkerKind[] = ['music-failure', 'fall', 'costume', 'judge-request']
+
+/** Operator markers: list (with remove) for any routine, quick-add while it records. */
+function MarkerMenu({ routine }: { routine: Routine }): React.ReactElement {
+  const [open, setOpen] = useState(false)
+  const [label, setLabel] = useState('')
+  const [error, setError] = useState('')
+  const ref = useRef<HTMLDivElement>(null)
+  const markers = routine.markers ?? []
+  const recording = routine.status === 'recording'
+
+  useEffect(() => {
+    if (!open) return
+    function onDown(e: MouseEvent): void {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', onDown)
+    return () => document.removeEventListener('mousedown', onDown)
+  }, [open])
+
+  async function add(kind: MarkerKind): Promise<void> {
+    const result = await window.api.addMarker(kind, label.trim() || undefined)
+    setError(result && typeof result === 'object' && 'error' in result ? String(result.error) : '')
+    setLabel('')
+  }
+
+  return (
+    <div className="row-actions" ref={ref} onClick={(e) => e.stopPropagation()}>
+      <button
+        className={`view-btn marker-btn${markers.length > 0 ? ' has-markers' : ''}`}
+        onClick={() => setOpen(!open)}
+        title={markers.length > 0
+          ? markers.map((m) => `${formatOffset(m.offsetSec)} ${m.label || MARKER_LABELS[m.kind]}`).join('\n')
+          : 'Add marker'}
+      >
+        {'\u2691'}{markers.length > 0 ? markers.length : ''}
+      </button>
+      {open && (
+        <div className="row-menu marker-menu">
+          {markers.length === 0 && <div className="marker-empty">No markers</div>}
+          {markers.map((m) => (
+            <div key={m.id} className="marker-row">
+              <span className="marker-time">{formatOffset(m.offsetSec)}</span>
+              <span className={`marker-kind kind-${m.kind}`}>{m.label || MARKER_LABELS[m.kind]}</span>
+              <span className="marker-source">{m.source}</span>
+              <button onClick={() => window.api.removeMarker(routine.id, m.id)} title="Remove marker">{'\u00D7'}</button>
+            </div>
+          ))}
+          {recording && (
+            <div className="marker-add">
+              <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label (optional)" />
+              {QUICK_MARKERS.map((kind) => (
+                <button key={kind} onClick={() => add(kind)}>{MARKER_LABELS[kind]}</button>
+              ))}
+              <button onClick={() => add('other')}>{MARKER_LABELS.other}</button>
+            </div>
+          )}
+          {error && <div className="row-menu-error">{error}</div>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Inline form for a late add, inserted after the current routine when it's on the same day. */
+function AddRoutineRow({
+  days,
+  defaultDay,
+  afterRoutineId,
+  colSpan,
+  onClose,
+}: {
+  days: string[]
+  defaultDay: string
+  afterRoutineId?: string
+  colSpan: number
+  onClose: () => void
+}): React.ReactElement {
+  const [entryNumber, setEntryNumber] = useState('')
+  const [routineTitle, setRoutineTitle] = useState('')
+  const [studioName, setStudioName] = useState('')
+  const [day, setDay] = useState(defaultDay)
+  const [error, setError] = useState('')
+
+  async function handleAdd(): Promise<void> {
+    const result = await window.api.addRoutine({
+      entryNumber,
+      routineTitle,
+      studioName,
+      scheduledDay: day,
+      afterRoutineId: day === defaultDay ? afterRoutineId : undefined,
+    })
+    if (result && typeof result === 'object' && 'error' in result) {
+      setError(String((result as { error: string }).error))
+      return
+    }
+    onClose()
+  }
+
+  return (
+    <tr className="add-routine-row">
+      <td colSpan={colSpan}>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleAdd()
+          }}
+        >
+          <input autoFocus placeholder="Entry #" value={entryNumber} onChange={(e) => setEntryNumber(e.target.value)} style={{ width: '56px' }} />
+          <input placeholder="Routine title" value={routineTitle} onChange={(e) => setRoutineTitle(e.target.value)} style={{ flex: 1 }} />
+          <input placeholder="Studio" value={studioName} onChange={(e) => setStudioName(e.target.value)} style={{ width: '110px' }} />
+          <input list="add-routine-days" placeholder="Day" value={day} onChange={(e) => setDay(e.target.value)} style={{ width: '90px' }} />
+          <datalist id="add-routine-days">
+            {days.map((d) => <option key={d} value={d} />)}
+          </datalist>
+          <button type="submit" className="view-btn" disabled={!entryNumber.trim()}>Add</button>
+          <button type="button" className="view-btn" onClick={onClose}>Cancel</button>
+          {error && <span className="row-menu-error">{error}</span>}
+        </form>
+      </td>
+    </tr>
+  )
+}
+
 export default function RoutineTable(): React.ReactElement {
   const competition = useStore((s) => s.competition)
   const currentRoutine = useStore((s) => s.currentRoutine)
@@ -253,8 +572,11 @@ export default function RoutineTable(): React.ReactElement {
   const searchQuery = useStore((s) => s.searchQuery)
   const compactMode = useStore((s) => s.compactMode)
   const obsState = useStore((s) => s.obsState)
+  const ffmpegProgress = useStore((s) => s.ffmpegProgress)
   const judgeCount = settings?.competition.judgeCount ?? 3
   const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  const [adding, setAdding] = useState(false)
+  const days = competition?.days ?? []
 
   let routines = competition?.routines ?? []
 
@@ -326,10 +648,23 @@ export default function RoutineTable(): React.ReactElement {
             {!compactMode && <th className="th-pipeline">PHOTO</th>}
             {!compactMode && <th className="th-pipeline">UP</th>}
             <th>Status</th>
-            <th></th>
+            <th>
+              {competition && (
+                <button className="note-btn" onClick={() => setAdding(!adding)} title="Late add">+</button>
+              )}
+            </th>
           </tr>
         </thead>
         <tbody>
+          {adding && (
+            <AddRoutineRow
+              days={days}
+              defaultDay={currentRoutine?.scheduledDay || dayFilter || days[0] || ''}
+              afterRoutineId={currentRoutine?.id}
+              colSpan={compactMode ? 5 : 9}
+              onClose={() => setAdding(false)}
+            />
+          )}
           {routines.map((routine) => {
             const isLive = routine.status === 'recording'
             const isNotRecorded = routine.status === 'pending' || routine.status === 'skipped'
@@ -337,7 +672,7 @@ export default function RoutineTable(): React.ReactElement {
             const statusInfo = statusToLabel(routine)
             const progress = getProgressPercent(routine)
             const barClass = getBarClass(routine.status)
-            const pipeline = getPipeline(routine, judgeCount)
+            const pipeline = getPipeline(routine, judgeCount, ffmpegProgress[routine.id])
 
             return (
               <tr
@@ -379,7 +714,17 @@ export default function RoutineTable(): React.ReactElement {
                     {isLive && <span className="live-indicator" />}
                     {routine.routineTitle}
                     {isLive && <span className="live-badge">LIVE</span>}
+                    {routine.localOnly && <span className="edit-badge">{LOCAL_ONLY_LABELS[routine.localOnly]}</span>}
+                    {(routine.audioCheck?.issues.length ?? 0) > 0 && (
+                      <span
+                        className="audio-issue-badge"
+                        title={routine.audioCheck!.issues.map((i) => i.detail).join('\n')}
+                      >
+                        AUDIO
+                      </span>
+                    )}
                   </div>
+                  {routine.scratch && <div className="r-sub">Scratched: {routine.scratch.reason}</div>}
                 </td>
                 {!compactMode && pipeline.map((stage, i) => (
                   <td key={i} className="td-pipeline" title={stage.detail || stage.label}>
@@ -414,6 +759,23 @@ export default function RoutineTable(): React.ReactElement {
                 <td>
                   <div style={{ display: 'flex', gap: '2px', alignItems: 'center' }}>
                     <NoteEditor routine={routine} />
+                    {(routine.takes?.length ?? 0) > 0 && <TakePicker routine={routine} />}
+                    {(routine.status === 'recording' || (routine.markers?.length ?? 0) > 0) && (
+                      <MarkerMenu routine={routine} />
+                    )}
+                    <RoutineActions routine={routine} days={days} />
+                    {routine.scratch && (
+                      <button
+                        className="view-btn"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          window.api.recordingUnskip(routine.id)
+                        }}
+                        title="Undo scratch"
+                      >
+                        Restore
+                      </button>
+                    )}
                     {(routine.status === 'uploading' || (routine.status === 'encoded' && routine.error)) && (
                       <button
                         className="view-btn"
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react'
+import type { AppSettings, SceneRule, SceneRuleAction, SceneRuleEvent } from '../../shared/types'
+
+const EVENT_LABELS: Record<SceneRuleEvent, string> = {
+  'routine-started': 'Routine started (recording)',
+  'recording-stopped': 'Recording stopped',
+  'lower-third-fired': 'Lower third fired',
+  'break-started': 'Break started (Starting Soon shown)',
+  'day-ended': 'Day ended (last routine recorded)',
+}
+
+const ACTION_DEFAULTS: Record<SceneRuleAction['type'], SceneRuleAction> = {
+  'switch-scene': { type: 'switch-scene', sceneName: '' },
+  'source-visibility': { type: 'source-visibility', sceneName: '', sourceName: '', visible: true },
+  'input-mute': { type: 'input-mute', inputName: '', muted: true },
+  'input-volume': { type: 'input-volume', inputName: '', volumeDb: 0 },
+}
+
+type SceneRulesSettings = AppSettings['sceneRules']
+
+/** Settings editor for OBS scene/source automation rules. Names can be typed when OBS is offline. */
+export default function SceneRulesEditor({
+  value,
+  inputs,
+  onChange,
+}: {
+  value: SceneRulesSettings
+  inputs: string[]
+  onChange: (value: SceneRulesSettings) => void
+}): React.ReactElement {
+  const [scenes, setScenes] = useState<string[]>([])
+  const [sources, setSources] = useState<Record<string, string[]>>({})
+  const [testResult, setTestResult] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    window.api?.obsGetSceneList().then((s: string[]) => setScenes(s || [])).catch(() => {})
+  }, [])
+
+  function loadSources(sceneName: string): void {
+    if (!sceneName || sources[sceneName]) return
+    window.api.obsGetSceneSources(sceneName).then((list: string[]) => {
+      setSources((prev) => ({ ...prev, [sceneName]: list || [] }))
+    }).catch(() => {})
+  }
+
+  function setRules(rules: SceneRule[]): void {
+    onChange({ ...value, rules })
+  }
+
+  function updateRule(id: string, changes: Partial<SceneRule>): void {
+    setRules(value.rules.map((r) => (r.id === id ? { ...r, ...changes } : r)))
+  }
+
+  function updateAction(rule: SceneRule, index: number, action: SceneRuleAction): void {
+    updateRule(rule.id, { actions: rule.actions.map((a, i) => (i === index ? action : a)) })
+  }
+
+  function addRule(): void {
+    setRules([
+      ...value.rules,
+      {
+        id: crypto.randomUUID(),
+        name: `Rule ${value.rules.length + 1}`,
+        enabled: true,
+        event: 'routine-started',
+        delayMs: 0,
+        actions: [ACTION_DEFAULTS['switch-scene']],
+      },
+    ])
+  }
+
+  async function testRule(rule: SceneRule): Promise<void> {
+    const result = await window.api.sceneRuleTest(rule)
+    const message = result?.error
+      ? String(result.error)
+      : result?.errors?.length ? result.errors.join('; ') : 'OK'
+    setTestResult((prev) => ({ ...prev, [rule.id]: message }))
+  }
+
+  function renderAction(rule: SceneRule, action: SceneRuleAction, index: number): React.ReactElement {
+    return (
+      <div key={index} className="scene-rule-action">
+        <select
+          value={action.type}
+          onChange={(e) => updateAction(rule, index, ACTION_DEFAULTS[e.target.value as SceneRuleAction['type']])}
+        >
+          <option value="switch-scene">Switch scene</option>
+          <option value="source-visibility">Source visibility</option>
+          <option value="input-mute">Input mute</option>
+          <option value="input-volume">Input volume</option>
+        </select>
+        {(action.type === 'switch-scene' || action.type === 'source-visibility') && (
+          <input
+            type="text"
+            list="scene-rule-scenes"
+            placeholder="Scene"
+            value={action.sceneName}
+            onChange={(e) => updateAction(rule, index, { ...action, sceneName: e.target.value })}
+            onBlur={(e) => loadSources(e.target.value)}
+          />
+        )}
+        {action.type === 'source-visibility' && (
+          <>
+            <input
+              type="text"
+              list={`scene-rule-sources-${action.sceneName}`}
+              placeholder="Source"
+              value={action.sourceName}
+              onFocus={() => loadSources(action.sceneName)}
+              onChange={(e) => updateAction(rule, index, { ...action, sourceName: e.target.value })}
+            />
+            <datalist id={`scene-rule-sources-${action.sceneName}`}>
+              {(sources[action.sceneName] ?? []).map((s) => <option key={s} value={s} />)}
+            </datalist>
+            <select
+              value={action.visible ? 'show' : 'hide'}
+              onChange={(e) => updateAction(rule, index, { ...action, visible: e.target.value === 'show' })}
+            >
+              <option value="show">Show</option>
+              <option value="hide">Hide</option>
+            </select>
+          </>
+        )}
+        {(action.type === 'input-mute' || action.type === 'input-volume') && (
+          <input
+            type="text"
+            list="scene-rule-inputs"
+            placeholder="Input"
+            value={action.inputName}
+            onChange={(e) => updateAction(rule, index, { ...action, inputName: e.target.value })}
+          />
+        )}
+        {action.type === 'input-mute' && (
+          <select
+            value={action.muted ? 'mute' : 'unmute'}
+            onChange={(e) => updateAction(rule, index, { ...action, muted: e.target.value === 'mute' })}
+          >
+            <option value="mute">Mute</option>
+            <option value="unmute">Unmute</option>
+          </select>
+        )}
+        {action.type === 'input-volume' && (
+          <input
+            type="number"
+            min={-100}
+            max={26}
+            step={1}
+            value={action.volumeDb}
+            onChange={(e) => updateAction(rule, index, { ...action, volumeDb: parseFloat(e.target.value) || 0 })}
+            title="Volume (dB)"
+          />
+        )}
+        <button
+          className="scene-rule-remove"
+          onClick={() => updateRule(rule.id, { actions: rule.actions.filter((_, i) => i !== index) })}
+          title="Remove action"
+        >
+          ×
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="scene-rules">
+      <datalist id="scene-rule-scenes">
+        {scenes.map((s) => <option key={s} value={s} />)}
+      </datalist>
+      <datalist id="scene-rule-inputs">
+        {inputs.map((s) => <option key={s} value={s} />)}
+      </datalist>
+
+      <div className="toggle-row">
+        <div>
+          <div className="toggle-label">Run scene rules</div>
+          <div className="toggle-desc">Turn off to keep every rule without running any</div>
+        </div>
+        <label className="toggle-switch">
+          <input
+            type="checkbox"
+            checked={value.enabled}
+            onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          />
+          <span className="toggle-slider" />
+        </label>
+      </div>
+
+      {value.rules.map((rule) => (
+        <div key={rule.id} className={`scene-rule${rule.enabled ? '' : ' disabled'}`}>
+          <div className="scene-rule-header">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              title="Enabled"
+            />
+            <input
+              type="text"
+              className="scene-rule-name"
+              value={rule.name}
+              onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+            />
+            <select
+              value={rule.event}
+              onChange={(e) => updateRule(rule.id, { event: e.target.value as SceneRuleEvent })}
+            >
+              {(Object.keys(EVENT_LABELS) as SceneRuleEvent[]).map((ev) => (
+                <option key={ev} value={ev}>{EVENT_LABELS[ev]}</option>
+              ))}
+            </select>
+            <span className="hint">after</span>
+            <input
+              type="number"
+              className="scene-rule-delay"
+              min={0}
+              max={60}
+              step={0.5}
+              value={rule.delayMs / 1000}
+              onChange={(e) => updateRule(rule.id, { delayMs: Math.round(parseFloat(e.target.value || '0') * 1000) })}
+            />
+            <span className="hint">s</span>
+            <button className="back-btn" onClick={() => testRule(rule)}>Test</button>
+            <button className="back-btn" onClick={() => setRules(value.rules.filter((r) => r.id !== rule.id))}>
+              Delete
+            </button>
+          </div>
+          {rule.actions.map((action, i) => renderAction(rule, action, i))}
+          <div className="field-row">
+            <button
+              className="back-btn"
+              onClick={() => updateRule(rule.id, { actions: [...rule.actions, ACTION_DEFAULTS['switch-scene']] })}
+            >
+              + Action
+            </button>
+            {testResult[rule.id] && <span className="hint">Test: {testResult[rule.id]}</span>}
+          </div>
+        </div>
+      ))}
+
+      <button className="back-btn" onClick={addRule}>+ Add rule</button>
+    </div>
+  )
+}
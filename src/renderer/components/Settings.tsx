@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { useStore } from '../store/useStore'
-import type { AppSettings, MonitorInfo } from '../../shared/types'
+import type { AppSettings, AutoRecordMode, MonitorInfo } from '../../shared/types'
+import SceneRulesEditor from './SceneRulesEditor'
+import ObsAnglesEditor from './ObsAnglesEditor'
+import MultiAngleOutputsEditor from './MultiAngleOutputsEditor'
 import '../styles/settings.css'
 
 // --- Hotkey Capture Component ---
@@ -69,6 +72,7 @@ function HotkeyInput({
 export default function Settings(): React.ReactElement {
   const currentSettings = useStore((s) => s.settings)
   const setSettingsOpen = useStore((s) => s.setSettingsOpen)
+  const competition = useStore((s) => s.competition)
   const [draft, setDraft] = useState<AppSettings | null>(null)
   const [obsInputs, setObsInputs] = useState<string[]>([])
   const [namingPreview, setNamingPreview] = useState('')
@@ -328,7 +332,99 @@ export default function Settings(): React.ReactElement {
               </select>
               <span className="hint">Lower priority prevents FFmpeg from affecting OBS/streaming performance.</span>
             </div>
+            <div className="field">
+              <label>Embedded Metadata</label>
+              <div className="toggle-row" style={{ padding: 0, border: 'none' }}>
+                <div>
+                  <div className="toggle-label">Tag encoded files</div>
+                  <div className="toggle-desc">
+                    Routine, studio, entry and event in each MP4 with a cover frame. Judge files get a chapter per
+                    marker and note line — start a note line with a time (2:10 fall) to place it.
+                  </div>
+                </div>
+                <label className="toggle-switch">
+                  <input
+                    type="checkbox"
+                    checked={draft.ffmpeg.embedMetadata ?? true}
+                    onChange={(e) => update('ffmpeg', { embedMetadata: e.target.checked })}
+                  />
+                  <span className="toggle-slider" />
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Audio loudness (EBU R128) */}
+        <div className="settings-section">
+          <div className="settings-section-title">Audio Loudness</div>
+          {([
+            ['normalizePerformance', 'Normalize performance audio', 'EBU R128 two-pass normalization of the performance track'],
+            ['normalizeJudges', 'Normalize judge commentary', 'Evens out judge mics recorded at very different levels'],
+          ] as const).map(([key, label, desc]) => (
+            <div className="toggle-row" key={key}>
+              <div>
+                <div className="toggle-label">{label}</div>
+                <div className="toggle-desc">{desc}</div>
+              </div>
+              <label className="toggle-switch">
+                <input
+                  type="checkbox"
+                  checked={draft.ffmpeg.loudness[key]}
+                  onChange={(e) => update('ffmpeg', { loudness: { ...draft.ffmpeg.loudness, [key]: e.target.checked } })}
+                />
+                <span className="toggle-slider" />
+              </label>
+            </div>
+          ))}
+          <div className="settings-grid">
+            <div className="field">
+              <label>Performance Target (LUFS)</label>
+              <input
+                type="number"
+                min={-30}
+                max={-8}
+                step={0.5}
+                value={draft.ffmpeg.loudness.performanceTargetLufs}
+                onChange={(e) => update('ffmpeg', {
+                  loudness: { ...draft.ffmpeg.loudness, performanceTargetLufs: parseFloat(e.target.value) || -16 },
+                })}
+              />
+            </div>
+            <div className="field">
+              <label>Judge Target (LUFS)</label>
+              <input
+                type="number"
+                min={-30}
+                max={-8}
+                step={0.5}
+                value={draft.ffmpeg.loudness.judgeTargetLufs}
+                onChange={(e) => update('ffmpeg', {
+                  loudness: { ...draft.ffmpeg.loudness, judgeTargetLufs: parseFloat(e.target.value) || -18 },
+                })}
+              />
+            </div>
+            {Array.from({ length: judgeCount }, (_, i) => (
+              <div className="field" key={i}>
+                <label>Judge {i + 1} Gain (dB)</label>
+                <input
+                  type="number"
+                  min={-20}
+                  max={20}
+                  step={0.5}
+                  value={draft.ffmpeg.loudness.judgeGainDb[i] ?? 0}
+                  onChange={(e) => {
+                    const judgeGainDb = Array.from({ length: judgeCount }, (_, j) => draft.ffmpeg.loudness.judgeGainDb[j] ?? 0)
+                    judgeGainDb[i] = parseFloat(e.target.value) || 0
+                    update('ffmpeg', { loudness: { ...draft.ffmpeg.loudness, judgeGainDb } })
+                  }}
+                />
+              </div>
+            ))}
           </div>
+          <span className="hint">
+            Gain is applied after normalization. Measured loudness of every track shows on the SPLIT stage of each routine.
+          </span>
         </div>
 
         {/* OBS Connection - LOWER in menu */}
@@ -380,6 +476,29 @@ export default function Settings(): React.ReactElement {
           </div>
         </div>
 
+        {/* Additional OBS (camera angles) */}
+        <div className="settings-section">
+          <div className="settings-section-title">Camera Angles (Additional OBS)</div>
+          <p className="section-desc">
+            Other camera PCs running OBS start and stop recording with the main one. Each file is moved next to the
+            routine's recording and encoded as its own angle. If that PC records to a local drive, map its folder to
+            a share this PC can read.
+          </p>
+          <ObsAnglesEditor
+            value={draft.obsAngles}
+            onChange={(obsAngles) => setDraft({ ...draft, obsAngles })}
+          />
+          <p className="section-desc" style={{ marginTop: '12px' }}>
+            Outputs encoded for routines with angles. Composites are always re-encoded, even in stream copy mode.
+          </p>
+          <MultiAngleOutputsEditor
+            value={draft.multiAngle}
+            competition={competition}
+            angleCount={Math.max(0, ...draft.obsAngles.map((a) => a.angle))}
+            onChange={(multiAngle) => setDraft({ ...draft, multiAngle })}
+          />
+        </div>
+
         {/* Overlay Browser Source */}
         <div className="settings-section">
           <div className="settings-section-title">Overlay</div>
@@ -595,6 +714,34 @@ export default function Settings(): React.ReactElement {
                 onChange={(v) => update('hotkeys', { saveReplay: v })}
               />
             </div>
+            <div className="field">
+              <label>Mark: Music Failure</label>
+              <HotkeyInput
+                value={draft.hotkeys.markerMusicFailure}
+                onChange={(v) => update('hotkeys', { markerMusicFailure: v })}
+              />
+            </div>
+            <div className="field">
+              <label>Mark: Fall</label>
+              <HotkeyInput
+                value={draft.hotkeys.markerFall}
+                onChange={(v) => update('hotkeys', { markerFall: v })}
+              />
+            </div>
+            <div className="field">
+              <label>Mark: Costume Malfunction</label>
+              <HotkeyInput
+                value={draft.hotkeys.markerCostume}
+                onChange={(v) => update('hotkeys', { markerCostume: v })}
+              />
+            </div>
+            <div className="field">
+              <label>Mark: Judge Request</label>
+              <HotkeyInput
+                value={draft.hotkeys.markerJudgeRequest}
+                onChange={(v) => update('hotkeys', { markerJudgeRequest: v })}
+              />
+            </div>
           </div>
         </div>
 
@@ -667,6 +814,115 @@ export default function Settings(): React.ReactElement {
           </div>
         </div>
 
+        {/* Scene Rules */}
+        <div className="settings-section">
+          <div className="settings-section-title">Scene Rules</div>
+          <p className="section-desc">
+            Switch scenes, show or hide sources, and mute or set the volume of inputs in OBS when routine lifecycle
+            events happen. Each rule's actions run in order after its delay.
+          </p>
+          <SceneRulesEditor
+            value={draft.sceneRules}
+            inputs={obsInputs}
+            onChange={(sceneRules) => setDraft({ ...draft, sceneRules })}
+          />
+        </div>
+
+        {/* Auto-Record */}
+        <div className="settings-section">
+          <div className="settings-section-title">Auto-Record</div>
+          <p className="section-desc">
+            Watches the Performance audio source for music onset and sustained silence. Auto stops wait out the
+            undo window before stopping; an undone auto start is discarded as a false start.
+          </p>
+          <div className="settings-grid">
+            <div className="field">
+              <label>Mode</label>
+              <select
+                value={draft.autoRecord.mode}
+                onChange={(e) => update('autoRecord', { mode: e.target.value as AutoRecordMode })}
+              >
+                <option value="off">Off</option>
+                <option value="suggest">Suggest (operator confirms)</option>
+                <option value="auto">Automatic (with undo)</option>
+              </select>
+              <span className="hint">Needs a Performance source in Audio Configuration</span>
+            </div>
+            <div className="field">
+              <label>Music threshold (dB)</label>
+              <input
+                type="number"
+                min={-80}
+                max={0}
+                step={1}
+                value={draft.autoRecord.onsetThresholdDb}
+                onChange={(e) => update('autoRecord', { onsetThresholdDb: parseFloat(e.target.value) || 0 })}
+              />
+              <span className="hint">Performance level that counts as music</span>
+            </div>
+            <div className="field">
+              <label>Music hold (seconds)</label>
+              <input
+                type="number"
+                min={0.5}
+                max={30}
+                step={0.5}
+                value={draft.autoRecord.onsetHoldSec}
+                onChange={(e) => update('autoRecord', { onsetHoldSec: parseFloat(e.target.value) || 0 })}
+              />
+              <span className="hint">Music this long while idle starts the current (or next) pending routine</span>
+            </div>
+            <div className="field">
+              <label>Silence threshold (dB)</label>
+              <input
+                type="number"
+                min={-90}
+                max={0}
+                step={1}
+                value={draft.autoRecord.silenceThresholdDb}
+                onChange={(e) => update('autoRecord', { silenceThresholdDb: parseFloat(e.target.value) || 0 })}
+              />
+              <span className="hint">Below this the performance input counts as silent</span>
+            </div>
+            <div className="field">
+              <label>Silence hold (seconds)</label>
+              <input
+                type="number"
+                min={1}
+                max={60}
+                step={0.5}
+                value={draft.autoRecord.silenceHoldSec}
+                onChange={(e) => update('autoRecord', { silenceHoldSec: parseFloat(e.target.value) || 0 })}
+              />
+              <span className="hint">Silence this long while recording stops the recording</span>
+            </div>
+            <div className="field">
+              <label>Minimum recording (seconds)</label>
+              <input
+                type="number"
+                min={0}
+                max={600}
+                step={5}
+                value={draft.autoRecord.minRecordingSec}
+                onChange={(e) => update('autoRecord', { minRecordingSec: parseFloat(e.target.value) || 0 })}
+              />
+              <span className="hint">Never auto-stop a recording shorter than this</span>
+            </div>
+            <div className="field">
+              <label>Undo window (seconds)</label>
+              <input
+                type="number"
+                min={2}
+                max={60}
+                step={1}
+                value={draft.autoRecord.undoWindowSec}
+                onChange={(e) => update('autoRecord', { undoWindowSec: parseFloat(e.target.value) || 0 })}
+              />
+              <span className="hint">How long an auto action can be undone, or a suggestion stays up</span>
+            </div>
+          </div>
+        </div>
+
         {/* Photo Tether */}
         <div className="settings-section">
           <div className="settings-section-title">Photo Tether</div>
@@ -717,6 +973,143 @@ export default function Settings(): React.ReactElement {
           </div>
         </div>
 
+        {/* Upload Bandwidth */}
+        <div className="settings-section">
+          <div className="settings-section-title">Upload Bandwidth</div>
+          <p className="section-desc">
+            Cap upload speed so uploads don't starve the livestream on the venue uplink. 0 = unlimited.
+          </p>
+          <div className="settings-grid">
+            <div className="field">
+              <label>Max Rate (Mbps)</label>
+              <input
+                type="number"
+                min={0}
+                max={1000}
+                step={0.5}
+                value={draft.upload?.maxRateMbps ?? 0}
+                onChange={(e) => update('upload', { maxRateMbps: parseFloat(e.target.value) || 0 })}
+              />
+              <span className="hint">Used when OBS is not streaming, and during breaks.</span>
+            </div>
+            <div className="field">
+              <label>Rate While Streaming (Mbps)</label>
+              <input
+                type="number"
+                min={0}
+                max={1000}
+                step={0.5}
+                value={draft.upload?.streamingRateMbps ?? 5}
+                onChange={(e) => update('upload', { streamingRateMbps: parseFloat(e.target.value) || 0 })}
+              />
+              <span className="hint">Tighter cap applied automatically while OBS is live.</span>
+            </div>
+            <div className="field">
+              <label>Relax After Idle (minutes)</label>
+              <input
+                type="number"
+                min={0}
+                max={120}
+                value={draft.upload?.relaxAfterIdleMinutes ?? 10}
+                onChange={(e) => update('upload', { relaxAfterIdleMinutes: parseInt(e.target.value) || 0 })}
+              />
+              <span className="hint">Streaming with no recording this long counts as a break — uploads use the max rate. 0 = never.</span>
+            </div>
+            <div className="field">
+              <label>Parallel Uploads</label>
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={draft.upload?.workers ?? 2}
+                onChange={(e) => update('upload', { workers: parseInt(e.target.value) || 1 })}
+              />
+              <span className="hint">Files uploaded at once. All share the rate cap above. Applies on next upload start.</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Schedule Sync */}
+        <div className="settings-section">
+          <div className="settings-section-title">Schedule Sync</div>
+          <div className="settings-grid">
+            <div className="field">
+              <label>Sync Interval (seconds)</label>
+              <input
+                type="number"
+                min={0}
+                max={3600}
+                value={draft.scheduleSync?.intervalSec ?? 60}
+                onChange={(e) => update('scheduleSync', { intervalSec: parseInt(e.target.value) || 0 })}
+              />
+              <span className="hint">
+                Share-code competitions only. Pulls tabulator changes (adds, scratches, reorders) and pushes
+                actual start/stop times and running-late to CompSync. 0 = off.
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Schedule Import Profiles */}
+        <div className="settings-section">
+          <div className="settings-section-title">Schedule Import Profiles</div>
+          <p className="section-desc">
+            Column mappings saved from the load dialog. A profile is applied automatically to any file with the
+            same column headers.
+          </p>
+          {(draft.scheduleImport?.profiles ?? []).length === 0 ? (
+            <span className="hint">No profiles yet — use "Map columns manually..." when loading a file.</span>
+          ) : (
+            draft.scheduleImport.profiles.map((p) => (
+              <div key={p.id} className="field-row">
+                <span style={{ flex: 1, fontSize: '11px' }}>
+                  {p.name}
+                  <span className="hint"> — {Object.keys(p.columns).length} fields mapped{p.sheet ? `, sheet ${p.sheet === '*' ? '(all)' : p.sheet}` : ''}</span>
+                </span>
+                <button
+                  className="back-btn"
+                  onClick={() => update('scheduleImport', { profiles: draft.scheduleImport.profiles.filter((x) => x.id !== p.id) })}
+                >
+                  Delete
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Local Mirror */}
+        <div className="settings-section">
+          <div className="settings-section-title">Local Mirror</div>
+          <p className="section-desc">
+            Offline stand-in for the CompSync server. Load share code LOCAL-NAME to use the folder NAME
+            inside this directory (schedule.json or a CSV/XLSX); uploads land in its objects/ folder.
+          </p>
+          <div className="settings-grid">
+            <div className="field">
+              <label>Mirror Directory</label>
+              <div className="field-row">
+                <input
+                  type="text"
+                  value={draft.localMirror?.rootDir ?? ''}
+                  onChange={(e) => update('localMirror', { rootDir: e.target.value })}
+                  placeholder="Default: app data / local-mirror"
+                  style={{ flex: 1 }}
+                />
+                <button
+                  className="back-btn"
+                  onClick={async () => {
+                    const dir = await window.api.settingsBrowseDir()
+                    if (dir) update('localMirror', { rootDir: dir })
+                  }}
+                >
+                  Browse...
+                </button>
+              </div>
+              <span className="hint">For rehearsals and training — nothing is sent to compsync.net.</span>
+            </div>
+          </div>
+        </div>
+
         {/* Tablet Display */}
         <div className="settings-section">
           <div className="settings-section-title">Tablet Display</div>
@@ -826,6 +1219,8 @@ export default function Settings(): React.ReactElement {
           {[
             { key: 'autoUploadAfterEncoding', label: 'Auto-upload after processing', desc: 'Queue uploads immediately after FFmpeg completes' },
             { key: 'autoEncodeRecordings', label: 'Auto-process recordings', desc: 'Run FFmpeg track split automatically after each recording' },
+            { key: 'suggestTrim', label: 'Suggest trims', desc: 'Look for silence at the start and end of each recording and suggest a trim' },
+            { key: 'autoTrimHighConfidence', label: 'Auto-trim when confident', desc: 'Apply the silence-based trim suggestion when its confidence is high' },
             { key: 'syncLowerThird', label: 'Sync lower third overlay', desc: 'Update overlay data when advancing routines' },
             { key: 'confirmBeforeOverwrite', label: 'Archive before re-record', desc: 'Move existing files to _archive folder when re-recording a routine' },
             { key: 'alwaysOnTop', label: 'Always on top', desc: 'Keep plugin window above other windows' },
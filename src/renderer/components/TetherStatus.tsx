@@ -1,7 +1,30 @@
 import React from 'react'
 import { useStore } from '../store/useStore'
+import type { PhotoCamera } from '../../shared/types'
 import '../styles/tether-status.css'
 
+function syncChip(camera: PhotoCamera | null): { label: string; className: string } {
+  if (!camera) return { label: 'SYNC ...', className: 'tether-sync-unknown' }
+  const offsetSec = (camera.clockOffsetMs / 1000).toFixed(1)
+  const sign = camera.clockOffsetMs >= 0 ? '+' : ''
+  if (camera.clockSource === 'qr') {
+    return { label: `QR ${sign}${offsetSec}s`, className: 'tether-sync-ok' }
+  }
+  if (camera.clockSource === 'manual') {
+    return { label: `SET ${sign}${offsetSec}s`, className: 'tether-sync-ok' }
+  }
+  switch (camera.clockSyncStatus) {
+    case 'ok':
+      return { label: 'SYNC OK', className: 'tether-sync-ok' }
+    case 'warning':
+      return { label: `CLOCK ${sign}${offsetSec}s`, className: 'tether-sync-warning' }
+    case 'error':
+      return { label: `CLOCK ${sign}${offsetSec}s`, className: 'tether-sync-error' }
+    default:
+      return { label: 'SYNC ...', className: 'tether-sync-unknown' }
+  }
+}
+
 export default function TetherStatus(): React.ReactElement | null {
   const tetherState = useStore((s) => s.tetherState)
   const currentRoutine = useStore((s) => s.currentRoutine)
@@ -9,29 +32,7 @@ export default function TetherStatus(): React.ReactElement | null {
   if (!tetherState.active) return null
 
   const routinePhotoCount = currentRoutine?.photos?.length ?? 0
-
-  const offsetSec = (tetherState.cameraClockOffset / 1000).toFixed(1)
-  const sign = tetherState.cameraClockOffset >= 0 ? '+' : ''
-
-  let syncLabel: string
-  let syncClass: string
-  switch (tetherState.clockSyncStatus) {
-    case 'ok':
-      syncLabel = 'SYNC OK'
-      syncClass = 'tether-sync-ok'
-      break
-    case 'warning':
-      syncLabel = `CLOCK ${sign}${offsetSec}s`
-      syncClass = 'tether-sync-warning'
-      break
-    case 'error':
-      syncLabel = `CLOCK ${sign}${offsetSec}s`
-      syncClass = 'tether-sync-error'
-      break
-    default:
-      syncLabel = 'SYNC ...'
-      syncClass = 'tether-sync-unknown'
-  }
+  const cameras = tetherState.cameras ?? []
 
   function handleStop(): void {
     window.api.tetherStop()
@@ -49,7 +50,19 @@ export default function TetherStatus(): React.ReactElement | null {
         </span>
       )}
       <span className="tether-count">{routinePhotoCount} photos</span>
-      <span className={`tether-sync ${syncClass}`}>{syncLabel}</span>
+      {cameras.length === 0 && (
+        <span className={`tether-sync ${syncChip(null).className}`}>{syncChip(null).label}</span>
+      )}
+      {cameras.map((camera) => {
+        const chip = syncChip(camera)
+        return (
+          <span key={camera.id} className="tether-camera" title={`${camera.label} — ${camera.photos} photos this session`}>
+            <span className="tether-photographer">{camera.photographer}</span>
+            <span className="tether-camera-count">{camera.photos}</span>
+            <span className={`tether-sync ${chip.className}`}>{chip.label}</span>
+          </span>
+        )
+      })}
       {tetherState.lastPhotoTime && (
         <span className="tether-last" title={tetherState.lastPhotoTime}>
           Last: {new Date(tetherState.lastPhotoTime).toLocaleTimeString('en-US', {
@@ -60,6 +73,13 @@ export default function TetherStatus(): React.ReactElement | null {
           })}
         </span>
       )}
+      <button
+        className="tether-stop-btn tether-sync-btn"
+        onClick={() => useStore.getState().setClockSyncOpen(true)}
+        title="Sync camera clocks with an on-screen QR code"
+      >
+        Sync
+      </button>
       <button className="tether-stop-btn" onClick={handleStop} title="Stop tethered watching">
         Stop
       </button>
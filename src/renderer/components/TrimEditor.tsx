@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useStore } from '../store/useStore'
+import type { WaveformData } from '../../shared/types'
+import '../styles/trim.css'
+
+function formatTime(sec: number): string {
+  const m = Math.floor(sec / 60)
+  const s = sec % 60
+  return `${m}:${s.toFixed(1).padStart(4, '0')}`
+}
+
+/**
+ * Head/tail clean-up for a recorded routine: plays the recording next to the
+ * performance track's waveform so the operator can set in/out points. The
+ * points are stored on the routine and applied by the encoder. Without a saved
+ * trim, the points start from the silence-analysis suggestion.
+ */
+export default function TrimEditor({ routineId }: { routineId: string }): React.ReactElement | null {
+  const routine = useStore((s) => s.competition?.routines.find((r) => r.id === routineId))
+  const close = (): void => useStore.getState().setTrimRoutineId(null)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [waveform, setWaveform] = useState<WaveformData | null>(null)
+  const [waveformError, setWaveformError] = useState('')
+  const [videoError, setVideoError] = useState(false)
+  const [duration, setDuration] = useState(0)
+  const [currentTime, setCurrentTime] = useState(0)
+  const suggestion = routine?.trimSuggestion
+  const initial = routine?.trim ?? suggestion
+  const [inSec, setInSec] = useState(initial?.inSec ?? 0)
+  const [outSec, setOutSec] = useState<number | null>(initial?.outSec ?? null)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const totalSec = duration || waveform?.durationSec || 0
+  const effectiveOut = outSec ?? totalSec
+
+  useEffect(() => {
+    window.api.getWaveform(routineId).then((result: WaveformData | { error: string }) => {
+      if ('error' in result) setWaveformError(result.error)
+      else setWaveform(result)
+    }).catch((err: unknown) => setWaveformError(err instanceof Error ? err.message : String(err)))
+  }, [routineId])
+
+  // Draw: waveform, trimmed-away regions dimmed, markers, playhead
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+    const width = canvas.clientWidth
+    const height = canvas.clientHeight
+    canvas.width = width
+    canvas.height = height
+    ctx.clearRect(0, 0, width, height)
+    if (totalSec <= 0) return
+    const x = (sec: number): number => (sec / totalSec) * width
+
+    if (waveform) {
+      ctx.fillStyle = '#667eea'
+      const mid = height / 2
+      for (let px = 0; px < width; px++) {
+        const from = Math.floor((px / width) * totalSec * waveform.peaksPerSec)
+        const to = Math.max(from + 1, Math.floor(((px + 1) / width) * totalSec * waveform.peaksPerSec))
+        let peak = 0
+        for (let i = from; i < to && i < waveform.peaks.length; i++) peak = Math.max(peak, waveform.peaks[i])
+        const h = Math.max(1, peak * (height - 4))
+        ctx.fillRect(px, mid - h / 2, 1, h)
+      }
+    }
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    ctx.fillRect(0, 0, x(inSec), height)
+    ctx.fillRect(x(effectiveOut), 0, width - x(effectiveOut), height)
+
+    ctx.fillStyle = '#fbbf24'
+    for (const m of routine?.markers ?? []) ctx.fillRect(x(m.offsetSec), 0, 2, 8)
+
+    ctx.fillStyle = '#4ade80'
+    ctx.fillRect(x(inSec), 0, 2, height)
+    ctx.fillStyle = '#f87171'
+    ctx.fillRect(x(effectiveOut) - 2, 0, 2, height)
+    ctx.fillStyle = '#e0e0f0'
+    ctx.fillRect(x(currentTime), 0, 1, height)
+  }, [waveform, totalSec, inSec, effectiveOut, currentTime, routine?.markers])
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent): void {
+      if (e.target instanceof HTMLInputElement) return
+      const video = videoRef.current
+      if (e.key === 'Escape') close()
+      else if (e.key === 'i') setInSec(Math.min(currentTime, effectiveOut - 1))
+      else if (e.key === 'o') setOutSec(Math.max(currentTime, inSec + 1))
+      else if (e.key === ' ' && video) {
+        e.preventDefault()
+        if (video.paused) video.play().catch(() => {})
+        else video.pause()
+      }
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [currentTime, inSec, effectiveOut])
+
+  if (!routine) return null
+
+  function seek(sec: number): void {
+    const clamped = Math.max(0, Math.min(totalSec, sec))
+    if (videoRef.current && !videoError) videoRef.current.currentTime = clamped
+    setCurrentTime(clamped)
+  }
+
+  function onWaveformClick(e: React.MouseEvent<HTMLCanvasElement>): void {
+    const rect = e.currentTarget.getBoundingClientRect()
+    seek(((e.clientX - rect.left) / rect.width) * totalSec)
+  }
+
+  async function save(reencode: boolean): Promise<void> {
+    setSaving(true)
+    setError('')
+    // An out point at (or past) the end is the same as no out point
+    const out = outSec != null && outSec < totalSec - 0.05 ? outSec : undefined
+    const trim = inSec > 0 || out != null ? { inSec, outSec: out } : null
+    let result = await window.api.setRoutineTrim(routineId, trim)
+    if (!(result && typeof result === 'object' && 'error' in result) && reencode) {
+      result = await window.api.ffmpegEncode(routineId)
+    }
+    setSaving(false)
+    if (result && typeof result === 'object' && 'error' in result) {
+      setError(String((result as { error: string }).error))
+      return
+    }
+    close()
+  }
+
+  const trimmedLength = Math.max(0, effectiveOut - inSec)
+
+  return (
+    <div className="trim-overlay" onClick={(e) => { if (e.target === e.currentTarget) close() }}>
+      <div className="trim-panel">
+        <div className="trim-header">
+          <h2>Trim #{routine.entryNumber} — {routine.routineTitle}</h2>
+          <button className="trim-close" onClick={close}>x</button>
+        </div>
+
+        <div className="trim-body">
+          {videoError ? (
+            <div className="trim-video-error">Preview unavailable for this file — the waveform can still be used.</div>
+          ) : (
+            <video
+              ref={videoRef}
+              className="trim-video"
+              src={`compsync-media://routine/${encodeURIComponent(routineId)}`}
+              controls
+              onLoadedMetadata={(e) => setDuration(e.currentTarget.duration || 0)}
+              onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+              onError={() => setVideoError(true)}
+            />
+          )}
+
+          <canvas ref={canvasRef} className="trim-waveform" onClick={onWaveformClick} />
+          {!waveform && (
+            <div className="trim-hint">{waveformError ? `Waveform unavailable: ${waveformError}` : 'Reading audio...'}</div>
+          )}
+
+          <div className="trim-points">
+            <div className="trim-point">
+              <label>In</label>
+              <span>{formatTime(inSec)}</span>
+              <button onClick={() => setInSec(Math.min(currentTime, effectiveOut - 1))} title="Set in point (I)">
+                Set at playhead
+              </button>
+              <button onClick={() => seek(inSec)}>Go</button>
+              <button onClick={() => setInSec(0)}>Reset</button>
+            </div>
+            <div className="trim-point">
+              <label>Out</label>
+              <span>{formatTime(effectiveOut)}</span>
+              <button onClick={() => setOutSec(Math.max(currentTime, inSec + 1))} title="Set out point (O)">
+                Set at playhead
+              </button>
+              <button onClick={() => seek(effectiveOut)}>Go</button>
+              <button onClick={() => setOutSec(null)}>Reset</button>
+            </div>
+            {suggestion && (
+              <div className="trim-suggestion">
+                Suggested from silence: {formatTime(suggestion.inSec)} → {suggestion.outSec != null ? formatTime(suggestion.outSec) : 'end'}
+                {' '}({Math.round(suggestion.confidence * 100)}% confidence)
+                <button
+                  onClick={() => {
+                    setInSec(suggestion.inSec)
+                    setOutSec(suggestion.outSec ?? null)
+                  }}
+                >
+                  Use
+                </button>
+              </div>
+            )}
+            <div className="trim-hint">
+              Playhead {formatTime(currentTime)} · Trimmed length {formatTime(trimmedLength)} of {formatTime(totalSec)}
+            </div>
+          </div>
+
+          {error && <div className="trim-error">{error}</div>}
+
+          <div className="trim-actions">
+            <button className="trim-secondary-btn" onClick={close} disabled={saving}>Cancel</button>
+            <button className="trim-primary-btn" onClick={() => save(false)} disabled={saving}>Save</button>
+            <button className="trim-primary-btn" onClick={() => save(true)} disabled={saving}>
+              Save &amp; Re-encode
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -73,6 +73,16 @@ interface AppStore {
   recoveryOpen: boolean
   recoveryState: RecoveryState
 
+  // Trim editor (routine being trimmed, null = closed)
+  trimRoutineId: string | null
+
+  // Camera clock-sync wizard
+  clockSyncOpen: boolean
+
+  // Photo-to-routine timeline
+  photoTimelineOpen: boolean
+  clusterReviewOpen: boolean
+
   // Tether
   tetherState: TetherState
 
@@ -116,6 +126,10 @@ interface AppStore {
   setShowVisualEditor: (show: boolean) => void
   setRecoveryOpen: (open: boolean) => void
   setRecoveryState: (state: RecoveryState) => void
+  setTrimRoutineId: (routineId: string | null) => void
+  setClockSyncOpen: (open: boolean) => void
+  setPhotoTimelineOpen: (open: boolean) => void
+  setClusterReviewOpen: (open: boolean) => void
   setTetherState: (state: TetherState) => void
   setWifiDisplayState: (state: WifiDisplayState) => void
   recalcCounts: () => void
@@ -167,6 +181,11 @@ export const useStore = create<AppStore>((set, get) => ({
     detail: '',
   },
 
+  trimRoutineId: null,
+  clockSyncOpen: false,
+  photoTimelineOpen: false,
+  clusterReviewOpen: false,
+
   tetherState: {
     active: false,
     watchPath: null,
@@ -177,8 +196,7 @@ export const useStore = create<AppStore>((set, get) => ({
     stagingDir: null,
     photosReceived: 0,
     lastPhotoTime: null,
-    cameraClockOffset: 0,
-    clockSyncStatus: 'unknown' as const,
+    cameras: [],
   },
 
   wifiDisplayState: { running: false, monitorIndex: null },
@@ -253,6 +271,10 @@ export const useStore = create<AppStore>((set, get) => ({
   setShowVisualEditor: (showVisualEditor) => set({ showVisualEditor }),
   setRecoveryOpen: (recoveryOpen) => set({ recoveryOpen }),
   setRecoveryState: (recoveryState) => set({ recoveryState }),
+  setTrimRoutineId: (trimRoutineId) => set({ trimRoutineId }),
+  setClockSyncOpen: (clockSyncOpen) => set({ clockSyncOpen }),
+  setPhotoTimelineOpen: (photoTimelineOpen) => set({ photoTimelineOpen }),
+  setClusterReviewOpen: (clusterReviewOpen) => set({ clusterReviewOpen }),
   setTetherState: (tetherState) => set({ tetherState }),
   setWifiDisplayState: (wifiDisplayState) => set({ wifiDisplayState }),
 
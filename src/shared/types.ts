@@ -52,13 +52,155 @@ export interface Routine {
   uploadRunId?: string // set when an upload attempt starts; passed to /upload-url and /complete
   mediaPackageStatus?: 'none' | 'complete' // populated by server schedule endpoint; drives reconcile pass
   mediaUpdatedAt?: string // ISO — media_packages.updated_at from server, or null
+  // Multiple takes (re-dance): the top-level recording fields are the primary take
+  takeNumber?: number // primary take's number (undefined = 1)
+  takes?: RoutineTake[] // other takes, set aside on re-record or take switch
+  uploadAllTakes?: boolean // also upload non-primary takes' encoded files
+  angles?: CameraAngle[] // side angles recorded by additional OBS connections (primary take)
+  markers?: RoutineMarker[] // operator marks taken during the primary take's recording
+  trim?: RoutineTrim // in/out points applied when encoding the primary take
+  trimSuggestion?: TrimSuggestion // from silence analysis of the primary take's recording
+  audioCheck?: AudioCheckResult // dead-mic / clipping / missing-track probe of the primary take
+  // Operator schedule edits
+  scratch?: { reason: string; at: string } // scratched here (status is 'skipped')
+  localOnly?: 'late-add' | 'redance' | 'split' // created here, not on the loaded schedule
+  derivedFrom?: string // routine id a re-dance / split copy was made from
+  localEdits?: LocalEditField[] // server fields the operator changed — kept over schedule sync
 }
 
+/** A set-aside recording of a routine. Its files live in the routine's _archive folder. */
+export interface RoutineTake {
+  number: number // 1 = first performance
+  status: RoutineStatus // pipeline state when set aside — restored if made primary again
+  recordingStartedAt?: string
+  recordingStoppedAt?: string
+  outputPath?: string
+  outputDir?: string
+  encodedFiles?: EncodedFile[]
+  angles?: CameraAngle[]
+  markers?: RoutineMarker[]
+  trim?: RoutineTrim
+  trimSuggestion?: TrimSuggestion
+  audioCheck?: AudioCheckResult
+  notes?: string
+}
+
+/** Head/tail clean-up for a recording, in seconds from the start of its file. */
+export interface RoutineTrim {
+  inSec: number
+  outSec?: number // undefined = to the end
+}
+
+/** In/out points where the music appears to start and end, found by silence analysis. */
+export interface TrimSuggestion extends RoutineTrim {
+  confidence: number // 0..1
+}
+
+export type AudioIssueKind = 'missing' | 'silent' | 'clipped'
+
+/** Levels of one audio track of a recording, from a volumedetect pass. */
+export interface AudioTrackLevel {
+  role: string // 'performance' | 'judge1' | ...
+  meanDb: number | null // null = digital silence
+  maxDb: number | null
+  clippedSamples: number // samples at full scale
+}
+
+export interface AudioCheckIssue {
+  role: string
+  kind: AudioIssueKind
+  detail: string
+}
+
+/** Result of probing a recording's audio tracks right after it was filed. */
+export interface AudioCheckResult {
+  checkedAt: string
+  expectedTracks: number
+  foundTracks: number
+  tracks: AudioTrackLevel[]
+  issues: AudioCheckIssue[]
+}
+
+/** Sent to the renderer (and tablets) when a recording's audio check finds problems. */
+export interface AudioCheckAlert {
+  routineId: string
+  entryNumber: string
+  routineTitle: string
+  issues: AudioCheckIssue[]
+}
+
+/** Peak levels of a recording's performance audio, for drawing a waveform. */
+export interface WaveformData {
+  durationSec: number
+  peaksPerSec: number
+  peaks: number[] // 0..1, one per 1/peaksPerSec seconds
+}
+
+export type MarkerKind = 'music-failure' | 'fall' | 'costume' | 'judge-request' | 'other'
+
+export const MARKER_LABELS: Record<MarkerKind, string> = {
+  'music-failure': 'Music failure',
+  fall: 'Fall',
+  costume: 'Costume malfunction',
+  'judge-request': 'Judge request',
+  other: 'Mark',
+}
+
+/** Marker offset as m:ss (or h:mm:ss) */
+export function formatOffset(sec: number): string {
+  const s = Math.floor(sec)
+  const hh = Math.floor(s / 3600)
+  const mm = Math.floor((s % 3600) / 60)
+  const ss = String(s % 60).padStart(2, '0')
+  return hh > 0 ? `${hh}:${String(mm).padStart(2, '0')}:${ss}` : `${mm}:${ss}`
+}
+
+/** Something the operator flagged while a routine was recording. */
+export interface RoutineMarker {
+  id: string
+  kind: MarkerKind
+  offsetSec: number // from recordingStartedAt
+  at: string // ISO wall-clock time
+  label?: string // free text; defaults to the kind's label
+  source: 'app' | 'hotkey' | 'streamdeck' | 'tablet'
+}
+
+export type AngleRole = `angle${number}` // angle1 = first additional OBS connection
+
+/** A side-angle recording from an additional OBS connection, filed next to the routine's main recording. */
+export interface CameraAngle {
+  connectionId: string
+  name: string // connection name at record time, e.g. "Stage left"
+  role: AngleRole
+  outputPath?: string
+  recordingStartedAt?: string
+  recordingStoppedAt?: string
+  error?: string // file couldn't be collected
+}
+
+export type LocalEditField = 'entryNumber' | 'scheduledDay' | 'position'
+
+export type ScheduleEditAction = 'add' | 'scratch' | 'unscratch' | 'redance' | 'split' | 'renumber' | 'move-day'
+
+export interface ScheduleAuditEntry {
+  at: string // ISO
+  action: ScheduleEditAction
+  routineId: string
+  entryNumber: string
+  detail: string
+}
+
+/** Performance composites built from the main recording and one side angle. */
+export type CompositeRole = 'pip' | 'side-by-side'
+
 export interface EncodedFile {
-  role: 'performance' | 'judge1' | 'judge2' | 'judge3' | 'judge4'
+  role: 'performance' | 'judge1' | 'judge2' | 'judge3' | 'judge4' | AngleRole | CompositeRole
   filePath: string
   uploaded: boolean
   uploadUrl?: string
+  storagePath?: string
+  sha256?: string // digest of the bytes that were uploaded (local proof of what was sent)
+  size?: number // bytes uploaded
 }
 
 export interface ClipSuggestion {
@@ -70,11 +212,18 @@ export interface PhotoMatch {
   filePath: string
   thumbnailPath?: string
   captureTime: string // ISO
-  confidence: 'exact' | 'gap' | 'ambiguous' | 'unmatched'
+  confidence: 'exact' | 'gap' | 'ambiguous' | 'unmatched' | 'manual' // manual = placed by the operator
   uploaded: boolean
   matchedRoutineId?: string // routine this photo was matched to
   clipSuggestion?: ClipSuggestion
   clipVerified?: boolean
+  storagePath?: string
+  sha256?: string // digest of the bytes that were uploaded
+  size?: number // bytes uploaded
+  cameraId?: string // PhotoCamera.id of the body that took it
+  photographer?: string
+  clockOffsetMs?: number // applied when matching: app time = captureTime + this
+  originalPath?: string // card / watch-folder file it was copied from
 }
 
 export interface DriveDetectedEvent {
@@ -92,6 +241,8 @@ export interface UploadProgress {
   filesCompleted: number
   filesTotal: number
   error?: string
+  bytesPerSec?: number // live pipeline throughput (all uploads combined)
+  etaSec?: number // time left for this routine's remaining files at the current rate
 }
 
 // --- CLIP Verification ---
@@ -137,6 +288,28 @@ export interface VerificationResult {
   }>
 }
 
+/** One routine a stray photo might belong to, from the embedding clustering. */
+export interface RoutineCandidate {
+  routineId: string
+  score: number // ranking score: similarity blended with cluster vote share
+  similarity: number // cosine similarity to the routine's fingerprint
+  clusterShare: number // share of the photo's cluster already matched to this routine
+}
+
+export interface PhotoRescue {
+  filePath: string
+  currentRoutineId?: string // set for 'gap' matches
+  confidence: PhotoMatch['confidence']
+  candidates: RoutineCandidate[] // best first
+}
+
+export interface PhotoClusterResult {
+  embedded: number
+  failed: number // couldn't be read (e.g. the card was removed)
+  clusters: number
+  rescues: PhotoRescue[]
+}
+
 // --- Competition ---
 
 export interface Competition {
@@ -147,12 +320,107 @@ export interface Competition {
   days: string[]
   source: 'csv' | 'api'
   loadedAt: string // ISO
+  auditLog?: ScheduleAuditEntry[] // operator schedule edits, oldest first
+  clockSyncs?: CameraClockSync[] // measured camera clock offsets, one per body
+  unmatchedPhotos?: PhotoMatch[] // photos no recording window claimed, at their original paths
+}
+
+/** Fields for a late add from the operator. */
+export interface NewRoutineInput {
+  entryNumber: string
+  routineTitle: string
+  studioName?: string
+  dancers?: string
+  category?: string
+  durationMinutes?: number
+  scheduledDay?: string
+  afterRoutineId?: string // insert after this routine (default: end of the day)
+}
+
+// --- Schedule reload review ---
+
+export interface ScheduleChange {
+  id: string // `${kind}:${routineId}` — what the UI sends back to accept
+  kind: 'added' | 'removed' | 'renumbered' | 'retitled' | 'details'
+  routineId: string
+  entryNumber: string // current number (incoming for 'added')
+  before?: string
+  after?: string
+  locked: boolean // routine already has media — change can't be applied
+}
+
+export interface ScheduleDiff {
+  name: string
+  source: 'file' | 'share-code'
+  hasCurrent: boolean
+  sameCompetition: boolean
+  currentCount: number
+  incomingCount: number
+  changes: ScheduleChange[]
+}
+
+// --- Schedule import (column mapping) ---
+
+export type ScheduleField =
+  | 'entryId' | 'entryNumber' | 'routineTitle' | 'dancers' | 'studioName' | 'studioCode'
+  | 'category' | 'classification' | 'ageGroup' | 'sizeCategory' | 'durationMinutes'
+  | 'scheduledDay' | 'scheduledTime' | 'scheduledDateTime' | 'position'
+  | 'tenantId' | 'competitionId'
+
+/** Schedule field → header text in the file. Unmapped fields fall back to defaults. */
+export type ColumnMapping = Partial<Record<ScheduleField, string>>
+
+export interface ScheduleImportOptions {
+  columns: ColumnMapping
+  sheet?: string // workbook sheet to read, '*' = all sheets; default = first non-empty
+}
+
+export interface ColumnMappingProfile {
+  id: string
+  name: string
+  headerSignature: string // normalized headers of the file's default sheet
+  columns: ColumnMapping
+  sheet?: string
+}
+
+export interface ScheduleFileInspection {
+  filePath: string
+  sheets: string[] // [] for CSV
+  sheet: string | null // sheet the headers came from ('*' = all), null for CSV
+  headerSignature: string
+  headers: string[]
+  sampleRows: Array<Record<string, string>>
+  profile: ColumnMappingProfile | null // saved profile matched by header signature
+  columns: ColumnMapping // the profile's mapping, or a best guess from the headers
+  needsMapping: boolean // no profile and the guess is missing entry number or title
 }
 
 // --- OBS ---
 
 export type OBSConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error'
 
+/** Additional OBS instance (e.g. a side-angle camera PC) driven alongside the main one. */
+export interface OBSAngleConnection {
+  id: string
+  name: string
+  angle: number // recorded as role angle<n>, shown as A<n>; kept when other connections are removed or reordered
+  url: string
+  password: string
+  enabled: boolean
+  // Its recordings are read over the network: the remote recording folder as that OBS
+  // reports it (e.g. D:\Recordings) and the same folder as seen from this PC (\\SIDE-PC\Recordings)
+  remotePathPrefix: string
+  localPathPrefix: string
+}
+
+export interface OBSAngleState {
+  id: string
+  name: string
+  connectionStatus: OBSConnectionStatus
+  isRecording: boolean
+  error?: string
+}
+
 export interface OBSState {
   connectionStatus: OBSConnectionStatus
   isRecording: boolean
@@ -172,6 +440,48 @@ export interface AudioMeterData {
   judges: number[] // dB per judge
 }
 
+// --- Scene rules (OBS automation on lifecycle events) ---
+
+export type SceneRuleEvent =
+  | 'routine-started' // recording started for a routine
+  | 'recording-stopped'
+  | 'lower-third-fired'
+  | 'break-started' // Starting Soon / intermission card shown
+  | 'day-ended' // last pending routine of a day finished recording
+
+export type SceneRuleAction =
+  | { type: 'switch-scene'; sceneName: string }
+  | { type: 'source-visibility'; sceneName: string; sourceName: string; visible: boolean }
+  | { type: 'input-mute'; inputName: string; muted: boolean }
+  | { type: 'input-volume'; inputName: string; volumeDb: number }
+
+export interface SceneRule {
+  id: string
+  name: string
+  enabled: boolean
+  event: SceneRuleEvent
+  delayMs: number // wait after the event before running the actions
+  actions: SceneRuleAction[] // run in order
+}
+
+// --- Auto-record (performance audio triggers) ---
+
+export type AutoRecordMode = 'off' | 'suggest' | 'auto'
+
+export interface AutoRecordEvent {
+  id: string
+  action: 'start' | 'stop'
+  // suggested: waiting for the operator; pending: auto stop runs at expiresAt unless undone;
+  // done: auto start already ran, undo discards it until expiresAt
+  stage: 'suggested' | 'pending' | 'done'
+  routineId: string
+  entryNumber: string
+  routineTitle: string
+  levelDb: number
+  createdAt: string
+  expiresAt: string
+}
+
 // --- System Monitor ---
 
 export interface SystemStats {
@@ -325,6 +635,18 @@ export interface AnimationConfig {
 
 // --- Settings ---
 
+export type PipPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+/** Which multi-angle outputs to encode when a routine has side angles. */
+export interface MultiAngleOutputs {
+  perAngle: boolean // each angle's video with the performance audio
+  pip: boolean // main video with the inset angle in a corner
+  sideBySide: boolean // main and inset angle next to each other
+  insetAngle: number // 1-based angle used for pip / side-by-side
+  pipPosition: PipPosition
+  pipSizePercent: number // inset width as % of the frame, 15-50
+}
+
 export interface AppSettings {
   obs: {
     url: string
@@ -332,6 +654,11 @@ export interface AppSettings {
     recordingFormat: 'mkv' | 'mp4' | 'flv'
     maxRecordMinutes: number    // 0 = no limit
   }
+  obsAngles: OBSAngleConnection[] // additional OBS connections, recorded in lockstep with the main one
+  multiAngle: {
+    defaults: MultiAngleOutputs
+    events: Record<string, MultiAngleOutputs> // by competitionId — replaces defaults for that event
+  }
   compsync: {
     shareCode: string // replaces tenant/apiKey/competition/uploadEndpoint
   }
@@ -351,12 +678,18 @@ export interface AppSettings {
     judgeResolution: 'same' | '720p' | '480p'
     useHardwareEncoding: boolean // NVENC (NVIDIA GPU)
     cpuPriority: 'normal' | 'below-normal' | 'idle'
+    embedMetadata: boolean // routine tags, judge-file chapters and cover art in encoded MP4s
+    loudness: LoudnessSettings
   }
   hotkeys: {
     toggleRecording: string
     nextRoutine: string
     fireLowerThird: string
     saveReplay: string
+    markerMusicFailure: string
+    markerFall: string
+    markerCostume: string
+    markerJudgeRequest: string
   }
   overlay: {
     autoHideSeconds: number
@@ -376,6 +709,8 @@ export interface AppSettings {
     autoRecordOnNext: boolean
     autoUploadAfterEncoding: boolean
     autoEncodeRecordings: boolean
+    autoTrimHighConfidence: boolean // apply the silence-based trim suggestion when it's confident
+    suggestTrim: boolean // run silence detection after each recording to suggest a trim
     syncLowerThird: boolean
     confirmBeforeOverwrite: boolean
     alwaysOnTop: boolean
@@ -394,6 +729,34 @@ export interface AppSettings {
     autoWatchFolder: string
     matchBufferMs: number
   }
+  upload: {
+    maxRateMbps: number // 0 = unlimited; cap when not streaming (or on a break)
+    streamingRateMbps: number // 0 = unlimited; cap while OBS is streaming
+    relaxAfterIdleMinutes: number // streaming with no recording this long = break, use maxRateMbps (0 = never)
+    workers: number // concurrent upload workers (1 = serial); all share the rate cap
+  }
+  scheduleSync: {
+    intervalSec: number // pull schedule changes / push live status this often (0 = off)
+  }
+  localMirror: {
+    rootDir: string // folder backing LOCAL-<NAME> share codes ('' = <userData>/local-mirror)
+  }
+  scheduleImport: {
+    profiles: ColumnMappingProfile[] // column mappings for vendor CSV/XLSX exports
+  }
+  sceneRules: {
+    enabled: boolean // master switch
+    rules: SceneRule[]
+  }
+  autoRecord: {
+    mode: AutoRecordMode
+    onsetThresholdDb: number // performance level that counts as music
+    onsetHoldSec: number // music this long (while idle) → start
+    silenceThresholdDb: number // below this counts as silence
+    silenceHoldSec: number // silence this long (while recording) → stop
+    minRecordingSec: number // never stop a recording shorter than this
+    undoWindowSec: number // how long an auto action can be undone / a suggestion stays up
+  }
   wifiDisplay: {
     monitorIndex: number | null
     bitrate: number
@@ -424,6 +787,8 @@ export const IPC_CHANNELS = {
   OBS_CONNECT: 'obs:connect',
   OBS_DISCONNECT: 'obs:disconnect',
   OBS_STATE: 'obs:state',
+  OBS_ANGLES_STATE: 'obs:angles-state',
+  OBS_ANGLES_GET: 'obs:angles-get',
   OBS_START_RECORD: 'obs:start-record',
   OBS_STOP_RECORD: 'obs:stop-record',
   OBS_START_STREAM: 'obs:start-stream',
@@ -431,6 +796,9 @@ export const IPC_CHANNELS = {
   OBS_SAVE_REPLAY: 'obs:save-replay',
   OBS_AUDIO_LEVELS: 'obs:audio-levels',
   OBS_INPUT_LIST: 'obs:input-list',
+  OBS_SCENE_LIST: 'obs:scene-list',
+  OBS_SCENE_SOURCES: 'obs:scene-sources',
+  SCENE_RULE_TEST: 'scene-rule:test',
 
   // Recording pipeline
   RECORDING_NEXT: 'recording:next',
@@ -450,6 +818,13 @@ export const IPC_CHANNELS = {
   SCHEDULE_LOAD_API: 'schedule:load-api',
   SCHEDULE_LOAD_SHARE_CODE: 'schedule:load-share-code',
   SCHEDULE_GET: 'schedule:get',
+  SCHEDULE_PREVIEW_FILE: 'schedule:preview-file',
+  SCHEDULE_PREVIEW_SHARE_CODE: 'schedule:preview-share-code',
+  SCHEDULE_APPLY_RELOAD: 'schedule:apply-reload',
+  SCHEDULE_DISCARD_RELOAD: 'schedule:discard-reload',
+  SCHEDULE_INSPECT_FILE: 'schedule:inspect-file',
+  SCHEDULE_PREVIEW_MAPPING: 'schedule:preview-mapping',
+  SCHEDULE_SAVE_MAPPING_PROFILE: 'schedule:save-mapping-profile',
   SCHEDULE_BROWSE_FILE: 'schedule:browse-file',
 
   // State
@@ -458,6 +833,24 @@ export const IPC_CHANNELS = {
   STATE_ROUTINE_UPDATE: 'state:routine-update',
   STATE_JUMP_TO: 'state:jump-to',
   STATE_SET_NOTE: 'state:set-note',
+  STATE_SET_PRIMARY_TAKE: 'state:set-primary-take',
+  STATE_SET_TAKE_NOTE: 'state:set-take-note',
+  STATE_SET_UPLOAD_ALL_TAKES: 'state:set-upload-all-takes',
+  MARKER_ADD: 'marker:add',
+  MARKER_REMOVE: 'marker:remove',
+  STATE_SET_TRIM: 'state:set-trim',
+  AUDIO_CHECK_ALERT: 'audio:check-alert',
+  MEDIA_WAVEFORM: 'media:waveform',
+
+  // Auto-record
+  AUTO_RECORD_EVENT: 'auto-record:event',
+  AUTO_RECORD_ACCEPT: 'auto-record:accept',
+  AUTO_RECORD_UNDO: 'auto-record:undo',
+  STATE_ADD_ROUTINE: 'state:add-routine',
+  STATE_SCRATCH_ROUTINE: 'state:scratch-routine',
+  STATE_DUPLICATE_ROUTINE: 'state:duplicate-routine',
+  STATE_RENUMBER_ROUTINE: 'state:renumber-routine',
+  STATE_MOVE_ROUTINE_DAY: 'state:move-routine-day',
   STATE_EXPORT_REPORT: 'state:export-report',
 
   // Settings
@@ -477,6 +870,8 @@ export const IPC_CHANNELS = {
   PHOTOS_BROWSE: 'photos:browse',
   PHOTOS_PROGRESS: 'photos:progress',
   PHOTOS_MATCH_RESULT: 'photos:match-result',
+  PHOTOS_MOVE: 'photos:move',
+  PHOTOS_APPLY_OFFSET: 'photos:apply-offset',
 
   // Drive Monitor
   DRIVE_DETECTED: 'drive:detected',
@@ -487,6 +882,8 @@ export const IPC_CHANNELS = {
   CLIP_ANALYZE_FOLDER: 'clip:analyze-folder',
   CLIP_EXECUTE_SORT: 'clip:execute-sort',
   CLIP_CANCEL: 'clip:cancel',
+  CLIP_CLUSTER: 'clip:cluster',
+  CLIP_ACCEPT_RESCUES: 'clip:accept-rescues',
   CLIP_PROGRESS: 'clip:progress',
   CLIP_MODEL_PROGRESS: 'clip:model-progress',
 
@@ -514,6 +911,7 @@ export const IPC_CHANNELS = {
   // Upload
   UPLOAD_ALL: 'upload:all',
   UPLOAD_CANCEL_ROUTINE: 'upload:cancel-routine',
+  UPLOAD_VERIFY: 'upload:verify',
 
   // System monitor
   SYSTEM_STATS: 'system:stats',
@@ -563,6 +961,13 @@ export const IPC_CHANNELS = {
   TETHER_PROGRESS: 'tether:progress',
   TETHER_WPD_DEVICE_EVENT: 'tether:wpd-device-event',
 
+  // Camera clock sync
+  CLOCK_SYNC_START: 'clock-sync:start',
+  CLOCK_SYNC_STOP: 'clock-sync:stop',
+  CLOCK_SYNC_FROM_FILES: 'clock-sync:from-files',
+  CLOCK_SYNC_CLEAR: 'clock-sync:clear',
+  CLOCK_SYNC_RESULT: 'clock-sync:result',
+
   // Wifi Display
   WIFI_DISPLAY_GET_MONITORS: 'wifi-display:get-monitors',
   WIFI_DISPLAY_START: 'wifi-display:start',
@@ -609,6 +1014,23 @@ export interface FFmpegProgress {
   tracksCompleted: number
   tracksTotal: number
   error?: string
+  loudness?: TrackLoudness[] // measured before encoding, per audio track
+}
+
+/** EBU R128 loudness normalization applied to audio tracks during encode. */
+export interface LoudnessSettings {
+  normalizePerformance: boolean
+  normalizeJudges: boolean
+  performanceTargetLufs: number // integrated loudness target
+  judgeTargetLufs: number
+  judgeGainDb: number[] // per-judge offset after normalization (index 0 = judge 1)
+}
+
+/** Measured loudness of one audio track of a recording (before normalization). */
+export interface TrackLoudness {
+  role: string // 'performance' | 'judge1' | ...
+  integratedLufs: number | null // null = silent (-inf)
+  truePeakDb: number | null
 }
 
 // --- Lower Third ---
@@ -667,7 +1089,7 @@ export interface OverlayState {
 // --- Job Queue ---
 
 export type JobType = 'encode' | 'upload' | 'photo-import'
-export type JobStatus = 'pending' | 'running' | 'done' | 'failed'
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled'
 
 export interface JobRecord {
   id: string
@@ -739,9 +1161,11 @@ export interface WSCommandMessage {
   type: 'command'
   action: 'nextFull' | 'nextRoutine' | 'prev' | 'skip'
     | 'toggleRecord' | 'toggleStream' | 'saveReplay'
-    | 'toggleOverlay' | 'loadShareCode'
+    | 'toggleOverlay' | 'loadShareCode' | 'marker'
   element?: 'counter' | 'clock' | 'logo' | 'lowerThird'
   shareCode?: string
+  marker?: MarkerKind
+  label?: string
 }
 
 export interface WSIdentifyMessage {
@@ -749,7 +1173,17 @@ export interface WSIdentifyMessage {
   client: 'overlay' | 'streamdeck' | 'tablet'
 }
 
-export type WSMessage = WSStateMessage | WSCommandMessage | WSIdentifyMessage
+/** Pushed to tablets when something needs the operator's attention. */
+export interface WSAlertMessage {
+  type: 'alert'
+  kind: 'audio-check'
+  entryNumber: string
+  routineTitle: string
+  message: string
+  issues: AudioCheckIssue[]
+}
+
+export type WSMessage = WSStateMessage | WSCommandMessage | WSIdentifyMessage | WSAlertMessage
 
 // --- Visual Overlay Editor ---
 
@@ -784,6 +1218,18 @@ export const DEFAULT_SETTINGS: AppSettings = {
     recordingFormat: 'mkv',
     maxRecordMinutes: 15,
   },
+  obsAngles: [],
+  multiAngle: {
+    defaults: {
+      perAngle: true,
+      pip: false,
+      sideBySide: false,
+      insetAngle: 1,
+      pipPosition: 'bottom-right',
+      pipSizePercent: 30,
+    },
+    events: {},
+  },
   compsync: {
     shareCode: '',
   },
@@ -814,12 +1260,24 @@ export const DEFAULT_SETTINGS: AppSettings = {
     judgeResolution: 'same',
     useHardwareEncoding: false,
     cpuPriority: 'below-normal',
+    embedMetadata: true,
+    loudness: {
+      normalizePerformance: false,
+      normalizeJudges: false,
+      performanceTargetLufs: -16,
+      judgeTargetLufs: -18,
+      judgeGainDb: [],
+    },
   },
   hotkeys: {
     toggleRecording: 'F5',
     nextRoutine: 'F6',
     fireLowerThird: 'F9',
     saveReplay: 'F10',
+    markerMusicFailure: 'Shift+Control+1',
+    markerFall: 'Shift+Control+2',
+    markerCostume: 'Shift+Control+3',
+    markerJudgeRequest: 'Shift+Control+4',
   },
   overlay: {
     autoHideSeconds: 8,
@@ -839,6 +1297,8 @@ export const DEFAULT_SETTINGS: AppSettings = {
     autoRecordOnNext: true,
     autoUploadAfterEncoding: true,
     autoEncodeRecordings: true,
+    autoTrimHighConfidence: false,
+    suggestTrim: true,
     syncLowerThird: true,
     confirmBeforeOverwrite: true,
     alwaysOnTop: false,
@@ -857,6 +1317,34 @@ export const DEFAULT_SETTINGS: AppSettings = {
     autoWatchFolder: '',
     matchBufferMs: 1000,
   },
+  upload: {
+    maxRateMbps: 0,
+    streamingRateMbps: 5,
+    relaxAfterIdleMinutes: 10,
+    workers: 2,
+  },
+  scheduleSync: {
+    intervalSec: 60,
+  },
+  localMirror: {
+    rootDir: '',
+  },
+  scheduleImport: {
+    profiles: [],
+  },
+  sceneRules: {
+    enabled: true,
+    rules: [],
+  },
+  autoRecord: {
+    mode: 'off',
+    onsetThresholdDb: -30,
+    onsetHoldSec: 3,
+    silenceThresholdDb: -50,
+    silenceHoldSec: 8,
+    minRecordingSec: 45,
+    undoWindowSec: 10,
+  },
   wifiDisplay: {
     monitorIndex: null,
     bitrate: 3000,
@@ -917,6 +1405,38 @@ export interface WPDDeviceEvent {
   device: WPDDevice
 }
 
+export type ClockSyncStatus = 'unknown' | 'ok' | 'warning' | 'error'
+
+/** A camera body, keyed by its EXIF body serial (make + model when it writes none). */
+export interface PhotoCamera {
+  id: string
+  label: string // model + serial tail, e.g. "Canon EOS R6 …4821"
+  photographer: string // EXIF Artist, or the label when the body has none set
+  clockOffsetMs: number
+  clockSyncStatus: ClockSyncStatus
+  clockSource?: 'qr' | 'manual' | 'estimated' // measured with the sync wizard, set on the photo timeline, or guessed from timestamps
+  photos: number
+}
+
+/** QR payload shown by the clock-sync wizard: prefix + the app clock in epoch ms. */
+export const CLOCK_SYNC_QR_PREFIX = 'COMPSYNC-CLOCK:'
+
+/** A camera body's clock offset, read from a photo of the wizard's QR code or set on the photo timeline. */
+export interface CameraClockSync {
+  cameraId: string // PhotoCamera.id
+  label: string
+  photographer: string
+  offsetMs: number // camera clock minus app clock (positive = camera ahead)
+  syncedAt: string // ISO
+  subSecond: boolean // EXIF had sub-second time; without it the offset is only good to ~0.5 s
+  source?: 'qr' | 'timeline' // absent on syncs stored before timeline offsets existed, which were all QR
+}
+
+export interface ClockSyncFilesResult {
+  synced: CameraClockSync[]
+  failed: string[] // "<file>: <reason>"
+}
+
 export interface TetherState {
   active: boolean
   watchPath: string | null
@@ -927,8 +1447,7 @@ export interface TetherState {
   stagingDir?: string | null
   photosReceived: number
   lastPhotoTime: string | null
-  cameraClockOffset: number
-  clockSyncStatus: 'unknown' | 'ok' | 'warning' | 'error'
+  cameras: PhotoCamera[]
 }
 
 export interface RecoveryState {
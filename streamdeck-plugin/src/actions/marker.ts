@@ -0,0 +1,48 @@
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent } from '@elgato/streamdeck'
+import * as conn from '../connection'
+import * as svg from '../svg'
+
+/** Drops a timestamped marker on the routine being recorded. */
+class MarkerAction extends SingletonAction {
+  constructor(private readonly kind: string, private readonly label: string) {
+    super()
+  }
+  override async onWillAppear(ev: WillAppearEvent): Promise<void> {
+    const img = svg.marker(this.label, false)
+    await ev.action.setImage(`data:image/svg+xml;base64,${Buffer.from(img).toString('base64')}`)
+  }
+  override async onKeyDown(ev: KeyDownEvent): Promise<void> {
+    if (!conn.getState()?.recording.active) {
+      await ev.action.showAlert()
+      return
+    }
+    conn.sendCommand('marker', undefined, { marker: this.kind })
+    const flashImg = svg.marker(this.label, true)
+    await ev.action.setImage(`data:image/svg+xml;base64,${Buffer.from(flashImg).toString('base64')}`)
+    await ev.action.showOk()
+    setTimeout(async () => {
+      const normalImg = svg.marker(this.label, false)
+      await ev.action.setImage(`data:image/svg+xml;base64,${Buffer.from(normalImg).toString('base64')}`)
+    }, 1500)
+  }
+}
+
+@action({ UUID: 'com.compsync.streamdeck.marker-music-failure' })
+export class MarkerMusicFailureAction extends MarkerAction {
+  constructor() { super('music-failure', 'MUSIC') }
+}
+
+@action({ UUID: 'com.compsync.streamdeck.marker-fall' })
+export class MarkerFallAction extends MarkerAction {
+  constructor() { super('fall', 'FALL') }
+}
+
+@action({ UUID: 'com.compsync.streamdeck.marker-costume' })
+export class MarkerCostumeAction extends MarkerAction {
+  constructor() { super('costume', 'COSTUME') }
+}
+
+@action({ UUID: 'com.compsync.streamdeck.marker-judge-request' })
+export class MarkerJudgeRequestAction extends MarkerAction {
+  constructor() { super('judge-request', 'JUDGE') }
+}
@@ -48,9 +48,9 @@ export function getState(): AppState | null {
   return currentState
 }
 
-export function sendCommand(action: string, element?: string): void {
+export function sendCommand(action: string, element?: string, fields: Record<string, string> = {}): void {
   if (!ws || ws.readyState !== WebSocket.OPEN) return
-  const msg: Record<string, string> = { type: 'command', action }
+  const msg: Record<string, string> = { type: 'command', action, ...fields }
   if (element) msg.element = element
   ws.send(JSON.stringify(msg))
 }
@@ -8,6 +8,12 @@ import { SkipAction } from './actions/skip'
 import { RecordAction } from './actions/record'
 import { StreamAction } from './actions/stream'
 import { SaveReplayAction } from './actions/save-replay'
+import {
+  MarkerMusicFailureAction,
+  MarkerFallAction,
+  MarkerCostumeAction,
+  MarkerJudgeRequestAction,
+} from './actions/marker'
 import {
   OverlayLowerThirdAction,
   OverlayCounterAction,
@@ -22,6 +28,10 @@ streamDeck.actions.registerAction(new SkipAction())
 streamDeck.actions.registerAction(new RecordAction())
 streamDeck.actions.registerAction(new StreamAction())
 streamDeck.actions.registerAction(new SaveReplayAction())
+streamDeck.actions.registerAction(new MarkerMusicFailureAction())
+streamDeck.actions.registerAction(new MarkerFallAction())
+streamDeck.actions.registerAction(new MarkerCostumeAction())
+streamDeck.actions.registerAction(new MarkerJudgeRequestAction())
 streamDeck.actions.registerAction(new OverlayLowerThirdAction())
 streamDeck.actions.registerAction(new OverlayCounterAction())
 streamDeck.actions.registerAction(new OverlayClockAction())
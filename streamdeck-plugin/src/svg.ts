@@ -69,6 +69,14 @@ export function replay(flash: boolean): string {
   `)
 }
 
+export function marker(label: string, flash: boolean): string {
+  const color = flash ? '#22c55e' : '#f59e0b'
+  return wrap(`
+    <path d="M56 34 v72 M56 36 h34 l-8 12 l8 12 h-34" stroke="${color}" stroke-width="5" fill="none" stroke-linejoin="round"/>
+    <text x="72" y="126" text-anchor="middle" fill="${color}" font-size="13" font-family="sans-serif">${label}</text>
+  `)
+}
+
 export function skip(count: number): string {
   return wrap(`
     <text x="72" y="72" text-anchor="middle" fill="#f59e0b" font-size="28" font-family="sans-serif">\u23ED</text>
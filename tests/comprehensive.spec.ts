@@ -1,4 +1,7 @@
 import { test, expect, _electron as electron } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Check if we have a display
 const hasDisplay = process.env.DISPLAY || process.env.WAYLAND_DISPLAY;
@@ -167,6 +170,32 @@ test.describe('CompSync Media - Comprehensive Test Suite', () => {
     // This is expected to be null in a fresh test environment
   });
 
+  test('schedule IPC - vendor CSV headers are mapped with combined date/time', async () => {
+    const csvPath = path.join(os.tmpdir(), `vendor-export-${Date.now()}.csv`);
+    fs.writeFileSync(csvPath, [
+      'Entry #,Routine Name,Studio,Start Date/Time,Style',
+      '12,Firefly,Dance Co,4/23/2026 2:30 PM,Jazz',
+      '13,Northern Lights,Dance Co,4/23/2026 2:34 PM,Lyrical',
+    ].join('\n'));
+
+    const inspection = await window.evaluate(async (p) => {
+      return await window.api.scheduleInspectFile(p);
+    }, csvPath);
+    expect(inspection.columns.entryNumber).toBe('Entry #');
+    expect(inspection.columns.routineTitle).toBe('Routine Name');
+    expect(inspection.columns.scheduledDateTime).toBe('Start Date/Time');
+    expect(inspection.needsMapping).toBe(false);
+
+    const preview = await window.evaluate(async ({ p, columns }) => {
+      return await window.api.schedulePreviewMapping(p, { columns });
+    }, { p: csvPath, columns: inspection.columns });
+    expect(preview[0].entryNumber).toBe('12');
+    expect(preview[0].scheduledDay).toBe('2026-04-23');
+    expect(preview[0].scheduledTime).toBe('14:30');
+
+    fs.rmSync(csvPath, { force: true });
+  });
+
   // ============================================================================
   // SECTION 5: Job Queue IPC
   // ============================================================================
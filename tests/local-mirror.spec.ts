@@ -0,0 +1,325 @@
+import { test, expect, _electron as electron } from '@playwright/test'
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+const hasDisplay = process.env.DISPLAY || process.env.WAYLAND_DISPLAY
+if (!hasDisplay) process.env.DISPLAY = ':0'
+
+// End-to-end upload pipeline against the built-in local mirror (LOCAL-<NAME> share codes).
+// No compsync.net access needed.
+const MIRROR_ROOT = '/tmp/compsync-test-mirror'
+const CODE_NAME = 'E2E'
+const COMP_DIR = path.join(MIRROR_ROOT, CODE_NAME)
+const RUN_ID = Date.now().toString(36)
+const ROUTINE_ID = `e2e-routine-${RUN_ID}`
+const SOURCE_FILE = path.join(MIRROR_ROOT, 'source', `${RUN_ID}-performance.mp4`)
+// Listed new-photo first so state order differs from "earlier uploads first" completion order
+const NEW_PHOTO = path.join(MIRROR_ROOT, 'source', `${RUN_ID}-photo-new.jpg`)
+const OLD_PHOTO = path.join(MIRROR_ROOT, 'source', `${RUN_ID}-photo-old.jpg`)
+const OLD_PHOTO_STORAGE = `earlier/${RUN_ID}-photo-old.jpg`
+// A second take, uploaded earlier as a parked take — becomes primary later on
+const TAKE2_FILE = path.join(MIRROR_ROOT, 'source', `${RUN_ID}-take2-performance.mp4`)
+
+test.describe('Local Mirror — Offline Plugin API', () => {
+  let app: Awaited<ReturnType<typeof electron.launch>>
+  let window: Awaited<ReturnType<typeof app.firstWindow>>
+  let originalRootDir = ''
+
+  test.beforeAll(async () => {
+    fs.rmSync(COMP_DIR, { recursive: true, force: true })
+    fs.mkdirSync(COMP_DIR, { recursive: true })
+    fs.mkdirSync(path.dirname(SOURCE_FILE), { recursive: true })
+    fs.writeFileSync(SOURCE_FILE, crypto.randomBytes(256 * 1024))
+    fs.writeFileSync(NEW_PHOTO, crypto.randomBytes(32 * 1024))
+    fs.writeFileSync(OLD_PHOTO, crypto.randomBytes(48 * 1024))
+    fs.writeFileSync(TAKE2_FILE, crypto.randomBytes(128 * 1024))
+    fs.mkdirSync(path.join(COMP_DIR, 'objects', 'earlier'), { recursive: true })
+    fs.copyFileSync(OLD_PHOTO, path.join(COMP_DIR, 'objects', OLD_PHOTO_STORAGE))
+    const oldPhotoSha = crypto.createHash('sha256').update(fs.readFileSync(OLD_PHOTO)).digest('hex')
+
+    // Unique competitionId per run so persisted state from a previous run isn't restored
+    fs.writeFileSync(path.join(COMP_DIR, 'schedule.json'), JSON.stringify({
+      tenantId: 'local',
+      competitionId: `e2e-${RUN_ID}`,
+      name: 'Local Mirror E2E',
+      days: ['Saturday'],
+      source: 'api',
+      loadedAt: new Date().toISOString(),
+      routines: [{
+        id: ROUTINE_ID,
+        entryNumber: '101',
+        routineTitle: 'Mirror Test',
+        dancers: 'Test Dancer',
+        studioName: 'Test Studio',
+        studioCode: 'TS',
+        category: 'Jazz',
+        classification: 'Competitive',
+        ageGroup: 'Teen',
+        sizeCategory: 'Solo',
+        durationMinutes: 3,
+        scheduledDay: 'Saturday',
+        position: 1,
+        status: 'encoded',
+        encodedFiles: [{ role: 'performance', filePath: SOURCE_FILE, uploaded: false }],
+        takes: [{
+          number: 2,
+          status: 'uploaded',
+          encodedFiles: [{ role: 'performance', filePath: TAKE2_FILE, uploaded: true, storagePath: `earlier/${RUN_ID}-take2-performance.mp4` }],
+        }],
+        photos: [
+          { filePath: NEW_PHOTO, captureTime: new Date().toISOString(), confidence: 'exact', uploaded: false },
+          {
+            filePath: OLD_PHOTO,
+            captureTime: new Date().toISOString(),
+            confidence: 'exact',
+            uploaded: true,
+            storagePath: OLD_PHOTO_STORAGE,
+            sha256: oldPhotoSha,
+            size: 48 * 1024,
+          },
+        ],
+      }],
+    }, null, 2))
+
+    app = await electron.launch({
+      args: [
+        './out/main/index.js',
+        '--disable-gpu',
+        '--no-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-software-rasterizer',
+        '--disable-gpu-sandbox',
+        '--disable-features=VizDisplayCompositor',
+      ],
+      env: { ...process.env, ELECTRON_DISABLE_GPU: '1', DISPLAY: process.env.DISPLAY || ':0' },
+      timeout: 30000,
+    })
+    window = await app.firstWindow()
+    await window.waitForLoadState('domcontentloaded')
+    await window.waitForTimeout(3000)
+
+    originalRootDir = await window.evaluate(async (root) => {
+      const settings = await window.api.settingsGet()
+      await window.api.settingsSet({ localMirror: { rootDir: root } })
+      return settings.localMirror?.rootDir ?? ''
+    }, MIRROR_ROOT)
+  })
+
+  test.afterAll(async () => {
+    if (window) {
+      await window.evaluate(async (root) => {
+        await window.api.settingsSet({ localMirror: { rootDir: root } })
+      }, originalRootDir).catch(() => {})
+    }
+    if (app) await app.close()
+  })
+
+  test('unknown local share code fails with a folder error', async () => {
+    const result = await window.evaluate(async () => {
+      return await window.api.scheduleLoadShareCode('LOCAL-DOES-NOT-EXIST')
+    })
+    expect(result).toHaveProperty('error')
+    expect(String(result.error)).toContain('Local mirror folder not found')
+  })
+
+  test('local share code finds a mirror folder named in another case', async () => {
+    const lowerDir = path.join(MIRROR_ROOT, 'e2e-lower')
+    fs.rmSync(lowerDir, { recursive: true, force: true })
+    fs.mkdirSync(lowerDir, { recursive: true })
+    fs.copyFileSync(path.join(COMP_DIR, 'schedule.json'), path.join(lowerDir, 'schedule.json'))
+    const comp = await window.evaluate(async () => {
+      return await window.api.scheduleLoadShareCode('LOCAL-E2E-LOWER')
+    })
+    expect(comp).not.toHaveProperty('error')
+    expect(comp.routines.length).toBe(1)
+    fs.rmSync(lowerDir, { recursive: true, force: true })
+  })
+
+  test('LOCAL- share code loads the schedule from disk', async () => {
+    const comp = await window.evaluate(async (code) => {
+      return await window.api.scheduleLoadShareCode(code)
+    }, `LOCAL-${CODE_NAME}`)
+    expect(comp.routines.length).toBe(1)
+    expect(comp.routines[0].id).toBe(ROUTINE_ID)
+  })
+
+  test('upload runs end to end into the mirror folder', async () => {
+    await window.evaluate(async (id) => {
+      await window.api.uploadRoutine(id)
+    }, ROUTINE_ID)
+
+    const completion = path.join(COMP_DIR, 'completions', `${ROUTINE_ID}.json`)
+    await expect.poll(() => fs.existsSync(completion), { timeout: 30000 }).toBe(true)
+
+    const record = JSON.parse(fs.readFileSync(completion, 'utf-8'))
+    const storagePath = record.files.performance as string
+    expect(storagePath).toBeTruthy()
+
+    const stored = fs.readFileSync(path.join(COMP_DIR, 'objects', storagePath))
+    expect(stored.equals(fs.readFileSync(SOURCE_FILE))).toBe(true)
+
+    const sha256 = crypto.createHash('sha256').update(stored).digest('hex')
+    expect(record.checksums[storagePath].sha256).toBe(sha256)
+
+    await expect.poll(async () => {
+      const comp = await window.evaluate(async () => await window.api.scheduleGet())
+      return comp.routines.find((r: any) => r.id === ROUTINE_ID)?.status
+    }, { timeout: 10000 }).toBe('uploaded')
+  })
+
+  test('each photo keeps its own storage path and checksum after completion', async () => {
+    const comp = await window.evaluate(async () => await window.api.scheduleGet())
+    const photos = comp.routines.find((r: any) => r.id === ROUTINE_ID).photos
+    const fresh = photos.find((p: any) => p.filePath === NEW_PHOTO)
+    const earlier = photos.find((p: any) => p.filePath === OLD_PHOTO)
+
+    expect(earlier.storagePath).toBe(OLD_PHOTO_STORAGE)
+    expect(fresh.uploaded).toBe(true)
+    expect(fresh.storagePath).not.toBe(OLD_PHOTO_STORAGE)
+    const stored = fs.readFileSync(path.join(COMP_DIR, 'objects', fresh.storagePath))
+    expect(stored.equals(fs.readFileSync(NEW_PHOTO))).toBe(true)
+    expect(fresh.sha256).toBe(crypto.createHash('sha256').update(stored).digest('hex'))
+    expect(fresh.size).toBe(stored.length)
+  })
+
+  test('verify pass finds no mismatch, then catches a tampered object', async () => {
+    const clean = await window.evaluate(async () => await window.api.uploadVerify())
+    expect(clean.checked).toBe(3) // performance + both photos
+    expect(clean.mismatched).toBe(0)
+
+    const record = JSON.parse(fs.readFileSync(path.join(COMP_DIR, 'completions', `${ROUTINE_ID}.json`), 'utf-8'))
+    const object = path.join(COMP_DIR, 'objects', record.files.performance)
+    fs.writeFileSync(object, 'truncated')
+
+    const tampered = await window.evaluate(async () => await window.api.uploadVerify())
+    expect(tampered.checked).toBe(3)
+    expect(tampered.mismatched).toBe(1)
+    expect(tampered.requeued).toBe(1)
+
+    // The re-queued upload replaces the bad object and the routine completes again
+    await expect.poll(() => {
+      const latest = JSON.parse(fs.readFileSync(path.join(COMP_DIR, 'completions', `${ROUTINE_ID}.json`), 'utf-8'))
+      const file = path.join(COMP_DIR, 'objects', latest.files.performance)
+      return fs.existsSync(file) && fs.readFileSync(file).equals(fs.readFileSync(SOURCE_FILE))
+    }, { timeout: 30000 }).toBe(true)
+    await expect.poll(async () => {
+      const comp = await window.evaluate(async () => await window.api.scheduleGet())
+      return comp.routines.find((r: any) => r.id === ROUTINE_ID)?.status
+    }, { timeout: 10000 }).toBe('uploaded')
+
+    const recheck = await window.evaluate(async () => await window.api.uploadVerify())
+    expect(recheck.mismatched).toBe(0)
+  })
+
+  test('switching primary to an uploaded take sends it again and re-completes', async () => {
+    await window.evaluate(async (id) => {
+      await window.api.settingsSet({ behavior: { autoUploadAfterEncoding: true } })
+      await window.api.setPrimaryTake(id, 2)
+    }, ROUTINE_ID)
+
+    // The server's primary performance is now take 2's file
+    await expect.poll(() => {
+      const latest = JSON.parse(fs.readFileSync(path.join(COMP_DIR, 'completions', `${ROUTINE_ID}.json`), 'utf-8'))
+      const file = path.join(COMP_DIR, 'objects', latest.files.performance)
+      return fs.existsSync(file) && fs.readFileSync(file).equals(fs.readFileSync(TAKE2_FILE))
+    }, { timeout: 30000 }).toBe(true)
+    await expect.poll(async () => {
+      const comp = await window.evaluate(async () => await window.api.scheduleGet())
+      return comp.routines.find((r: any) => r.id === ROUTINE_ID)?.status
+    }, { timeout: 10000 }).toBe('uploaded')
+
+    const comp = await window.evaluate(async () => await window.api.scheduleGet())
+    const routine = comp.routines.find((r: any) => r.id === ROUTINE_ID)
+    expect(routine.takeNumber).toBe(2)
+    expect(routine.encodedFiles[0].filePath).toBe(TAKE2_FILE)
+    expect(routine.encodedFiles[0].uploaded).toBe(true)
+    expect(routine.takes.map((t: any) => t.number)).toEqual([1])
+  })
+
+  test('schedule sync pulls a late add and pushes live status', async () => {
+    const schedulePath = path.join(COMP_DIR, 'schedule.json')
+    const schedule = JSON.parse(fs.readFileSync(schedulePath, 'utf-8'))
+    const lateAdd = { ...schedule.routines[0], id: `${ROUTINE_ID}-late`, entryNumber: '101a', position: 2, status: 'pending' }
+    delete lateAdd.encodedFiles
+    delete lateAdd.takes
+    schedule.routines.push(lateAdd)
+    fs.writeFileSync(schedulePath, JSON.stringify(schedule, null, 2))
+
+    await window.evaluate(async () => {
+      await window.api.settingsSet({ scheduleSync: { intervalSec: 1 } })
+    })
+    try {
+      await expect.poll(async () => {
+        const comp = await window.evaluate(async () => await window.api.scheduleGet())
+        return comp.routines.map((r: any) => r.entryNumber)
+      }, { timeout: 15000 }).toEqual(['101', '101a'])
+
+      // Local status of the original routine survives the merge
+      const comp = await window.evaluate(async () => await window.api.scheduleGet())
+      expect(comp.routines[0].status).not.toBe('pending')
+
+      const livePath = path.join(COMP_DIR, 'live-status.json')
+      await expect.poll(() => fs.existsSync(livePath), { timeout: 15000 }).toBe(true)
+      const live = JSON.parse(fs.readFileSync(livePath, 'utf-8'))
+      expect(live.routines[ROUTINE_ID]).toBeDefined()
+    } finally {
+      await window.evaluate(async () => {
+        await window.api.settingsSet({ scheduleSync: { intervalSec: 60 } })
+      })
+    }
+  })
+
+  test('reload preview lists changes and locks routines with media', async () => {
+    const schedulePath = path.join(COMP_DIR, 'schedule.json')
+    const schedule = JSON.parse(fs.readFileSync(schedulePath, 'utf-8'))
+    schedule.routines[0].routineTitle = 'Renamed After Upload'
+    schedule.routines[1].routineTitle = 'Renamed Late Add'
+    fs.writeFileSync(schedulePath, JSON.stringify(schedule, null, 2))
+
+    const diff = await window.evaluate(async (code) => {
+      return await window.api.schedulePreviewShareCode(code)
+    }, `LOCAL-${CODE_NAME}`)
+    const retitled = diff.changes.filter((c: any) => c.kind === 'retitled')
+    expect(retitled.find((c: any) => c.routineId === ROUTINE_ID)?.locked).toBe(true)
+    expect(retitled.find((c: any) => c.routineId === `${ROUTINE_ID}-late`)?.locked).toBe(false)
+
+    // Accepting everything still leaves the uploaded routine untouched
+    await window.evaluate(async (ids) => {
+      await window.api.scheduleApplyReload(ids)
+    }, diff.changes.map((c: any) => c.id))
+    const comp = await window.evaluate(async () => await window.api.scheduleGet())
+    expect(comp.routines.find((r: any) => r.id === ROUTINE_ID).routineTitle).toBe('Mirror Test')
+    expect(comp.routines.find((r: any) => r.id === `${ROUTINE_ID}-late`).routineTitle).toBe('Renamed Late Add')
+  })
+
+  test('schedule edits are audited and survive a sync pull', async () => {
+    const added = await window.evaluate(async (after) => {
+      return await window.api.addRoutine({ entryNumber: '150', routineTitle: 'Late Add', afterRoutineId: after })
+    }, ROUTINE_ID)
+    expect(added.localOnly).toBe('late-add')
+
+    // Uploaded routine can't be scratched; the late add can
+    const refused = await window.evaluate(async (id) => await window.api.scratchRoutine(id, 'injury'), ROUTINE_ID)
+    expect(refused).toHaveProperty('error')
+    await window.evaluate(async (id) => await window.api.scratchRoutine(id, 'no-show'), added.id)
+    await window.evaluate(async (id) => await window.api.renumberRoutine(id, '101-A'), `${ROUTINE_ID}-late`)
+
+    await window.evaluate(async () => {
+      await window.api.settingsSet({ scheduleSync: { intervalSec: 1 } })
+    })
+    try {
+      await new Promise((r) => setTimeout(r, 2500))
+      const comp = await window.evaluate(async () => await window.api.scheduleGet())
+      const late = comp.routines.find((r: any) => r.id === added.id)
+      expect(late.status).toBe('skipped')
+      expect(late.scratch.reason).toBe('no-show')
+      expect(comp.routines.find((r: any) => r.id === `${ROUTINE_ID}-late`).entryNumber).toBe('101-A')
+      expect(comp.auditLog.map((e: any) => e.action)).toEqual(['add', 'scratch', 'renumber'])
+    } finally {
+      await window.evaluate(async () => {
+        await window.api.settingsSet({ scheduleSync: { intervalSec: 60 } })
+      })
+    }
+  })
+})
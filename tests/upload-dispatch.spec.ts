@@ -123,6 +123,43 @@ test.describe('Upload Dispatch — Queue & Routing', () => {
     expect(runningJobs.length).toBe(0)
   })
 
+  test('upload worker count is configured and bounded', async () => {
+    const settings = await window.evaluate(async () => {
+      return await window.api.settingsGet()
+    })
+    expect(settings.upload.workers).toBeGreaterThanOrEqual(1)
+    expect(settings.upload.workers).toBeLessThanOrEqual(8)
+  })
+
+  test('repeated start/stop with parallel workers leaves no running jobs', async () => {
+    await window.evaluate(async () => {
+      for (let i = 0; i < 3; i++) {
+        try { await window.api.uploadStart() } catch {}
+        try { await window.api.uploadStop() } catch {}
+      }
+    })
+
+    const queue = await window.evaluate(async () => {
+      return await window.api.jobQueueGet()
+    })
+    const runningJobs = queue.filter((j: any) => j.status === 'running' && j.type === 'upload')
+    expect(runningJobs.length).toBe(0)
+  })
+
+  test('verify without connection is skipped, not an error', async () => {
+    const pendingUploads = async (): Promise<number> => {
+      const queue = await window.evaluate(async () => await window.api.jobQueueGet())
+      return queue.filter((j: any) => j.type === 'upload' && j.status === 'pending').length
+    }
+    const pendingBefore = await pendingUploads()
+    const result = await window.evaluate(async () => {
+      return await window.api.uploadVerify()
+    })
+    // No share code resolved in this suite: nothing is checked and nothing re-queued
+    expect(result).toEqual({ checked: 0, mismatched: 0, requeued: 0, skippedReason: 'no-connection' })
+    expect(await pendingUploads()).toBe(pendingBefore)
+  })
+
   // ---------- Upload Progress Events ----------
 
   test('upload progress listener can subscribe/unsubscribe', async () => {